@@ -0,0 +1,21 @@
+export { Disposal, Lot, LotMatch, LotMethod, LotSelections, matchLots } from "./lots";
+export {
+  buildPerformanceReport,
+  ClosedTrade,
+  formatPerformanceReport,
+  OpenPosition,
+  PerformanceReport,
+  PerformanceReportOptions,
+  StrategyPerformance,
+  timeWeightedReturn,
+  ValuePoint
+} from "./report";
+export {
+  buildTaxDisposals,
+  HoldingTerm,
+  TaxDisposal,
+  TaxExportOptions,
+  taxDisposalsToCsv,
+  transactionsToCsv,
+  writeTaxExport
+} from "./tax-export";
@@ -0,0 +1,164 @@
+import { Order } from "../orders";
+
+export type LotMethod = "fifo" | "lifo" | "hifo" | "average" | "specific";
+
+// Lot ids (buy fill ids) to close first, per sell order id, for specific identification
+export type LotSelections = Record<string, string[]>;
+
+// One buy fill, and how much of it is still held
+export interface Lot {
+  id: string;
+  orderId: string;
+  productId: string;
+  strategyId?: string;
+  acquiredAt: Date;
+  originalAmount: number;
+  amount: number;
+  // Fill price plus the fill's fee spread over its amount
+  costPerUnit: number;
+}
+
+export interface LotMatch {
+  lotId: string;
+  acquiredAt: Date;
+  amount: number;
+  cost: number;
+}
+
+// One sell fill matched against the lots it closed
+export interface Disposal {
+  id: string;
+  orderId: string;
+  productId: string;
+  strategyId?: string;
+  disposedAt: Date;
+  amount: number;
+  // Sale value net of the fill's fee
+  proceeds: number;
+  fee: number;
+  costBasis: number;
+  // P&L on the matched part only; see unmatchedAmount
+  realizedPnl: number;
+  matches: LotMatch[];
+  // Sold without any lot to match, e.g. holdings acquired outside the agent
+  unmatchedAmount: number;
+}
+
+const EPSILON = 1e-12;
+
+// Lots in the order a sell consumes them
+function orderLots(lots: Lot[], method: LotMethod, selected: string[] = []): Lot[] {
+  switch (method) {
+    case "fifo":
+      return lots;
+    case "lifo":
+      return [...lots].reverse();
+    case "hifo":
+      // Stable sort keeps the oldest first among lots bought at the same cost
+      return [...lots].sort((a, b) => b.costPerUnit - a.costPerUnit);
+    case "specific": {
+      // Whatever the selection doesn't cover is taken first-in, first-out
+      const chosen = selected
+        .map((id) => lots.find((lot) => lot.id === id))
+        .filter((lot): lot is Lot => lot !== undefined);
+      return [...chosen, ...lots.filter((lot) => !chosen.includes(lot))];
+    }
+    default:
+      throw new Error(`Unknown lot method: ${method}`);
+  }
+}
+
+/**
+ * Replays every fill in time order, opening a lot per buy and matching each
+ * sell against the open lots of the same product. Average cost draws from
+ * all open lots in proportion so their remaining cost stays at the average.
+ * Specific identification uses the sell order's lotIds unless overridden.
+ */
+export function matchLots(
+  orders: Order[],
+  method: LotMethod = "fifo",
+  selections: LotSelections = {}
+): { disposals: Disposal[]; openLots: Lot[] } {
+  const openLots = new Map<string, Lot[]>();
+  const disposals: Disposal[] = [];
+
+  const fills = orders
+    .flatMap((order) => order.fills.map((fill) => ({ order, fill })))
+    .sort((a, b) => a.fill.timestamp.localeCompare(b.fill.timestamp));
+
+  for (const { order, fill } of fills) {
+    const lots = openLots.get(order.productId) || [];
+    openLots.set(order.productId, lots);
+
+    if (order.side === "buy") {
+      lots.push({
+        id: fill.id,
+        orderId: order.id,
+        productId: order.productId,
+        strategyId: order.strategyId,
+        acquiredAt: new Date(fill.timestamp),
+        originalAmount: fill.amount,
+        amount: fill.amount,
+        costPerUnit: fill.price + fill.fee / fill.amount
+      });
+      continue;
+    }
+
+    const matches = method === "average"
+      ? matchAverage(lots, fill.amount)
+      : matchInOrder(orderLots(lots, method, selections[order.id] || order.lotIds), fill.amount);
+    openLots.set(order.productId, lots.filter((lot) => lot.amount > EPSILON));
+
+    const matched = matches.reduce((sum, match) => sum + match.amount, 0);
+    const costBasis = matches.reduce((sum, match) => sum + match.cost, 0);
+    const proceeds = fill.price * fill.amount - fill.fee;
+
+    disposals.push({
+      id: fill.id,
+      orderId: order.id,
+      productId: order.productId,
+      strategyId: order.strategyId,
+      disposedAt: new Date(fill.timestamp),
+      amount: fill.amount,
+      proceeds,
+      fee: fill.fee,
+      costBasis,
+      realizedPnl: proceeds * (matched / fill.amount) - costBasis,
+      matches,
+      unmatchedAmount: Math.max(fill.amount - matched, 0)
+    });
+  }
+
+  return { disposals, openLots: Array.from(openLots.values()).flat() };
+}
+
+function matchInOrder(lots: Lot[], amount: number): LotMatch[] {
+  const matches: LotMatch[] = [];
+  let remaining = amount;
+
+  for (const lot of lots) {
+    if (remaining <= EPSILON) break;
+    if (lot.amount <= EPSILON) continue;
+
+    const taken = Math.min(lot.amount, remaining);
+    lot.amount -= taken;
+    remaining -= taken;
+    matches.push({ lotId: lot.id, acquiredAt: lot.acquiredAt, amount: taken, cost: taken * lot.costPerUnit });
+  }
+  return matches;
+}
+
+function matchAverage(lots: Lot[], amount: number): LotMatch[] {
+  const held = lots.reduce((sum, lot) => sum + lot.amount, 0);
+  if (held <= EPSILON) return [];
+
+  const share = Math.min(amount / held, 1);
+  const averageCost = lots.reduce((sum, lot) => sum + lot.amount * lot.costPerUnit, 0) / held;
+
+  return lots.map((lot) => {
+    const taken = lot.amount * share;
+    lot.amount -= taken;
+    // Every unit sold carries the pool's average cost, whatever lot it came from
+    return { lotId: lot.id, acquiredAt: lot.acquiredAt, amount: taken, cost: taken * averageCost };
+  });
+}
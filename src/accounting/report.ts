@@ -0,0 +1,288 @@
+import { Order } from "../orders";
+import { Disposal, LotMethod, LotSelections, matchLots } from "./lots";
+
+// Realized result of one sell order, summed over its fills
+export interface ClosedTrade {
+  orderId: string;
+  productId: string;
+  strategyId?: string;
+  closedAt: Date;
+  amount: number;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  realizedPnl: number;
+  returnPercent: number | null;
+}
+
+export interface OpenPosition {
+  productId: string;
+  amount: number;
+  costBasis: number;
+  price: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+}
+
+export interface StrategyPerformance {
+  // "manual" for orders placed outside any strategy
+  strategyId: string;
+  trades: number;
+  closedTrades: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  winRate: number;
+  profitFactor: number | null;
+}
+
+export interface ValuePoint {
+  timestamp: Date;
+  value: number;
+}
+
+export interface PerformanceReportOptions {
+  method?: LotMethod;
+  lotSelections?: LotSelections;
+  from?: Date;
+  to?: Date;
+  productId?: string;
+  strategyId?: string;
+  // Latest price per product, for unrealized P&L on open lots
+  prices?: Map<string, number>;
+  // Portfolio valuations and external deposits (+) / withdrawals (-) for the time-weighted return
+  equityCurve?: ValuePoint[];
+  cashFlows?: ValuePoint[];
+}
+
+export interface PerformanceReport {
+  method: LotMethod;
+  from: Date | null;
+  to: Date | null;
+  productId: string | null;
+  strategyId: string | null;
+  // Filled or partially filled orders in the period
+  totalTrades: number;
+  closedTrades: ClosedTrade[];
+  openPositions: OpenPosition[];
+  realizedPnl: number;
+  unrealizedPnl: number;
+  profitLoss: number;
+  fees: number;
+  winRate: number;
+  // Gross profit over gross loss; null when nothing lost money
+  profitFactor: number | null;
+  bestTrade: ClosedTrade | null;
+  worstTrade: ClosedTrade | null;
+  byStrategy: StrategyPerformance[];
+  timeWeightedReturn: number | null;
+  // Units sold that no recorded buy could account for
+  unmatchedAmount: number;
+}
+
+const MANUAL = "manual";
+
+function inRange(time: Date, from?: Date, to?: Date): boolean {
+  return (!from || time >= from) && (!to || time <= to);
+}
+
+function winRate(trades: ClosedTrade[]): number {
+  return trades.length > 0 ? (trades.filter((trade) => trade.realizedPnl > 0).length / trades.length) * 100 : 0;
+}
+
+function profitFactor(trades: ClosedTrade[]): number | null {
+  const grossProfit = trades.filter((t) => t.realizedPnl > 0).reduce((sum, t) => sum + t.realizedPnl, 0);
+  const grossLoss = -trades.filter((t) => t.realizedPnl < 0).reduce((sum, t) => sum + t.realizedPnl, 0);
+  return grossLoss > 0 ? grossProfit / grossLoss : null;
+}
+
+function closedTradesFrom(disposals: Disposal[]): ClosedTrade[] {
+  const byOrder = new Map<string, ClosedTrade>();
+
+  for (const disposal of disposals) {
+    const trade = byOrder.get(disposal.orderId) || {
+      orderId: disposal.orderId,
+      productId: disposal.productId,
+      strategyId: disposal.strategyId,
+      closedAt: disposal.disposedAt,
+      amount: 0,
+      proceeds: 0,
+      costBasis: 0,
+      fees: 0,
+      realizedPnl: 0,
+      returnPercent: null
+    };
+
+    trade.closedAt = disposal.disposedAt;
+    trade.amount += disposal.amount;
+    trade.proceeds += disposal.proceeds;
+    trade.costBasis += disposal.costBasis;
+    trade.fees += disposal.fee;
+    trade.realizedPnl += disposal.realizedPnl;
+    trade.returnPercent = trade.costBasis > 0 ? (trade.realizedPnl / trade.costBasis) * 100 : null;
+    byOrder.set(disposal.orderId, trade);
+  }
+
+  return Array.from(byOrder.values());
+}
+
+/**
+ * Chains the return of each period between valuations, taking out external
+ * cash flows so deposits and withdrawals don't count as performance.
+ * Flows are attributed to the end of the period they fall in.
+ */
+export function timeWeightedReturn(equityCurve: ValuePoint[], cashFlows: ValuePoint[] = []): number | null {
+  const points = [...equityCurve].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (points.length < 2) return null;
+
+  let growth = 1;
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1];
+    const end = points[i];
+    if (start.value <= 0) continue;
+
+    const flow = cashFlows
+      .filter((entry) => entry.timestamp > start.timestamp && entry.timestamp <= end.timestamp)
+      .reduce((sum, entry) => sum + entry.value, 0);
+    growth *= (end.value - flow) / start.value;
+  }
+  return (growth - 1) * 100;
+}
+
+export function buildPerformanceReport(orders: Order[], options: PerformanceReportOptions = {}): PerformanceReport {
+  const { method = "fifo", from, to, productId, strategyId, prices = new Map() } = options;
+
+  // Lots are matched across all strategies so cost basis is right, then filtered
+  const relevant = orders
+    .filter((order) => !productId || order.productId === productId)
+    .map((order) => to ? { ...order, fills: order.fills.filter((fill) => new Date(fill.timestamp) <= to) } : order);
+  const { disposals, openLots } = matchLots(relevant, method, options.lotSelections);
+
+  const matchesStrategy = (id?: string) => !strategyId || (id || MANUAL) === strategyId;
+  const periodDisposals = disposals.filter((d) => inRange(d.disposedAt, from, to) && matchesStrategy(d.strategyId));
+  const closedTrades = closedTradesFrom(periodDisposals);
+  const lots = openLots.filter((lot) => matchesStrategy(lot.strategyId));
+
+  const positions = new Map<string, OpenPosition>();
+  for (const lot of lots) {
+    const price = prices.get(lot.productId) ?? null;
+    const position = positions.get(lot.productId) || {
+      productId: lot.productId, amount: 0, costBasis: 0, price, marketValue: null, unrealizedPnl: null
+    };
+    position.amount += lot.amount;
+    position.costBasis += lot.amount * lot.costPerUnit;
+    if (price !== null) {
+      position.marketValue = position.amount * price;
+      position.unrealizedPnl = position.marketValue - position.costBasis;
+    }
+    positions.set(lot.productId, position);
+  }
+  const openPositions = Array.from(positions.values());
+
+  const periodOrders = relevant.filter((order) =>
+    order.fills.some((fill) => inRange(new Date(fill.timestamp), from, to)) && matchesStrategy(order.strategyId)
+  );
+  const fees = periodOrders.reduce(
+    (sum, order) => sum + order.fills
+      .filter((fill) => inRange(new Date(fill.timestamp), from, to))
+      .reduce((total, fill) => total + fill.fee, 0),
+    0
+  );
+
+  const strategyIds = new Set([
+    ...periodOrders.map((order) => order.strategyId || MANUAL),
+    ...lots.map((lot) => lot.strategyId || MANUAL)
+  ]);
+  const byStrategy = Array.from(strategyIds).map((id): StrategyPerformance => {
+    const trades = closedTrades.filter((trade) => (trade.strategyId || MANUAL) === id);
+    const strategyOrders = periodOrders.filter((order) => (order.strategyId || MANUAL) === id);
+    const unrealized = lots
+      .filter((lot) => (lot.strategyId || MANUAL) === id && prices.has(lot.productId))
+      .reduce((sum, lot) => sum + lot.amount * (prices.get(lot.productId) - lot.costPerUnit), 0);
+
+    return {
+      strategyId: id,
+      trades: strategyOrders.length,
+      closedTrades: trades.length,
+      realizedPnl: trades.reduce((sum, trade) => sum + trade.realizedPnl, 0),
+      unrealizedPnl: unrealized,
+      fees: strategyOrders.reduce((sum, order) => sum + order.fills
+        .filter((fill) => inRange(new Date(fill.timestamp), from, to))
+        .reduce((total, fill) => total + fill.fee, 0), 0),
+      winRate: winRate(trades),
+      profitFactor: profitFactor(trades)
+    };
+  });
+
+  const realizedPnl = closedTrades.reduce((sum, trade) => sum + trade.realizedPnl, 0);
+  const unrealizedPnl = openPositions.reduce((sum, position) => sum + (position.unrealizedPnl || 0), 0);
+  const ranked = [...closedTrades].sort((a, b) => b.realizedPnl - a.realizedPnl);
+  const equityCurve = (options.equityCurve || []).filter((point) => inRange(point.timestamp, from, to));
+
+  return {
+    method,
+    from: from || null,
+    to: to || null,
+    productId: productId || null,
+    strategyId: strategyId || null,
+    totalTrades: periodOrders.length,
+    closedTrades,
+    openPositions,
+    realizedPnl,
+    unrealizedPnl,
+    profitLoss: realizedPnl + unrealizedPnl,
+    fees,
+    winRate: winRate(closedTrades),
+    profitFactor: profitFactor(closedTrades),
+    bestTrade: ranked[0] || null,
+    worstTrade: ranked[ranked.length - 1] || null,
+    byStrategy,
+    timeWeightedReturn: timeWeightedReturn(equityCurve, options.cashFlows),
+    unmatchedAmount: periodDisposals.reduce((sum, disposal) => sum + disposal.unmatchedAmount, 0)
+  };
+}
+
+export function formatPerformanceReport(report: PerformanceReport): string {
+  const money = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+  const filters = [
+    report.from && `from ${report.from.toISOString().slice(0, 10)}`,
+    report.to && `to ${report.to.toISOString().slice(0, 10)}`,
+    report.productId,
+    report.strategyId && `strategy ${report.strategyId}`
+  ].filter(Boolean);
+
+  const lines = [
+    `📈 Performance Report (${report.method.toUpperCase()}${filters.length ? `, ${filters.join(", ")}` : ""})`,
+    `   Trades: ${report.totalTrades} (${report.closedTrades.length} closing)`,
+    `   Realized P&L: ${money(report.realizedPnl)}`,
+    `   Unrealized P&L: ${money(report.unrealizedPnl)}`,
+    `   Total P&L: ${money(report.profitLoss)}`,
+    `   Fees: ${money(report.fees)}`,
+    `   Win Rate: ${report.winRate.toFixed(1)}%`,
+    `   Profit Factor: ${report.profitFactor !== null ? report.profitFactor.toFixed(2) : "n/a"}`,
+    `   Time-Weighted Return: ${report.timeWeightedReturn !== null ? `${report.timeWeightedReturn.toFixed(2)}%` : "n/a"}`
+  ];
+
+  if (report.bestTrade) {
+    lines.push(`   Best Trade: ${report.bestTrade.productId} ${money(report.bestTrade.realizedPnl)} (${report.bestTrade.orderId})`);
+    lines.push(`   Worst Trade: ${report.worstTrade.productId} ${money(report.worstTrade.realizedPnl)} (${report.worstTrade.orderId})`);
+  }
+  for (const position of report.openPositions) {
+    const pnl = position.unrealizedPnl !== null ? ` → ${money(position.unrealizedPnl)}` : " (no price)";
+    lines.push(`   Open: ${position.amount} ${position.productId} at cost ${money(position.costBasis)}${pnl}`);
+  }
+  if (report.byStrategy.length > 1) {
+    lines.push("   By strategy:");
+    for (const strategy of report.byStrategy) {
+      lines.push(
+        `     ${strategy.strategyId}: ${strategy.trades} trades, realized ${money(strategy.realizedPnl)}, ` +
+        `unrealized ${money(strategy.unrealizedPnl)}, win rate ${strategy.winRate.toFixed(1)}%`
+      );
+    }
+  }
+  if (report.unmatchedAmount > 0) {
+    lines.push(`   ⚠️  ${report.unmatchedAmount} units sold had no recorded purchase and are excluded from P&L`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import { Order } from "../orders";
+import { LotMethod, LotSelections, matchLots } from "./lots";
+
+export type HoldingTerm = "short" | "long";
+
+// One lot, or part of one, closed by a sale: a line on a capital gains form
+export interface TaxDisposal {
+  asset: string;
+  productId: string;
+  amount: number;
+  // Null when the units sold can't be traced to a recorded purchase
+  acquiredAt: Date | null;
+  disposedAt: Date;
+  proceeds: number;
+  costBasis: number | null;
+  gainLoss: number | null;
+  term: HoldingTerm | null;
+  sellOrderId: string;
+  lotId: string | null;
+}
+
+export interface TaxExportOptions {
+  method?: LotMethod;
+  lotSelections?: LotSelections;
+  // Only sales in this range are reported; lots are matched over the full history
+  from?: Date;
+  to?: Date;
+}
+
+// Long term once held for more than a year, per calendar date
+function holdingTerm(acquiredAt: Date, disposedAt: Date): HoldingTerm {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return disposedAt > anniversary ? "long" : "short";
+}
+
+export function buildTaxDisposals(orders: Order[], options: TaxExportOptions = {}): TaxDisposal[] {
+  const { method = "fifo", lotSelections, from, to } = options;
+  const { disposals } = matchLots(orders, method, lotSelections);
+  const rows: TaxDisposal[] = [];
+
+  for (const disposal of disposals) {
+    if ((from && disposal.disposedAt < from) || (to && disposal.disposedAt > to)) continue;
+
+    const asset = disposal.productId.split("-")[0];
+    // Sale proceeds are split across the lots in proportion to the amount taken from each
+    const proceedsFor = (amount: number) => disposal.proceeds * (amount / disposal.amount);
+
+    for (const match of disposal.matches) {
+      if (match.amount <= 0) continue;
+      const proceeds = proceedsFor(match.amount);
+      rows.push({
+        asset,
+        productId: disposal.productId,
+        amount: match.amount,
+        acquiredAt: match.acquiredAt,
+        disposedAt: disposal.disposedAt,
+        proceeds,
+        costBasis: match.cost,
+        gainLoss: proceeds - match.cost,
+        term: holdingTerm(match.acquiredAt, disposal.disposedAt),
+        sellOrderId: disposal.orderId,
+        lotId: match.lotId
+      });
+    }
+
+    if (disposal.unmatchedAmount > 0) {
+      rows.push({
+        asset,
+        productId: disposal.productId,
+        amount: disposal.unmatchedAmount,
+        acquiredAt: null,
+        disposedAt: disposal.disposedAt,
+        proceeds: proceedsFor(disposal.unmatchedAmount),
+        costBasis: null,
+        gainLoss: null,
+        term: null,
+        sellOrderId: disposal.orderId,
+        lotId: null
+      });
+    }
+  }
+
+  return rows;
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(headers: string[], rows: Array<Array<string | number | null>>): string {
+  return [headers, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+const usd = (value: number | null) => (value === null ? null : value.toFixed(2));
+const units = (value: number) => parseFloat(value.toFixed(8)).toString();
+const day = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+/**
+ * Disposal report laid out like Form 8949: one row per lot closed, with
+ * "VARIOUS" and a blank cost basis where no purchase was recorded.
+ */
+export function taxDisposalsToCsv(disposals: TaxDisposal[]): string {
+  return toCsv(
+    [
+      "Description", "Asset", "Amount", "Date Acquired", "Date Sold", "Proceeds", "Cost Basis",
+      "Gain/Loss", "Term", "Sell Order ID", "Lot ID"
+    ],
+    disposals.map((row) => [
+      `${units(row.amount)} ${row.asset}`,
+      row.asset,
+      units(row.amount),
+      day(row.acquiredAt) || "VARIOUS",
+      day(row.disposedAt),
+      usd(row.proceeds),
+      usd(row.costBasis),
+      usd(row.gainLoss),
+      row.term || "unknown",
+      row.sellOrderId,
+      row.lotId
+    ])
+  );
+}
+
+/**
+ * Every fill as a transaction in the generic sent/received layout that most
+ * crypto tax tools import, with the fee charged in the quote currency.
+ */
+export function transactionsToCsv(orders: Order[], range: Pick<TaxExportOptions, "from" | "to"> = {}): string {
+  const fills = orders
+    .flatMap((order) => order.fills.map((fill) => ({ order, fill })))
+    .filter(({ fill }) => {
+      const time = new Date(fill.timestamp);
+      return (!range.from || time >= range.from) && (!range.to || time <= range.to);
+    })
+    .sort((a, b) => a.fill.timestamp.localeCompare(b.fill.timestamp));
+
+  return toCsv(
+    [
+      "Date", "Sent Amount", "Sent Currency", "Received Amount", "Received Currency", "Fee Amount",
+      "Fee Currency", "Net Worth Amount", "Net Worth Currency", "Label", "Description", "TxHash"
+    ],
+    fills.map(({ order, fill }) => {
+      const [base, quote = "USD"] = order.productId.split("-");
+      const value = fill.price * fill.amount;
+      const sent = order.side === "buy" ? [usd(value), quote] : [units(fill.amount), base];
+      const received = order.side === "buy" ? [units(fill.amount), base] : [usd(value), quote];
+
+      return [
+        fill.timestamp.replace("T", " ").replace(/\.\d+Z$|Z$/, " UTC"),
+        ...sent,
+        ...received,
+        usd(fill.fee),
+        quote,
+        usd(value),
+        quote,
+        null,
+        `${order.side} ${order.productId} @ ${fill.price} (order ${order.id}${order.strategyId ? `, ${order.strategyId}` : ""})`,
+        // Swaps carry their transaction; other fills use the fill id, unique so re-imports don't duplicate rows
+        fill.settlement?.transactionHash || fill.id
+      ];
+    })
+  );
+}
+
+// Writes disposals-<method>.csv and transactions.csv into the directory
+export async function writeTaxExport(
+  directory: string,
+  orders: Order[],
+  options: TaxExportOptions = {}
+): Promise<{ disposalsFile: string; transactionsFile: string; disposals: TaxDisposal[] }> {
+  const disposals = buildTaxDisposals(orders, options);
+  const disposalsFile = path.join(directory, `disposals-${options.method || "fifo"}.csv`);
+  const transactionsFile = path.join(directory, "transactions.csv");
+
+  await fs.promises.mkdir(directory, { recursive: true });
+  await fs.promises.writeFile(disposalsFile, taxDisposalsToCsv(disposals));
+  await fs.promises.writeFile(transactionsFile, transactionsToCsv(orders, options));
+
+  return { disposalsFile, transactionsFile, disposals };
+}
@@ -0,0 +1,108 @@
+import { CdpClient, EvmServerAccount } from "@coinbase/cdp-sdk";
+import { TradingRepository } from "../database/trading-repository";
+import { AccountSelection, TradingAccount } from "./types";
+
+export const DEFAULT_ACCOUNT_NAME = "trading-agent";
+
+const SELECTION_STATE_KEY = "account:selected";
+
+// CDP account names are 2-36 letters, digits and hyphens, starting and ending alphanumeric
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9-]{0,34}[A-Za-z0-9]$/;
+
+export function isValidAccountName(name: string): boolean {
+  return ACCOUNT_NAME_PATTERN.test(name);
+}
+
+function requireValidName(name: string) {
+  if (!isValidAccountName(name)) {
+    throw new Error(`Invalid account name "${name}": use 2-36 letters, digits and hyphens`);
+  }
+}
+
+// Records without an account predate account selection and belong to whichever account is in use
+export function belongsToAccount(record: { account?: string }, accountName: string): boolean {
+  return !record.account || record.account === accountName;
+}
+
+// "--account main" or "--account=main"
+export function accountNameFromArgs(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--account") return args[i + 1];
+    if (args[i].startsWith("--account=")) return args[i].slice("--account=".length);
+  }
+  return undefined;
+}
+
+/**
+ * Named CDP server accounts: the same name always resolves to the same
+ * address, so funds and history carry over between runs. The account in use
+ * is remembered in the repository and picked again on the next start.
+ */
+export class AccountManager {
+  // Without a CDP client (paper trading) only the remembered selection is available
+  constructor(private cdp: CdpClient | null, private repository: TradingRepository | null = null) {}
+
+  // An explicit name wins, then CDP_ACCOUNT_NAME, then the last account used, then the default
+  async resolveName(requested?: string): Promise<string> {
+    const name = requested || process.env.CDP_ACCOUNT_NAME || (await this.lastSelection())?.name || DEFAULT_ACCOUNT_NAME;
+    requireValidName(name);
+    return name;
+  }
+
+  async getOrCreate(name: string): Promise<EvmServerAccount> {
+    requireValidName(name);
+    return this.cdp.evm.getOrCreateAccount({ name });
+  }
+
+  async get(name: string): Promise<EvmServerAccount | null> {
+    try {
+      return await this.cdp.evm.getAccount({ name });
+    } catch (error) {
+      if (error.statusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<TradingAccount[]> {
+    const accounts: TradingAccount[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.cdp.evm.listAccounts({ pageToken });
+      for (const account of page.accounts) {
+        accounts.push({ name: account.name || account.address, address: account.address });
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return accounts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Brings an existing wallet under CDP management; its address stays the same
+  async importPrivateKey(name: string, privateKey: string): Promise<EvmServerAccount> {
+    requireValidName(name);
+    if (await this.get(name)) {
+      throw new Error(`An account named "${name}" already exists`);
+    }
+    const key = privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(key)) {
+      throw new Error("Private key must be 32 bytes of hex");
+    }
+    return this.cdp.evm.importAccount({ name, privateKey: key as `0x${string}` });
+  }
+
+  async remember(account: TradingAccount): Promise<void> {
+    if (!this.repository) return;
+
+    const selection: AccountSelection = {
+      name: account.name,
+      address: account.address,
+      selectedAt: new Date().toISOString()
+    };
+    await this.repository.saveState(SELECTION_STATE_KEY, selection);
+  }
+
+  async lastSelection(): Promise<AccountSelection | null> {
+    return this.repository ? this.repository.loadState<AccountSelection>(SELECTION_STATE_KEY) : null;
+  }
+}
@@ -0,0 +1,8 @@
+export * from "./types";
+export {
+  AccountManager,
+  accountNameFromArgs,
+  belongsToAccount,
+  DEFAULT_ACCOUNT_NAME,
+  isValidAccountName
+} from "./account-manager";
@@ -0,0 +1,10 @@
+// A named CDP account; the agent's balances, orders and strategies belong to one of these
+export interface TradingAccount {
+  name: string;
+  address: string;
+}
+
+// The account an agent last ran with, so the next start picks the same one
+export interface AccountSelection extends TradingAccount {
+  selectedAt: string;
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export { CoinbaseTradingAgent } from "./trading-agent";
+export { AlertCondition, PriceAlert, TriggeredAlert } from "../alerts";
+export { StrategyDefinition, StrategyType, TradingStrategy } from "../strategies";
+export { MarketData } from "../market-data";
+export { Order, TradeConfig } from "../orders";
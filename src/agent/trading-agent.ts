@@ -0,0 +1,1178 @@
+import { CdpClient } from "@coinbase/cdp-sdk";
+import { EventEmitter } from "events";
+import { createMarketDataProvider, Candle, MarketData, MarketDataProvider } from "../market-data";
+import { AccountManager, belongsToAccount, TradingAccount } from "../accounts";
+import { AlertCondition, PriceAlert, PriceAlertBook } from "../alerts";
+import { describeNetworks, NetworkConfig, networkConfigFromEnv, NETWORKS } from "../networks";
+import {
+  CashFlow,
+  CdpWalletBackend,
+  FaucetFunding,
+  FundingAsset,
+  requestTestnetFunds,
+  TokenTransfer,
+  transferTokens,
+  WalletBackend
+} from "../funding";
+import { createSwapVenue } from "../swaps";
+import {
+  AssetBalance,
+  createExecutionVenue,
+  ExecutionEngine,
+  EXECUTION_EVENTS,
+  ExecutionMode,
+  ExecutionVenue
+} from "../execution";
+import {
+  buildMarketSnapshot,
+  holdDecision,
+  LlmClient,
+  llmClientFromEnv,
+  requestTradeDecision,
+  TradeDecision
+} from "../ai";
+import {
+  buildPerformanceReport,
+  Lot,
+  LotMethod,
+  matchLots,
+  PerformanceReport,
+  PerformanceReportOptions,
+  TaxExportOptions,
+  writeTaxExport
+} from "../accounting";
+import { TradingRepository } from "../database/trading-repository";
+import { isConditionalOrder, Order, ORDER_EVENTS, TradeConfig } from "../orders";
+import {
+  costBasisFromOrders,
+  fetchNetworkBalances,
+  formatRebalancePlan,
+  NetworkBalances,
+  planRebalance,
+  PortfolioAnalysis,
+  PortfolioSnapshots,
+  priceAssets,
+  RebalanceExecution,
+  RebalanceOptions,
+  RebalancePlan,
+  snapshotOf,
+  TokenBalance,
+  totalBalances,
+  valuePortfolio,
+  venueTokenBalances
+} from "../portfolio";
+import {
+  createProductSource,
+  loadProductCatalog,
+  normalizeProductId,
+  Product,
+  ProductCatalog
+} from "../products";
+import { RiskEngine, RiskLimits, riskLimitsFromEnv } from "../risk";
+import {
+  cancelGridOrders,
+  dcaStrategy,
+  executeStrategy,
+  GridSpacing,
+  gridStrategy,
+  initialStrategyState,
+  meanReversionStrategy,
+  momentumStrategy,
+  rebalanceStrategy,
+  StrategyContext,
+  StrategyDefinition,
+  strategyProducts,
+  TradingStrategy
+} from "../strategies";
+import { AccountBalance, AgentOptions } from "./types";
+
+// Hourly candles for the last 60 hours: enough for the 50-period average
+const AI_CANDLE_GRANULARITY = 3600;
+const AI_CANDLE_COUNT = 60;
+
+// Paper trading runs entirely offline against one simulated account
+const PAPER_ACCOUNT: TradingAccount = { name: "paper", address: "paper-trading" };
+
+/**
+ * The trading agent every entrypoint (chat, web API, backtests) drives. It
+ * ties the CDP account to market data, the execution engine, alerts,
+ * strategies and portfolio valuation, and re-emits their events.
+ */
+export class CoinbaseTradingAgent extends EventEmitter {
+  // Created on initialize for the live and swap venues only; paper trading and backtests never touch CDP
+  private cdp: CdpClient | null = null;
+  private account: any;
+  private accounts: AccountManager;
+  // On-chain networks the account's balances are read from; null for paper trading
+  private networks: NetworkConfig | null = null;
+  // Faucet requests and transfers for the active account; null for paper trading
+  private wallet: WalletBackend | null = null;
+  // Faucet deposits and transfers out of every account, taken out of the time-weighted return
+  private cashFlows: CashFlow[] = [];
+  private priceAlerts: PriceAlertBook = new PriceAlertBook();
+  private strategies: Map<string, TradingStrategy> = new Map();
+  private marketData: Map<string, MarketData> = new Map();
+  // Restored from the last run and not refreshed since, so never used to price or match orders
+  private staleMarketData: Set<string> = new Set();
+  private marketDataProvider: MarketDataProvider | null = null;
+  private subscriptions: Set<string> = new Set();
+  private execution: ExecutionEngine | null = null;
+  private products: ProductCatalog | null = null;
+  private monitoringInterval: NodeJS.Timeout | null = null;
+  private aiEnabled: boolean = false;
+  private llmClient: LlmClient | null = null;
+  private clock: () => number = Date.now;
+  private repository: TradingRepository | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  private portfolioSnapshots: PortfolioSnapshots = new PortfolioSnapshots();
+  private snapshotInterval: NodeJS.Timeout | null = null;
+  // What strategies see of the agent; their orders go through executeTrade like any other
+  private strategyContext: StrategyContext = {
+    now: () => this.clock(),
+    getCurrentPrice: (productId) => this.getCurrentPrice(productId),
+    getOrder: (orderId) => this.getOrder(orderId),
+    getAvailableBalance: (asset) => this.getAvailableBalance(asset),
+    executeTrade: (config) => this.executeTrade(config),
+    marketBuy: (productId, amount, strategyId) =>
+      this.executeTrade({ productId, orderType: "market", side: "buy", amount, strategyId }),
+    marketSell: (productId, amount, strategyId) =>
+      this.executeTrade({ productId, orderType: "market", side: "sell", amount, strategyId }),
+    marketBuyNotional: (productId, quoteAmount, strategyId) =>
+      this.executeTrade({ productId, orderType: "market", side: "buy", quoteAmount, strategyId }),
+    cancelOrder: (orderId) => this.cancelOrder(orderId),
+    previewRebalance: (targets, options) => this.previewRebalance(targets, options),
+    executeRebalancePlan: (plan, strategyId) => this.executeRebalancePlan(plan, strategyId)
+  };
+
+  async initialize(options: AgentOptions = {}) {
+    try {
+      this.clock = options.clock || Date.now;
+      const executionMode = options.executionMode || (process.env.EXECUTION_MODE as ExecutionMode) || "live";
+      const paper = options.executionVenue ? options.executionVenue.name === "paper" : executionMode === "paper";
+
+      if (options.repository) {
+        this.repository = options.repository;
+        await this.repository.migrate();
+      }
+      this.cdp = paper ? null : new CdpClient();
+      this.networks = paper ? null : options.networks || networkConfigFromEnv();
+      this.accounts = new AccountManager(this.cdp, this.repository);
+      this.account = paper
+        ? PAPER_ACCOUNT
+        : await this.accounts.getOrCreate(await this.accounts.resolveName(options.account));
+      this.wallet = paper ? null : options.wallet || new CdpWalletBackend(this.cdp, () => this.account);
+      // Swaps are signed by the account, so that venue can only be built once it is loaded
+      const venue: ExecutionVenue = options.executionVenue || (executionMode === "swap"
+        ? createSwapVenue(this.cdp, () => this.account, this.networks, async () =>
+          (await this.resolveMarketData(`${NETWORKS[this.networks.networks[0]].nativeAsset}-USD`))?.price ?? null)
+        : createExecutionVenue(executionMode, options.paperTrading));
+      this.aiEnabled = options.aiEnabled || false;
+      this.llmClient = this.aiEnabled ? options.llmClient || llmClientFromEnv() : null;
+      this.marketDataProvider = options.marketDataProvider || createMarketDataProvider();
+      this.products = options.productSource === null
+        ? null
+        : await loadProductCatalog(options.productSource || createProductSource());
+
+      this.execution = new ExecutionEngine(
+        venue,
+        (productId) => this.resolveMarketData(productId),
+        () => new Date(this.clock()),
+        new RiskEngine(options.riskLimits || riskLimitsFromEnv(), () => new Date(this.clock())),
+        this.products
+      );
+      this.execution.account = this.account.name;
+      // Surface every order state transition on the agent itself
+      for (const event of EXECUTION_EVENTS) {
+        this.execution.on(event, (payload) => this.emit(event, payload));
+      }
+
+      if (options.repository) {
+        this.portfolioSnapshots = new PortfolioSnapshots(options.repository);
+        await this.rememberAccount();
+        await this.restoreState();
+
+        // Trailing stops move, stops trigger and swaps wait on receipts without changing status, so save those too
+        for (const event of [...Object.values(ORDER_EVENTS), "orderTriggered", "orderTrailed", "orderPendingChanged"]) {
+          this.execution.on(event, (order: Order) => this.persist(async (repository) => {
+            await repository.saveOrder(order);
+            if (venue.exportState) {
+              await repository.saveState(`venue:${venue.name}`, venue.exportState());
+            }
+          }));
+        }
+      }
+      
+      console.log(`🤖 Trading agent initialized with account: ${this.account.name} (${this.account.address})`);
+      console.log(`📡 Market data provider: ${this.marketDataProvider.name}`);
+      console.log(`🏦 Execution venue: ${venue.name}`);
+      if (this.networks) {
+        console.log(`🌐 Networks: ${describeNetworks(this.networks)}`);
+      }
+      if (this.networks?.mainnet) {
+        console.log("⚠️  MAINNET: balances and transactions use real funds");
+      }
+      
+      if (this.aiEnabled) {
+        console.log(this.llmClient
+          ? `🧠 AI-powered decision making enabled (${this.llmClient.model})`
+          : "⚠️  AI enabled but no LLM configured (set LLM_API_KEY or LLM_BASE_URL); AI decisions will hold");
+      }
+      
+      if (options.startMonitoring !== false) {
+        this.startMonitoring(options.monitoringIntervalMs);
+      }
+      return this.account;
+    } catch (error) {
+      console.error("❌ Failed to initialize trading agent:", error);
+      throw error;
+    }
+  }
+
+  // ==================== PERSISTENCE ====================
+
+  private async restoreState() {
+    const [alerts, strategies, orders, marketData] = await Promise.all([
+      this.repository.loadAlerts(),
+      this.repository.loadStrategies(),
+      this.repository.loadOrders(),
+      this.repository.loadMarketData()
+    ]);
+
+    this.priceAlerts.restore(alerts as PriceAlert[]);
+    for (const strategy of strategies) {
+      this.strategies.set(strategy.id, strategy as TradingStrategy);
+    }
+    for (const data of marketData) {
+      this.marketData.set(data.productId, data);
+      this.staleMarketData.add(data.productId);
+    }
+    this.execution.restore(orders);
+
+    const venue = this.execution.venue;
+    if (venue.importState) {
+      const venueState = await this.repository.loadState(`venue:${venue.name}`);
+      if (venueState) venue.importState(venueState);
+    }
+
+    this.cashFlows = (await this.repository.loadState<CashFlow[]>("cashFlows")) || [];
+
+    // A kill switch engaged before a restart stays engaged
+    const riskLimits = await this.repository.loadState("riskLimits");
+    if (riskLimits) {
+      this.execution.risk.updateLimits(riskLimits);
+    }
+
+    console.log(`💾 Restored ${strategies.length} strategies, ${alerts.length} alerts and ${orders.length} orders`);
+  }
+
+  // Writes are queued so they land in order without blocking trading
+  private persist(task: (repository: TradingRepository) => Promise<void>) {
+    if (!this.repository) return;
+
+    const repository = this.repository;
+    this.persistQueue = this.persistQueue
+      .then(() => task(repository))
+      .catch((error) => console.error("❌ Failed to persist agent state:", error));
+  }
+
+  // ==================== ACCOUNTS ====================
+
+  getAccount(): TradingAccount {
+    if (!this.account) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    return { name: this.account.name, address: this.account.address };
+  }
+
+  async listAccounts(): Promise<Array<TradingAccount & { active: boolean }>> {
+    const accounts = this.isPaperAccount() ? [PAPER_ACCOUNT] : await this.accounts.list();
+    return accounts.map((account) => ({ ...account, active: account.name === this.account.name }));
+  }
+
+  /**
+   * Switches to another account, creating it when create is set. Orders
+   * placed from now on, new strategies and the reported history all belong
+   * to it; strategies bound to the previous account pause until it is back.
+   */
+  async useAccount(name: string, options: { create?: boolean } = {}): Promise<TradingAccount> {
+    this.requireCdpAccounts();
+
+    const account = options.create ? await this.accounts.getOrCreate(name) : await this.accounts.get(name);
+    if (!account) {
+      throw new Error(`No account named "${name}"`);
+    }
+    this.account = account;
+    this.execution.account = account.name;
+    await this.rememberAccount();
+
+    console.log(`👛 Switched to account ${account.name} (${account.address})`);
+    this.emit("accountChanged", this.getAccount());
+    return this.getAccount();
+  }
+
+  // Adds an existing wallet by its private key; call useAccount() to trade with it
+  async importAccount(name: string, privateKey: string): Promise<TradingAccount> {
+    this.requireCdpAccounts();
+
+    const account = await this.accounts.importPrivateKey(name, privateKey);
+    console.log(`📥 Imported account ${account.name} (${account.address})`);
+    return { name: account.name, address: account.address };
+  }
+
+  private isPaperAccount(): boolean {
+    return this.account === PAPER_ACCOUNT;
+  }
+
+  // The simulated account is never picked up by a later live start
+  private async rememberAccount() {
+    if (this.isPaperAccount()) return;
+    await this.accounts.remember(this.getAccount());
+  }
+
+  private requireCdpAccounts() {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    if (this.isPaperAccount()) {
+      throw new Error("Paper trading uses a single simulated account");
+    }
+  }
+
+  // ==================== MARKET DATA & MONITORING ====================
+
+  private startMonitoring(intervalMs: number = 5000) {
+    console.log("📊 Starting market monitoring...");
+    
+    this.monitoringInterval = setInterval(
+      () => this.runMonitoringCycle(),
+      intervalMs
+    ); // Check every 5 seconds by default
+
+    // Valuations feed the portfolio's 24h change
+    this.snapshotInterval = setInterval(() => {
+      this.analyzePortfolio().catch((error) => console.error("❌ Portfolio snapshot failed:", error));
+    }, 15 * 60 * 1000);
+  }
+
+  // One pass of the monitoring loop: refresh prices, match orders, alerts, strategies
+  async runMonitoringCycle() {
+    this.marketDataProvider?.advance?.();
+    await this.updateMarketData();
+    await this.execution.matchOpenOrders(this.freshMarketData());
+    this.checkPriceAlerts();
+    await this.executeActiveStrategies();
+  }
+
+  private async updateMarketData() {
+    if (!this.marketDataProvider) return;
+
+    const productIds = this.getTrackedProducts();
+    if (productIds.length === 0) return;
+
+    try {
+      const tickers = await this.marketDataProvider.fetchTickers(productIds);
+      for (const ticker of tickers) {
+        this.marketData.set(ticker.productId, ticker);
+        this.staleMarketData.delete(ticker.productId);
+        this.persist((repository) => repository.saveMarketData(ticker));
+      }
+
+      if (tickers.length > 0) {
+        this.emit("marketDataUpdated", tickers);
+      }
+    } catch (error) {
+      console.error("❌ Failed to update market data:", error);
+    }
+  }
+
+  // Products referenced by active alerts, enabled strategies, the account's open orders and explicit subscriptions
+  getTrackedProducts(): string[] {
+    const products = new Set([...this.subscriptions, ...this.priceAlerts.activeProducts()]);
+
+    for (const strategy of this.strategies.values()) {
+      if (!strategy.enabled || !belongsToAccount(strategy, this.account.name)) continue;
+      strategyProducts(strategy).forEach((productId) => products.add(productId));
+    }
+
+    for (const order of this.listOpenOrders()) {
+      products.add(order.productId);
+    }
+
+    return Array.from(products);
+  }
+
+  subscribe(productId: string) {
+    this.subscriptions.add(productId.toUpperCase());
+  }
+
+  unsubscribe(productId: string): boolean {
+    return this.subscriptions.delete(productId.toUpperCase());
+  }
+
+  async getMarketData(productId: string): Promise<MarketData | null> {
+    return this.marketData.get(productId) || null;
+  }
+
+  async getCurrentPrice(productId: string): Promise<number> {
+    const data = await this.resolveMarketData(productId);
+    if (!data) {
+      throw new Error(`No market data available for ${productId}`);
+    }
+    return data.price;
+  }
+
+  private async resolveMarketData(productId: string): Promise<MarketData | null> {
+    if (!this.marketData.has(productId) || this.staleMarketData.has(productId)) {
+      // First request for an untracked product, or a price left from the last run: fetch once
+      this.subscribe(productId);
+      await this.updateMarketData();
+    }
+    return this.freshMarketData().get(productId) || null;
+  }
+
+  // Latest prices, leaving out those restored from the last run until they are refreshed
+  private freshMarketData(): Map<string, MarketData> {
+    return new Map([...this.marketData].filter(([productId]) => !this.staleMarketData.has(productId)));
+  }
+
+  // ==================== PRICE ALERTS ====================
+
+  createPriceAlert(
+    productId: string,
+    targetPrice: number,
+    condition: AlertCondition,
+    callback?: (price: number) => void
+  ): string {
+    const alert = this.priceAlerts.create(productId, targetPrice, condition, callback);
+    this.persist((repository) => repository.saveAlert(alert));
+    console.log(`🔔 Price alert created: ${productId} ${condition} $${targetPrice}`);
+
+    return alert.id;
+  }
+
+  private checkPriceAlerts() {
+    const prices = this.freshMarketData();
+    const fired = this.priceAlerts.check((productId) => prices.get(productId)?.price);
+
+    for (const { alert, trigger } of fired) {
+      console.log(`🚨 ALERT TRIGGERED: ${alert.productId} is ${alert.condition} $${alert.targetPrice}`);
+      console.log(`   Current price: $${trigger.currentPrice.toFixed(2)}`);
+
+      this.emit("priceAlert", trigger);
+      if (alert.callback) {
+        alert.callback(trigger.currentPrice);
+      }
+      this.persist((repository) => repository.saveAlert(alert));
+    }
+  }
+
+  removePriceAlert(alertId: string): boolean {
+    const removed = this.priceAlerts.remove(alertId);
+    if (removed) {
+      this.persist((repository) => repository.deleteAlert(alertId));
+    }
+    return removed;
+  }
+
+  listPriceAlerts(): PriceAlert[] {
+    return this.priceAlerts.list();
+  }
+
+  // ==================== TRADING STRATEGIES ====================
+
+  createStrategy(strategy: StrategyDefinition): string {
+    const strategyId = `strategy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    
+    const created: TradingStrategy = {
+      id: strategyId,
+      account: this.account?.name,
+      ...strategy,
+      parameters: { ...initialStrategyState(strategy.type), ...strategy.parameters }
+    };
+    this.strategies.set(strategyId, created);
+    this.persist((repository) => repository.saveStrategy(created));
+
+    console.log(`📈 Strategy created: ${strategy.name} (${strategy.type})`);
+    return strategyId;
+  }
+
+  // Dollar Cost Averaging Strategy: a base amount ("0.001") or a fixed notional ({ quoteAmount: "50" }) each period
+  createDCAStrategy(
+    productId: string,
+    amountPerTrade: string | { quoteAmount: string },
+    intervalMinutes: number
+  ): string {
+    return this.createStrategy(dcaStrategy(productId, amountPerTrade, intervalMinutes));
+  }
+
+  // Grid Trading Strategy
+  createGridStrategy(
+    productId: string,
+    lowerPrice: number,
+    upperPrice: number,
+    gridLevels: number,
+    amountPerLevel: string,
+    spacing: GridSpacing = "arithmetic"
+  ): string {
+    return this.createStrategy(gridStrategy(productId, lowerPrice, upperPrice, gridLevels, amountPerLevel, spacing));
+  }
+
+  // Momentum Trading Strategy
+  createMomentumStrategy(
+    productId: string,
+    threshold: number,
+    tradeAmount: string
+  ): string {
+    return this.createStrategy(momentumStrategy(productId, threshold, tradeAmount));
+  }
+
+  // Mean Reversion Strategy
+  createMeanReversionStrategy(
+    productId: string,
+    lookbackPeriod: number,
+    stdDevThreshold: number,
+    tradeAmount: string
+  ): string {
+    return this.createStrategy(meanReversionStrategy(productId, lookbackPeriod, stdDevThreshold, tradeAmount));
+  }
+
+  // Rebalances towards target allocations (percent per asset) every interval, trading only assets outside the drift band
+  createRebalanceStrategy(
+    targets: Record<string, number>,
+    options: RebalanceOptions & { intervalMinutes?: number } = {}
+  ): string {
+    return this.createStrategy(rebalanceStrategy(targets, options));
+  }
+
+  private async executeActiveStrategies() {
+    for (const [id, strategy] of this.strategies) {
+      if (!strategy.enabled || !belongsToAccount(strategy, this.account.name)) continue;
+
+      try {
+        await executeStrategy(strategy, this.strategyContext);
+      } catch (error) {
+        console.error(`Error executing strategy ${id}:`, error);
+      }
+
+      // Strategies keep their running state (timestamps, price history, grid orders) in parameters
+      this.persist((repository) => repository.saveStrategy(strategy));
+    }
+  }
+
+  enableStrategy(strategyId: string): boolean {
+    const strategy = this.strategies.get(strategyId);
+    if (strategy) {
+      strategy.enabled = true;
+      this.persist((repository) => repository.saveStrategy(strategy));
+      console.log(`✅ Strategy enabled: ${strategy.name}`);
+      return true;
+    }
+    return false;
+  }
+
+  async disableStrategy(strategyId: string): Promise<boolean> {
+    const strategy = this.strategies.get(strategyId);
+    if (strategy) {
+      strategy.enabled = false;
+      if (strategy.type === "grid") {
+        await cancelGridOrders(strategy, this.strategyContext);
+      }
+      this.persist((repository) => repository.saveStrategy(strategy));
+      console.log(`⏸️  Strategy disabled: ${strategy.name}`);
+      return true;
+    }
+    return false;
+  }
+
+  // Merges new settings into a strategy's parameters, e.g. { intervalMinutes: 120 } for a DCA
+  updateStrategyParameters(strategyId: string, parameters: Record<string, any>): boolean {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy) return false;
+
+    strategy.parameters = { ...strategy.parameters, ...parameters };
+    this.persist((repository) => repository.saveStrategy(strategy));
+    console.log(`🛠️  Strategy updated: ${strategy.name}`);
+    return true;
+  }
+
+  listStrategies(): TradingStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  // ==================== AI-POWERED DECISIONS ====================
+
+  /**
+   * Sends the model a snapshot of recent candles, indicators, the portfolio
+   * and open orders and returns its schema-validated decision. Without a
+   * configured LLM, or when the answer is unusable, the decision is hold.
+   */
+  async analyzeMarketWithAI(productId: string, options: { maxSize?: number } = {}): Promise<TradeDecision> {
+    if (!this.aiEnabled) {
+      throw new Error("AI features not enabled. Initialize with { aiEnabled: true }");
+    }
+
+    const marketData = await this.resolveMarketData(productId);
+    if (!marketData) {
+      throw new Error(`No market data for ${productId}`);
+    }
+    if (!this.llmClient) {
+      return holdDecision("No LLM configured (set LLM_API_KEY or LLM_BASE_URL); holding");
+    }
+
+    let candles: Candle[] = [];
+    try {
+      candles = await this.marketDataProvider.fetchCandles?.(productId, AI_CANDLE_GRANULARITY, AI_CANDLE_COUNT) || [];
+    } catch (error) {
+      console.error(`❌ Failed to fetch candles for ${productId}:`, error.message);
+    }
+
+    let portfolio: PortfolioAnalysis | null = null;
+    try {
+      portfolio = await this.analyzePortfolio();
+    } catch (error) {
+      console.error("❌ Failed to value portfolio for AI analysis:", error.message);
+    }
+
+    const snapshot = buildMarketSnapshot({
+      productId,
+      marketData,
+      candles,
+      candleGranularitySeconds: AI_CANDLE_GRANULARITY,
+      portfolio,
+      orders: this.getOrderHistory(),
+      now: new Date(this.clock())
+    });
+    const decision = await requestTradeDecision(this.llmClient, snapshot, options);
+
+    console.log(
+      `🧠 AI Analysis for ${productId}: ${decision.action.toUpperCase()}` +
+      `${decision.size > 0 ? ` ${decision.size}` : ""} (${(decision.confidence * 100).toFixed(0)}% confidence, ${decision.source})`
+    );
+    console.log(`   ${decision.rationale}`);
+    return decision;
+  }
+
+  // Trades the model's decision, capped at maxAmount, when its confidence reaches minConfidence (0-1)
+  async executeAITrade(productId: string, maxAmount: string, minConfidence: number = 0.6): Promise<Order | null> {
+    const decision = await this.analyzeMarketWithAI(productId, { maxSize: parseFloat(maxAmount) });
+
+    if (decision.action === "hold" || decision.confidence < minConfidence) {
+      console.log(`🤖 AI decision: HOLD (${decision.action} at ${(decision.confidence * 100).toFixed(0)}% confidence)`);
+      return null;
+    }
+
+    const amount = (Math.floor(decision.size * 1e8) / 1e8).toString();
+    console.log(`🤖 AI executing ${decision.action.toUpperCase()} ${amount} based on ${(decision.confidence * 100).toFixed(0)}% confidence`);
+    return decision.action === "buy"
+      ? await this.marketBuy(productId, amount)
+      : await this.marketSell(productId, amount);
+  }
+
+  // ==================== PORTFOLIO MANAGEMENT ====================
+
+  async analyzePortfolio(): Promise<PortfolioAnalysis> {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    console.log("📊 Analyzing portfolio...");
+
+    const balances = await this.getTokenBalances();
+    const prices = await priceAssets(
+      balances.map((balance) => balance.asset),
+      async (productId) => (await this.resolveMarketData(productId))?.price ?? null
+    );
+    const now = new Date(this.clock());
+    const analysis = valuePortfolio(
+      balances,
+      prices,
+      costBasisFromOrders(this.getOrderHistory()),
+      await this.portfolioSnapshots.dayAgo(now, this.account.name),
+      now
+    );
+
+    await this.portfolioSnapshots.record({ ...snapshotOf(analysis), account: this.account.name });
+    return analysis;
+  }
+
+  // Ledger balances for paper trading, otherwise the account's token balances summed across networks
+  private async getTokenBalances(): Promise<TokenBalance[]> {
+    const venueBalances = this.execution.venue.getBalances?.();
+    if (venueBalances) {
+      return venueTokenBalances(venueBalances);
+    }
+    return totalBalances(await this.getNetworkBalances());
+  }
+
+  // The venue's available balance when it keeps a ledger, otherwise the account's holdings
+  private async getAvailableBalance(asset: string): Promise<number> {
+    const venueBalances = this.execution.venue.getBalances?.();
+    if (venueBalances) {
+      return venueBalances.find((balance) => balance.asset === asset)?.available ?? 0;
+    }
+    return totalBalances(await this.getNetworkBalances()).find((balance) => balance.asset === asset)?.amount ?? 0;
+  }
+
+  // Unpriced balances: the paper ledger, or per-asset totals with each network's breakdown
+  async getAccountBalance(): Promise<AccountBalance> {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+
+    const venueBalances = this.execution.venue.getBalances?.();
+    if (venueBalances) {
+      return {
+        address: this.account.address,
+        balances: venueBalances.map((b) => ({ symbol: b.asset, balance: b.total.toString(), available: b.available }))
+      };
+    }
+
+    const networks = await this.getNetworkBalances();
+    return {
+      address: this.account.address,
+      balances: totalBalances(networks).map((b) => ({ symbol: b.asset, balance: b.amount.toString(), available: b.amount })),
+      networks
+    };
+  }
+
+  getNetworkConfig(): NetworkConfig | null {
+    return this.networks;
+  }
+
+  // The account's token balances on each configured network; empty for paper trading
+  async getNetworkBalances(): Promise<NetworkBalances[]> {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    return this.networks ? fetchNetworkBalances(this.cdp, this.account.address, this.networks.networks) : [];
+  }
+
+  // Requests testnet tokens from the CDP faucet and waits until they have landed
+  async fundAccount(assets?: FundingAsset[]): Promise<FaucetFunding[]> {
+    this.requireWallet();
+    const funded = await requestTestnetFunds(this.wallet, this.networks.networks[0], assets);
+    for (const funding of funded) {
+      await this.recordCashFlow(funding.asset, funding.amount, funding.transactionHash);
+    }
+    this.emit("accountFunded", funded);
+    return funded;
+  }
+
+  // Transfers from the active account on its primary network once the receipt confirms
+  async sendTokens(amount: number, asset: FundingAsset, to: string): Promise<TokenTransfer> {
+    this.requireWallet();
+    const transfer = await transferTokens(this.wallet, this.networks.networks[0], this.account.address, to, asset, amount);
+    console.log(`✅ Sent ${transfer.amount} ${transfer.asset} to ${transfer.to} in block ${transfer.blockNumber}`);
+    await this.recordCashFlow(transfer.asset, -transfer.amount, transfer.transactionHash);
+    this.emit("tokensSent", transfer);
+    return transfer;
+  }
+
+  private async recordCashFlow(asset: FundingAsset, amount: number, transactionHash: string) {
+    const prices = await priceAssets([asset], async (productId) => (await this.resolveMarketData(productId))?.price ?? null);
+    const price = prices.get(asset);
+    if (price === null) {
+      console.log(`⚠️ No ${asset} price, so moving ${amount} ${asset} is left out of the time-weighted return`);
+    }
+
+    this.cashFlows.push({
+      account: this.account.name,
+      timestamp: new Date(this.clock()).toISOString(),
+      asset,
+      amount,
+      value: price !== null ? price * amount : null,
+      transactionHash
+    });
+    const cashFlows = [...this.cashFlows];
+    this.persist((repository) => repository.saveState("cashFlows", cashFlows));
+  }
+
+  private requireWallet() {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    if (!this.wallet) {
+      throw new Error("Paper trading has no on-chain wallet; set PAPER_STARTING_BALANCES to change its funds");
+    }
+  }
+
+  // Builds and prints the trade plan that would move the portfolio to the target allocations
+  async previewRebalance(
+    targetAllocations: Map<string, number>,
+    options: RebalanceOptions = {}
+  ): Promise<RebalancePlan> {
+    const portfolio = await this.analyzePortfolio();
+    const prices = await priceAssets(
+      Array.from(targetAllocations.keys()).map((asset) => asset.toUpperCase()),
+      async (productId) => (await this.resolveMarketData(productId))?.price ?? null
+    );
+
+    const plan = planRebalance(portfolio, targetAllocations, prices, options);
+    console.log(formatRebalancePlan(plan));
+    return plan;
+  }
+
+  // Sells run first; if any fails the buys are skipped so they can't overspend
+  async executeRebalancePlan(
+    plan: RebalancePlan,
+    strategyId?: string
+  ): Promise<RebalanceExecution> {
+    const executed: Order[] = [];
+    const failed: RebalanceExecution["failed"] = [];
+
+    for (const trade of plan.trades) {
+      if (trade.side === "buy" && failed.some((entry) => entry.side === "sell")) {
+        failed.push({ productId: trade.productId, side: trade.side, error: "Skipped because a sell failed" });
+        continue;
+      }
+
+      try {
+        executed.push(await this.executeTrade({
+          productId: trade.productId,
+          orderType: "market",
+          side: trade.side,
+          amount: trade.amount,
+          strategyId
+        }));
+      } catch (error) {
+        console.error(`❌ Rebalance ${trade.side} of ${trade.productId} failed: ${error.message}`);
+        failed.push({ productId: trade.productId, side: trade.side, error: error.message });
+      }
+    }
+
+    console.log(`⚖️  Rebalance complete: ${executed.length} trades executed, ${failed.length} failed`);
+    return { executed, failed };
+  }
+
+  // Dry run by default: pass execute, or a confirm callback that approves the previewed plan
+  async rebalancePortfolio(
+    targetAllocations: Map<string, number>,
+    options: RebalanceOptions & { execute?: boolean; confirm?: (plan: RebalancePlan) => Promise<boolean> } = {}
+  ): Promise<RebalanceExecution & { plan: RebalancePlan }> {
+    console.log("⚖️  Rebalancing portfolio...");
+
+    const { execute, confirm, ...rebalanceOptions } = options;
+    const plan = await this.previewRebalance(targetAllocations, rebalanceOptions);
+    const approved = plan.trades.length > 0 && (confirm ? await confirm(plan) : execute === true);
+
+    if (!approved) {
+      if (plan.trades.length > 0) {
+        console.log("   Dry run only, no trades placed");
+      }
+      return { plan, executed: [], failed: [] };
+    }
+    return { plan, ...(await this.executeRebalancePlan(plan)) };
+  }
+
+  // ==================== RISK MANAGEMENT ====================
+
+  getRiskStatus() {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    return this.execution.risk.getStatus();
+  }
+
+  updateRiskLimits(limits: Partial<RiskLimits>) {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    this.execution.risk.updateLimits(limits);
+    this.persistRiskLimits();
+    console.log("🛡️  Risk limits updated");
+  }
+
+  // Halts all trading and cancels every resting order
+  async engageKillSwitch(): Promise<number> {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    this.execution.risk.setKillSwitch(true);
+    this.persistRiskLimits();
+
+    const openOrders = this.listOpenOrders();
+    for (const order of openOrders) {
+      await this.execution.cancel(order.id, "Kill switch engaged");
+    }
+    console.log(`🛑 Kill switch engaged: trading halted, ${openOrders.length} open orders cancelled`);
+    return openOrders.length;
+  }
+
+  releaseKillSwitch() {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+    this.execution.risk.setKillSwitch(false);
+    this.persistRiskLimits();
+    console.log("✅ Kill switch released: trading resumed");
+  }
+
+  private persistRiskLimits() {
+    const limits = this.execution.risk.getLimits();
+    this.persist((repository) => repository.saveState("riskLimits", limits));
+  }
+
+  // ==================== CORE TRADING FUNCTIONS ====================
+
+  async executeTrade(config: TradeConfig): Promise<Order> {
+    if (!this.execution) {
+      throw new Error("Agent not initialized. Call initialize() first.");
+    }
+
+    const size = config.quoteAmount !== undefined ? `$${config.quoteAmount} of` : config.amount;
+    console.log(`🔄 Executing ${config.side.toUpperCase()} ${config.orderType} order: ${size} ${config.productId}`);
+
+    const order = await this.execution.submit(config);
+
+    if (order.status === "filled") {
+      console.log(`✅ Trade executed at $${order.executedPrice.toFixed(2)}`);
+    } else if (isConditionalOrder(order) && !order.triggeredAt) {
+      const trigger = order.stopPrice ? `$${parseFloat(order.stopPrice).toFixed(2)}` : "the first price update";
+      console.log(`🛡️  ${order.orderType} order ${order.id} armed, triggers at ${trigger}`);
+    } else if (order.status !== "cancelled") {
+      console.log(`📋 Limit order ${order.id} resting at $${parseFloat(order.limitPrice).toFixed(2)}`);
+    }
+    return order;
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    if (!this.execution) return false;
+
+    const cancelled = await this.execution.cancel(orderId);
+    if (cancelled) {
+      console.log(`🚫 Order cancelled: ${orderId}`);
+    }
+    return cancelled;
+  }
+
+  // The active account's open orders; those restored for other accounts stay out of view
+  listOpenOrders(productId?: string): Order[] {
+    if (!this.execution) return [];
+    return this.execution.listOpen(productId).filter((order) => belongsToAccount(order, this.account.name));
+  }
+
+  getOrder(orderId: string): Order | null {
+    return this.execution ? this.execution.get(orderId) : null;
+  }
+
+  // Products in the catalog, optionally filtered by part of the id (e.g. "btc"); empty without a catalog
+  listProducts(query?: string): Product[] {
+    const needle = query ? normalizeProductId(query) : "";
+    return (this.products ? this.products.list() : []).filter((product) => product.productId.includes(needle));
+  }
+
+  // Venue-held balances (paper ledger); null when the venue doesn't track them
+  getExecutionBalances(): AssetBalance[] | null {
+    return this.execution?.venue.getBalances ? this.execution.venue.getBalances() : null;
+  }
+
+  async marketBuy(productId: string, amount: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "market",
+      side: "buy",
+      amount
+    });
+  }
+
+  // lotIds picks which buy lots the sale disposes of under specific-ID accounting
+  async marketSell(productId: string, amount: string, lotIds?: string[]) {
+    return this.executeTrade({
+      productId,
+      orderType: "market",
+      side: "sell",
+      amount,
+      lotIds
+    });
+  }
+
+  // Sized by quote notional: quoteAmount (e.g. "100" USD) is converted to a base amount at the current price
+  async marketBuyNotional(productId: string, quoteAmount: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "market",
+      side: "buy",
+      quoteAmount
+    });
+  }
+
+  async marketSellNotional(productId: string, quoteAmount: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "market",
+      side: "sell",
+      quoteAmount
+    });
+  }
+
+  async limitBuy(productId: string, amount: string, limitPrice: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "limit",
+      side: "buy",
+      amount,
+      limitPrice
+    });
+  }
+
+  async limitSell(productId: string, amount: string, limitPrice: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "limit",
+      side: "sell",
+      amount,
+      limitPrice
+    });
+  }
+
+  // Stop-market, or stop-limit when a limit price is given
+  async stopOrder(productId: string, side: "buy" | "sell", amount: string, stopPrice: string, limitPrice?: string) {
+    return this.executeTrade({
+      productId,
+      orderType: limitPrice ? "stop_limit" : "stop_market",
+      side,
+      amount,
+      stopPrice,
+      limitPrice
+    });
+  }
+
+  async takeProfitOrder(productId: string, side: "buy" | "sell", amount: string, triggerPrice: string) {
+    return this.executeTrade({
+      productId,
+      orderType: "take_profit",
+      side,
+      amount,
+      stopPrice: triggerPrice
+    });
+  }
+
+  async trailingStopOrder(
+    productId: string,
+    side: "buy" | "sell",
+    amount: string,
+    trail: { percent?: string; amount?: string }
+  ) {
+    return this.executeTrade({
+      productId,
+      orderType: "trailing_stop",
+      side,
+      amount,
+      trailingPercent: trail.percent,
+      trailingAmount: trail.amount
+    });
+  }
+
+  // Places orders as one-cancels-other: the first to trigger or fill cancels the rest
+  async placeOcoOrders(configs: TradeConfig[]): Promise<Order[]> {
+    const ocoGroupId = `oco_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const orders: Order[] = [];
+
+    try {
+      for (const config of configs) {
+        orders.push(await this.executeTrade({ ...config, ocoGroupId }));
+      }
+    } catch (error) {
+      for (const order of orders) {
+        await this.cancelOrder(order.id);
+      }
+      throw error;
+    }
+    return orders;
+  }
+
+  // Entry order with stop-loss / take-profit / trailing exits that arm once it fills
+  async placeBracketOrder(
+    entry: TradeConfig,
+    exits: { stopLoss?: string; takeProfit?: string; trailingPercent?: string }
+  ): Promise<{ entry: Order; exits: Order[] }> {
+    const entryOrder = await this.executeTrade(entry);
+    const exitSide = entry.side === "buy" ? "sell" : "buy";
+    const leg = { productId: entry.productId, side: exitSide, amount: entry.amount, parentOrderId: entryOrder.id } as const;
+
+    const legs: TradeConfig[] = [];
+    if (exits.stopLoss) legs.push({ ...leg, orderType: "stop_market", stopPrice: exits.stopLoss });
+    if (exits.takeProfit) legs.push({ ...leg, orderType: "take_profit", stopPrice: exits.takeProfit });
+    if (exits.trailingPercent) legs.push({ ...leg, orderType: "trailing_stop", trailingPercent: exits.trailingPercent });
+
+    try {
+      return { entry: entryOrder, exits: await this.placeOcoOrders(legs) };
+    } catch (error) {
+      await this.cancelOrder(entryOrder.id);
+      throw error;
+    }
+  }
+
+  // ==================== REPORTING & ANALYTICS ====================
+
+  // Orders placed for the account in use
+  getOrderHistory(): Order[] {
+    return this.execution
+      ? this.execution.list().filter((order) => belongsToAccount(order, this.account.name))
+      : [];
+  }
+
+  /**
+   * Realized P&L from matching sells against buy lots, unrealized P&L on the
+   * lots still open at current prices, and the time-weighted return from
+   * recorded portfolio snapshots net of faucet deposits and transfers out.
+   */
+  async generatePerformanceReport(
+    options: Omit<PerformanceReportOptions, "prices" | "equityCurve" | "cashFlows"> = {}
+  ): Promise<PerformanceReport> {
+    console.log("📈 Generating performance report...");
+
+    const orders = this.getOrderHistory();
+    const openProducts = new Set(matchLots(orders, options.method).openLots.map((lot) => lot.productId));
+    const prices = new Map<string, number>();
+    for (const productId of openProducts) {
+      const price = (await this.resolveMarketData(productId))?.price;
+      if (price) prices.set(productId, price);
+    }
+
+    const snapshots = await this.portfolioSnapshots.list(
+      options.from || new Date(0),
+      options.to || new Date(this.clock()),
+      this.account.name
+    );
+
+    return buildPerformanceReport(orders, {
+      ...options,
+      prices,
+      equityCurve: snapshots.map((snapshot) => ({ timestamp: snapshot.timestamp, value: snapshot.totalValue })),
+      cashFlows: this.cashFlows
+        .filter((flow) => flow.value !== null && flow.account === this.account.name)
+        .map((flow) => ({ timestamp: new Date(flow.timestamp), value: flow.value }))
+    });
+  }
+
+  // Buy lots still held, with the ids specific-ID sells can name in lotIds
+  getOpenLots(productId?: string, method: LotMethod = "fifo"): Lot[] {
+    return matchLots(this.getOrderHistory(), method).openLots.filter((lot) => !productId || lot.productId === productId);
+  }
+
+  // Capital gains disposal report plus a raw transaction CSV for tax software
+  async exportTaxReport(directory: string, options: TaxExportOptions = {}) {
+    const result = await writeTaxExport(directory, this.getOrderHistory(), options);
+    console.log(`🧾 Exported ${result.disposals.length} disposals to ${result.disposalsFile} and transactions to ${result.transactionsFile}`);
+    return result;
+  }
+
+  // ==================== CLEANUP ====================
+
+  async close() {
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+    }
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+    }
+    if (this.marketDataProvider?.close) {
+      await this.marketDataProvider.close();
+    }
+    if (this.repository) {
+      await this.persistQueue;
+      await this.repository.close();
+    }
+    console.log("🛑 Trading agent closed");
+  }
+}
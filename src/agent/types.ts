@@ -0,0 +1,43 @@
+import { LlmClient } from "../ai";
+import { TradingRepository } from "../database/trading-repository";
+import { ExecutionMode, ExecutionVenue, PaperExchangeOptions } from "../execution";
+import { WalletBackend } from "../funding";
+import { MarketDataProvider } from "../market-data";
+import { NetworkBalances } from "../portfolio";
+import { NetworkConfig } from "../networks";
+import { ProductSource } from "../products";
+import { RiskLimits } from "../risk";
+
+export interface AgentOptions {
+  aiEnabled?: boolean;
+  // Model used for AI decisions (defaults to the LLM_* / OPENAI_API_KEY environment variables)
+  llmClient?: LlmClient;
+  marketDataProvider?: MarketDataProvider;
+  monitoringIntervalMs?: number;
+  executionMode?: ExecutionMode;
+  paperTrading?: PaperExchangeOptions;
+  executionVenue?: ExecutionVenue;
+  // Set to false to drive runMonitoringCycle() yourself (e.g. in backtests)
+  startMonitoring?: boolean;
+  clock?: () => number;
+  // Persists alerts, strategies, orders and market data, and restores them on start
+  repository?: TradingRepository;
+  // Pre-trade limits applied to every order (defaults to the RISK_* environment variables)
+  riskLimits?: RiskLimits;
+  // Products and their trading rules (defaults to PRODUCT_CATALOG_FILE or the exchange); null skips product checks
+  productSource?: ProductSource | null;
+  // CDP account to use, created on first use (defaults to CDP_ACCOUNT_NAME, then the last account used)
+  account?: string;
+  // Networks to read balances from (defaults to CDP_AGENT_KIT_NETWORK, with ALLOW_MAINNET for mainnets)
+  networks?: NetworkConfig;
+  // Faucet and transfer calls (defaults to CDP); pass a fake to run offline
+  wallet?: WalletBackend;
+}
+
+// The account's balances as the chat's /balance shows them
+export interface AccountBalance {
+  address: string;
+  balances: Array<{ symbol: string; balance: string; available: number }>;
+  // Per-network breakdown; absent for paper trading
+  networks?: NetworkBalances[];
+}
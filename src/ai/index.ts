@@ -0,0 +1,30 @@
+export {
+  describeIntent,
+  INTENT_SCHEMA,
+  INTENT_TOOL,
+  intentRequiresConfirmation,
+  ParsedIntent,
+  parseIntent,
+  parseIntentWithLlm,
+  parseIntentWithRules,
+  TradeIntent
+} from "./intents";
+export { JsonSchema, validateJsonSchema } from "./json-schema";
+export {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LlmClient,
+  llmClientFromEnv,
+  OpenAICompatibleClient,
+  OpenAICompatibleOptions,
+  ToolDefinition
+} from "./llm-client";
+export { buildMarketSnapshot, computeIndicators, MarketIndicators, MarketSnapshot } from "./market-snapshot";
+export {
+  holdDecision,
+  requestTradeDecision,
+  TRADE_DECISION_SCHEMA,
+  TRADE_DECISION_TOOL,
+  TradeDecision
+} from "./trade-decision";
@@ -0,0 +1,292 @@
+import { JsonSchema, validateJsonSchema } from "./json-schema";
+import { LlmClient, ToolDefinition } from "./llm-client";
+
+export type TradeIntent =
+  // Exactly one of amount (base asset) and quoteAmount (e.g. dollars) is set
+  | { type: "trade"; side: "buy" | "sell"; productId: string; amount?: string; quoteAmount?: string }
+  | { type: "alert"; productId: string; condition: "above" | "below"; targetPrice: number }
+  | { type: "strategy"; strategy: "dca"; productId: string; amount?: string; quoteAmount?: string; intervalMinutes: number }
+  | { type: "history"; productId?: string; limit: number }
+  | { type: "balance" }
+  | { type: "portfolio" }
+  | { type: "help" }
+  | { type: "unknown"; reason: string };
+
+export interface ParsedIntent {
+  intent: TradeIntent;
+  source: "llm" | "rules";
+}
+
+// Flat fields the model fills in; the rule-based parser produces the same shape
+interface IntentFields {
+  intent: "trade" | "alert" | "strategy" | "history" | "balance" | "portfolio" | "help" | "unknown";
+  side?: "buy" | "sell";
+  asset?: string;
+  amount?: number;
+  quoteAmount?: number;
+  condition?: "above" | "below";
+  targetPrice?: number;
+  intervalMinutes?: number;
+  limit?: number;
+  reason?: string;
+}
+
+export const INTENT_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["intent"],
+  properties: {
+    intent: { type: "string", enum: ["trade", "alert", "strategy", "history", "balance", "portfolio", "help", "unknown"] },
+    side: { type: "string", enum: ["buy", "sell"] },
+    asset: { type: "string", minLength: 2, description: "Ticker such as BTC, or a product such as ETH-USD" },
+    amount: { type: "number", minimum: 0, description: "Amount of the asset itself, e.g. 0.5 for 0.5 BTC" },
+    quoteAmount: { type: "number", minimum: 0, description: "Amount in dollars, e.g. 100 for $100 worth" },
+    condition: { type: "string", enum: ["above", "below"] },
+    targetPrice: { type: "number", minimum: 0 },
+    intervalMinutes: { type: "integer", minimum: 1, description: "How often a DCA strategy buys" },
+    limit: { type: "integer", minimum: 1, description: "How many past trades to show" },
+    reason: { type: "string", description: "Why the request could not be understood" }
+  }
+};
+
+export const INTENT_TOOL: ToolDefinition = {
+  name: "submit_intent",
+  description: "Submit the structured intent of the user's trading request",
+  parameters: INTENT_SCHEMA
+};
+
+const SYSTEM_PROMPT = [
+  "You turn a crypto trading chat message into a structured intent by calling submit_intent.",
+  "trade: buy or sell now; use amount for asset units (\"0.5 BTC\") and quoteAmount for dollars (\"$100 of BTC\"), never both.",
+  "alert: notify when the price goes above or below targetPrice.",
+  "strategy: recurring dollar-cost-averaging buys every intervalMinutes.",
+  "history: show past trades. balance, portfolio and help are questions.",
+  "Use unknown with a reason when the message is ambiguous or missing an amount, asset or price. Never guess numbers."
+].join(" ");
+
+const ASSET_ALIASES: Record<string, string> = {
+  bitcoin: "BTC", btc: "BTC", xbt: "BTC",
+  ethereum: "ETH", ether: "ETH", eth: "ETH",
+  solana: "SOL", sol: "SOL",
+  dogecoin: "DOGE", doge: "DOGE",
+  litecoin: "LTC", ltc: "LTC",
+  cardano: "ADA", ada: "ADA",
+  avalanche: "AVAX", avax: "AVAX",
+  chainlink: "LINK", link: "LINK",
+  polygon: "MATIC", matic: "MATIC",
+  ripple: "XRP", xrp: "XRP"
+};
+
+const NUMBER = "(\\d[\\d,]*(?:\\.\\d+)?|\\.\\d+)";
+const DEFAULT_HISTORY_LIMIT = 10;
+
+const toNumber = (text: string) => parseFloat(text.replace(/,/g, ""));
+
+function productIdFor(asset: string): string {
+  const upper = asset.toUpperCase();
+  return upper.includes("-") ? upper : `${ASSET_ALIASES[asset.toLowerCase()] || upper}-USD`;
+}
+
+function findAsset(text: string): string | undefined {
+  const product = text.match(/\b([a-z]{2,10}-[a-z]{3,4})\b/);
+  if (product) return product[1].toUpperCase();
+  return text.split(/[^a-z]+/).find((word) => ASSET_ALIASES[word] !== undefined);
+}
+
+function findQuoteAmount(text: string): number | undefined {
+  const match = text.match(new RegExp(`\\$\\s?${NUMBER}`)) ||
+    text.match(new RegExp(`${NUMBER}\\s*(?:dollars?|usd|bucks)\\b`));
+  return match ? toNumber(match[1]) : undefined;
+}
+
+function findBaseAmount(text: string): number | undefined {
+  const assets = Object.keys(ASSET_ALIASES).join("|");
+  // Not preceded by "$" (a dollar amount) or by part of a longer number
+  const match = text.match(new RegExp(`(?<![\\d.,$]|\\$\\s)${NUMBER}\\s*(?:${assets})\\b`));
+  return match ? toNumber(match[1]) : undefined;
+}
+
+function findInterval(text: string): number | undefined {
+  const units: Record<string, number> = { minute: 1, min: 1, hour: 60, day: 1440, week: 10080 };
+  const adverbs: Record<string, number> = { hourly: 60, daily: 1440, weekly: 10080 };
+
+  const every = text.match(/\bevery\s+(\d+\s*)?(minute|min|hour|day|week)s?\b/);
+  if (every) return (every[1] ? parseInt(every[1], 10) : 1) * units[every[2]];
+  const adverb = text.match(/\b(hourly|daily|weekly)\b/);
+  return adverb ? adverbs[adverb[1]] : undefined;
+}
+
+/**
+ * Deterministic fallback parser for the common phrasings, e.g. "buy $100 of
+ * bitcoin", "sell 0.5 eth", "alert me when btc drops below 60000" or "dca
+ * 0.001 btc every day".
+ */
+export function parseIntentWithRules(input: string): TradeIntent {
+  const text = input.toLowerCase().trim();
+  const asset = findAsset(text);
+
+  if (/\b(alert|notify|tell me|let me know|ping me|warn me)\b/.test(text)) {
+    const direction = text.match(/\b(above|over|exceeds?|rises?|climbs?|below|under|drops?|falls?|dips?)\b/);
+    const price = text.match(new RegExp(`(?:above|over|exceeds?|rises?|climbs?|below|under|drops?|falls?|dips?)\\s+(?:to\\s+)?\\$?\\s?${NUMBER}`));
+    return intentFromFields({
+      intent: "alert",
+      asset,
+      condition: direction ? (/^(above|over|exceed|rise|climb)/.test(direction[1]) ? "above" : "below") : undefined,
+      targetPrice: price ? toNumber(price[1]) : undefined
+    });
+  }
+
+  const interval = findInterval(text);
+  if (/\b(dca|dollar[- ]cost)/.test(text) || (interval && /\bbuy\b/.test(text))) {
+    return intentFromFields({
+      intent: "strategy",
+      asset,
+      amount: findBaseAmount(text),
+      quoteAmount: findBaseAmount(text) === undefined ? findQuoteAmount(text) : undefined,
+      intervalMinutes: interval
+    });
+  }
+
+  const side = text.match(/\b(buy|purchase|acquire|sell|dump)\b/);
+  if (side) {
+    const amount = findBaseAmount(text);
+    return intentFromFields({
+      intent: "trade",
+      side: ["sell", "dump"].includes(side[1]) ? "sell" : "buy",
+      asset,
+      amount,
+      quoteAmount: amount === undefined ? findQuoteAmount(text) : undefined
+    });
+  }
+
+  if (/\b(history|trades|trade log|orders|fills)\b/.test(text)) {
+    const limit = text.match(/\b(?:last|recent)\s+(\d+)\b/);
+    return intentFromFields({ intent: "history", asset, limit: limit ? parseInt(limit[1], 10) : undefined });
+  }
+  if (/\b(portfolio|holdings|positions|allocation)\b/.test(text)) return { type: "portfolio" };
+  if (/\b(balance|balances|account|how much (cash|money))\b/.test(text)) return { type: "balance" };
+  if (/\b(help|commands)\b|what can you do/.test(text)) return { type: "help" };
+
+  return { type: "unknown", reason: "I couldn't tell what you want to do" };
+}
+
+// Checks the fields an intent needs and turns them into a typed intent
+function intentFromFields(fields: IntentFields): TradeIntent {
+  const productId = fields.asset ? productIdFor(fields.asset) : undefined;
+  const sizing = fields.amount > 0
+    ? { amount: fields.amount.toString() }
+    : fields.quoteAmount > 0 ? { quoteAmount: fields.quoteAmount.toString() } : null;
+
+  switch (fields.intent) {
+    case "trade":
+      if (!fields.side) return { type: "unknown", reason: "Should I buy or sell?" };
+      if (!productId) return { type: "unknown", reason: `Which asset should I ${fields.side}?` };
+      if (!sizing) return { type: "unknown", reason: `How much ${productId.split("-")[0]} should I ${fields.side}?` };
+      if (fields.amount > 0 && fields.quoteAmount > 0) {
+        return { type: "unknown", reason: "Give either an asset amount or a dollar amount, not both" };
+      }
+      return { type: "trade", side: fields.side, productId, ...sizing };
+
+    case "alert":
+      if (!productId) return { type: "unknown", reason: "Which asset should I watch?" };
+      if (!fields.condition) return { type: "unknown", reason: "Should I alert when the price goes above or below, and at what price?" };
+      if (!(fields.targetPrice > 0)) return { type: "unknown", reason: "At what price should I alert you?" };
+      return { type: "alert", productId, condition: fields.condition, targetPrice: fields.targetPrice };
+
+    case "strategy":
+      if (!productId) return { type: "unknown", reason: "Which asset should the DCA strategy buy?" };
+      if (!sizing) return { type: "unknown", reason: "How much should each DCA buy be?" };
+      if (!(fields.intervalMinutes >= 1)) return { type: "unknown", reason: "How often should it buy (e.g. every day)?" };
+      return { type: "strategy", strategy: "dca", productId, ...sizing, intervalMinutes: Math.round(fields.intervalMinutes) };
+
+    case "history":
+      return { type: "history", productId, limit: fields.limit || DEFAULT_HISTORY_LIMIT };
+
+    case "balance":
+    case "portfolio":
+    case "help":
+      return { type: fields.intent };
+
+    default:
+      return { type: "unknown", reason: fields.reason || "I couldn't tell what you want to do" };
+  }
+}
+
+// Null when the model fails or answers out of schema, so the caller can fall back to the rules
+export async function parseIntentWithLlm(client: LlmClient, input: string): Promise<TradeIntent | null> {
+  try {
+    const result = await client.complete({
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: input }
+      ],
+      tool: INTENT_TOOL
+    });
+    const raw = result.toolArguments ?? result.content;
+    if (!raw) {
+      console.error("❌ LLM returned no intent");
+      return null;
+    }
+
+    const fields = JSON.parse(raw);
+    const errors = validateJsonSchema(fields, INTENT_SCHEMA);
+    if (errors.length > 0) {
+      console.error(`❌ LLM intent failed validation: ${errors.join("; ")}`);
+      return null;
+    }
+    return intentFromFields(fields);
+  } catch (error) {
+    console.error("❌ LLM intent parsing failed:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Uses the model when one is configured and falls back to the rule-based
+ * parser when it fails or can't make sense of the message.
+ */
+export async function parseIntent(input: string, client: LlmClient | null = null): Promise<ParsedIntent> {
+  if (client) {
+    const intent = await parseIntentWithLlm(client, input);
+    if (intent && intent.type !== "unknown") {
+      return { intent, source: "llm" };
+    }
+    const fallback = parseIntentWithRules(input);
+    if (fallback.type !== "unknown" || !intent) {
+      return { intent: fallback, source: "rules" };
+    }
+    return { intent, source: "llm" };
+  }
+  return { intent: parseIntentWithRules(input), source: "rules" };
+}
+
+// Whether acting on the intent changes anything, and so needs the user's confirmation
+export function intentRequiresConfirmation(intent: TradeIntent): boolean {
+  return intent.type === "trade" || intent.type === "alert" || intent.type === "strategy";
+}
+
+export function describeIntent(intent: TradeIntent): string {
+  const size = (entry: { productId: string; amount?: string; quoteAmount?: string }) =>
+    entry.quoteAmount !== undefined
+      ? `$${parseFloat(entry.quoteAmount).toFixed(2)} of ${entry.productId}`
+      : `${entry.amount} ${entry.productId}`;
+
+  switch (intent.type) {
+    case "trade":
+      return `${intent.side.toUpperCase()} ${size(intent)} at market`;
+    case "alert":
+      return `Alert when ${intent.productId} goes ${intent.condition} $${intent.targetPrice}`;
+    case "strategy":
+      return `DCA strategy: buy ${size(intent)} every ${intent.intervalMinutes} minutes`;
+    case "history":
+      return `Show the last ${intent.limit} trades${intent.productId ? ` for ${intent.productId}` : ""}`;
+    case "balance":
+      return "Show account balance";
+    case "portfolio":
+      return "Show portfolio";
+    case "help":
+      return "Show help";
+    default:
+      return intent.reason;
+  }
+}
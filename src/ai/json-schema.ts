@@ -0,0 +1,79 @@
+// The subset of JSON Schema used for tool parameters
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Checks a parsed JSON value against the schema and returns every violation
+ * as a readable path and message; an empty list means the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const actual = typeOf(value);
+    const matches = schema.type === "integer"
+      ? actual === "number" && Number.isInteger(value)
+      : schema.type === "number"
+        ? actual === "number" && Number.isFinite(value as number)
+        : actual === schema.type;
+    if (!matches) {
+      return [`${path} should be ${schema.type}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} should be one of ${schema.enum.map((entry) => JSON.stringify(entry)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} should be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} should be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} should be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} should be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, entry] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJsonSchema(entry, property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
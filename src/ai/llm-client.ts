@@ -0,0 +1,111 @@
+import { requestJson } from "../http";
+import { JsonSchema } from "./json-schema";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// A function the model is asked to call, described by a JSON schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  // When set, the model is required to answer by calling this tool
+  tool?: ToolDefinition;
+  temperature?: number;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  // Raw JSON arguments of the forced tool call, if the model made one
+  toolArguments: string | null;
+  model: string;
+}
+
+export interface LlmClient {
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export interface OpenAICompatibleOptions {
+  // Any server speaking the OpenAI chat completions API: OpenAI, OpenRouter, Ollama, a local stub...
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+}
+
+export class OpenAICompatibleClient implements LlmClient {
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(private options: OpenAICompatibleOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.model = options.model || DEFAULT_MODEL;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0
+    };
+    if (request.tool) {
+      body.tools = [{ type: "function", function: request.tool }];
+      body.tool_choice = { type: "function", function: { name: request.tool.name } };
+    }
+
+    const response = await requestJson<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+      body,
+      timeoutMs: this.options.timeoutMs ?? 30000
+    });
+
+    const message = response?.choices?.[0]?.message;
+    if (!message) {
+      throw new Error("LLM response contained no message");
+    }
+    const call = message.tool_calls?.find((entry) => !request.tool || entry.function?.name === request.tool.name);
+
+    return {
+      content: message.content ?? null,
+      toolArguments: call?.function?.arguments ?? null,
+      model: response.model || this.model
+    };
+  }
+}
+
+// LLM_BASE_URL, LLM_API_KEY (or OPENAI_API_KEY) and LLM_MODEL; null when neither a key nor a URL is set
+export function llmClientFromEnv(): LlmClient | null {
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+  const baseUrl = process.env.LLM_BASE_URL;
+  if (!apiKey && !baseUrl) {
+    return null;
+  }
+
+  return new OpenAICompatibleClient({
+    baseUrl,
+    apiKey,
+    model: process.env.LLM_MODEL,
+    timeoutMs: process.env.LLM_TIMEOUT_MS ? parseInt(process.env.LLM_TIMEOUT_MS, 10) : undefined
+  });
+}
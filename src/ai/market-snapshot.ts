@@ -0,0 +1,161 @@
+import { Candle, MarketData } from "../market-data";
+import { isOrderActive, Order } from "../orders";
+import { PortfolioAnalysis } from "../portfolio";
+
+export interface MarketIndicators {
+  sma20: number | null;
+  sma50: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  // Standard deviation of candle-to-candle returns, in percent
+  volatility: number | null;
+  // Change from the first candle's open to the last close, in percent
+  periodReturn: number | null;
+}
+
+// Everything the model sees when asked for a decision; plain JSON so it can be sent as is
+export interface MarketSnapshot {
+  productId: string;
+  timestamp: string;
+  ticker: { price: number; volume24h: number; priceChange24h: number };
+  candleGranularitySeconds: number;
+  candles: Array<{ time: string; open: number; high: number; low: number; close: number; volume: number }>;
+  indicators: MarketIndicators;
+  position: { asset: string; amount: number; value: number; costBasis: number | null; unrealizedPnl: number | null };
+  portfolio: {
+    totalValue: number;
+    holdings: Array<{ asset: string; amount: number; value: number; allocation: number }>;
+  } | null;
+  openOrders: Array<{
+    id: string;
+    side: "buy" | "sell";
+    orderType: string;
+    amount: string;
+    limitPrice?: string;
+    stopPrice?: string;
+    status: string;
+  }>;
+}
+
+const round = (value: number | null, digits = 4) =>
+  value === null || !Number.isFinite(value) ? null : parseFloat(value.toFixed(digits));
+
+function sma(values: number[], period: number): number | null {
+  if (values.length < period) return null;
+  return values.slice(-period).reduce((sum, value) => sum + value, 0) / period;
+}
+
+function ema(values: number[], period: number): number | null {
+  if (values.length < period) return null;
+  const k = 2 / (period + 1);
+  let average = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  for (const value of values.slice(period)) {
+    average = value * k + average * (1 - k);
+  }
+  return average;
+}
+
+// Wilder's relative strength index
+function rsi(values: number[], period: number): number | null {
+  if (values.length <= period) return null;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+}
+
+export function computeIndicators(candles: Candle[]): MarketIndicators {
+  const closes = candles.map((candle) => candle.close);
+  const returns = closes.slice(1).map((close, i) => ((close - closes[i]) / closes[i]) * 100);
+  const meanReturn = returns.reduce((sum, value) => sum + value, 0) / (returns.length || 1);
+  const variance = returns.reduce((sum, value) => sum + (value - meanReturn) ** 2, 0) / (returns.length || 1);
+
+  return {
+    sma20: round(sma(closes, 20)),
+    sma50: round(sma(closes, 50)),
+    ema12: round(ema(closes, 12)),
+    ema26: round(ema(closes, 26)),
+    rsi14: round(rsi(closes, 14), 2),
+    volatility: returns.length > 1 ? round(Math.sqrt(variance)) : null,
+    periodReturn: candles.length > 0
+      ? round(((closes[closes.length - 1] - candles[0].open) / candles[0].open) * 100)
+      : null
+  };
+}
+
+export function buildMarketSnapshot(input: {
+  productId: string;
+  marketData: MarketData;
+  candles: Candle[];
+  candleGranularitySeconds: number;
+  portfolio: PortfolioAnalysis | null;
+  orders: Order[];
+  now: Date;
+}): MarketSnapshot {
+  const { productId, marketData, candles, portfolio } = input;
+  const asset = productId.split("-")[0];
+  const holding = portfolio?.holdings.find((entry) => entry.asset === asset);
+
+  return {
+    productId,
+    timestamp: input.now.toISOString(),
+    ticker: {
+      price: marketData.price,
+      volume24h: marketData.volume24h,
+      priceChange24h: round(marketData.priceChange24h, 2)
+    },
+    candleGranularitySeconds: input.candleGranularitySeconds,
+    candles: candles.map((candle) => ({
+      time: candle.timestamp.toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: round(candle.volume)
+    })),
+    indicators: computeIndicators(candles),
+    position: {
+      asset,
+      amount: holding?.amount ?? 0,
+      value: round(holding?.value ?? 0, 2),
+      costBasis: round(holding?.costBasis ?? null, 2),
+      unrealizedPnl: round(holding?.unrealizedPnl ?? null, 2)
+    },
+    portfolio: portfolio
+      ? {
+          totalValue: round(portfolio.totalValue, 2),
+          holdings: portfolio.holdings.map((entry) => ({
+            asset: entry.asset,
+            amount: entry.amount,
+            value: round(entry.value, 2),
+            allocation: round(entry.allocation, 2)
+          }))
+        }
+      : null,
+    openOrders: input.orders
+      .filter((order) => order.productId === productId && isOrderActive(order))
+      .map((order) => ({
+        id: order.id,
+        side: order.side,
+        orderType: order.orderType,
+        amount: order.amount,
+        limitPrice: order.limitPrice,
+        stopPrice: order.stopPrice,
+        status: order.status
+      }))
+  };
+}
@@ -0,0 +1,124 @@
+import { JsonSchema, validateJsonSchema } from "./json-schema";
+import { LlmClient, ToolDefinition } from "./llm-client";
+import { MarketSnapshot } from "./market-snapshot";
+
+export interface TradeDecision {
+  action: "buy" | "sell" | "hold";
+  // Base-asset amount to trade; 0 for hold
+  size: number;
+  // 0 to 1
+  confidence: number;
+  rationale: string;
+  // "fallback" means the model failed or answered out of schema and the agent holds
+  source: "llm" | "fallback";
+  model?: string;
+  errors?: string[];
+}
+
+export const TRADE_DECISION_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["action", "size", "confidence", "rationale"],
+  properties: {
+    action: { type: "string", enum: ["buy", "sell", "hold"] },
+    size: { type: "number", minimum: 0, description: "Amount of the base asset to trade; 0 when holding" },
+    confidence: { type: "number", minimum: 0, maximum: 1, description: "Probability the trade is right, 0 to 1" },
+    rationale: { type: "string", minLength: 1, maxLength: 1000, description: "Short reasoning citing the data" }
+  }
+};
+
+export const TRADE_DECISION_TOOL: ToolDefinition = {
+  name: "submit_trade_decision",
+  description: "Submit the trading decision for the product in the market snapshot",
+  parameters: TRADE_DECISION_SCHEMA
+};
+
+const SYSTEM_PROMPT = [
+  "You are a cautious crypto trading analyst.",
+  "You receive a JSON market snapshot: ticker, recent candles, indicators, the current position, the portfolio and open orders.",
+  "Decide whether to buy, sell or hold the product and answer only by calling submit_trade_decision.",
+  "Size is in units of the base asset and must not exceed maxSize. Never sell more than the position.",
+  "Hold with size 0 when the signals are mixed or the data is thin."
+].join(" ");
+
+export function holdDecision(rationale: string, errors?: string[], model?: string): TradeDecision {
+  return { action: "hold", size: 0, confidence: 0, rationale, source: "fallback", model, errors };
+}
+
+// Models without tool support may answer in content, possibly inside a ```json fence
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1];
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * Asks the model for a decision on the snapshot and validates the answer
+ * against TRADE_DECISION_SCHEMA. Any failure - transport, unparseable JSON,
+ * schema violations, or a size over maxSize or the held position - is
+ * logged and turned into a hold.
+ */
+export async function requestTradeDecision(
+  client: LlmClient,
+  snapshot: MarketSnapshot,
+  options: { maxSize?: number } = {}
+): Promise<TradeDecision> {
+  let raw: string | null;
+  let model = client.model;
+
+  try {
+    const result = await client.complete({
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: JSON.stringify({ maxSize: options.maxSize ?? null, snapshot }) }
+      ],
+      tool: TRADE_DECISION_TOOL
+    });
+    model = result.model;
+    raw = result.toolArguments ?? (result.content ? extractJson(result.content) : null);
+  } catch (error) {
+    console.error(`❌ LLM request failed for ${snapshot.productId}:`, error.message);
+    return holdDecision("LLM request failed; holding", [error.message], model);
+  }
+
+  if (!raw) {
+    console.error(`❌ LLM returned no decision for ${snapshot.productId}; holding`);
+    return holdDecision("LLM returned no decision; holding", ["empty response"], model);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error(`❌ LLM decision for ${snapshot.productId} is not valid JSON; holding:`, raw);
+    return holdDecision("LLM decision was not valid JSON; holding", [error.message], model);
+  }
+
+  const errors = validateJsonSchema(parsed, TRADE_DECISION_SCHEMA);
+  if (errors.length === 0 && parsed.action !== "hold") {
+    if (parsed.size <= 0) {
+      errors.push(`$.size should be positive for a ${parsed.action}`);
+    }
+    if (options.maxSize !== undefined && parsed.size > options.maxSize) {
+      errors.push(`$.size ${parsed.size} exceeds maxSize ${options.maxSize}`);
+    }
+    if (parsed.action === "sell" && parsed.size > snapshot.position.amount) {
+      errors.push(`$.size ${parsed.size} exceeds the position of ${snapshot.position.amount}`);
+    }
+  }
+  if (errors.length > 0) {
+    console.error(`❌ LLM decision for ${snapshot.productId} failed validation; holding: ${errors.join("; ")}`);
+    return holdDecision("LLM decision failed schema validation; holding", errors, model);
+  }
+
+  return {
+    action: parsed.action,
+    size: parsed.action === "hold" ? 0 : parsed.size,
+    confidence: parsed.confidence,
+    rationale: parsed.rationale,
+    source: "llm",
+    model
+  };
+}
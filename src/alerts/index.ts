@@ -0,0 +1,2 @@
+export * from "./types";
+export { isAlertTriggered, PriceAlertBook } from "./price-alerts";
@@ -0,0 +1,76 @@
+import { AlertCondition, PriceAlert, TriggeredAlert } from "./types";
+
+export function isAlertTriggered(alert: PriceAlert, price: number): boolean {
+  return alert.condition === "above" ? price >= alert.targetPrice : price <= alert.targetPrice;
+}
+
+/**
+ * The agent's price alerts. Checking them against the latest prices
+ * deactivates and returns the ones that fired; saving them is left to
+ * the caller.
+ */
+export class PriceAlertBook {
+  private alerts: Map<string, PriceAlert> = new Map();
+
+  create(
+    productId: string,
+    targetPrice: number,
+    condition: AlertCondition,
+    callback?: (price: number) => void
+  ): PriceAlert {
+    const alert: PriceAlert = {
+      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      productId,
+      targetPrice,
+      condition,
+      active: true,
+      callback
+    };
+    this.alerts.set(alert.id, alert);
+    return alert;
+  }
+
+  restore(alerts: PriceAlert[]) {
+    for (const alert of alerts) {
+      this.alerts.set(alert.id, alert);
+    }
+  }
+
+  // Fires each active alert whose product has a price at or past its target
+  check(priceOf: (productId: string) => number | undefined): Array<{ alert: PriceAlert; trigger: TriggeredAlert }> {
+    const fired: Array<{ alert: PriceAlert; trigger: TriggeredAlert }> = [];
+
+    for (const alert of this.alerts.values()) {
+      if (!alert.active) continue;
+
+      const currentPrice = priceOf(alert.productId);
+      if (currentPrice === undefined || !isAlertTriggered(alert, currentPrice)) continue;
+
+      alert.active = false;
+      fired.push({
+        alert,
+        trigger: {
+          alertId: alert.id,
+          productId: alert.productId,
+          condition: alert.condition,
+          targetPrice: alert.targetPrice,
+          currentPrice
+        }
+      });
+    }
+    return fired;
+  }
+
+  remove(alertId: string): boolean {
+    return this.alerts.delete(alertId);
+  }
+
+  list(): PriceAlert[] {
+    return Array.from(this.alerts.values());
+  }
+
+  // Products the active alerts are waiting on
+  activeProducts(): string[] {
+    return this.list().filter((alert) => alert.active).map((alert) => alert.productId);
+  }
+}
@@ -0,0 +1,21 @@
+export type AlertCondition = "above" | "below";
+
+export interface PriceAlert {
+  id: string;
+  productId: string;
+  targetPrice: number;
+  condition: AlertCondition;
+  // Alerts fire once; a triggered alert stays listed but inactive
+  active: boolean;
+  // Not persisted, so restored alerts only emit the priceAlert event
+  callback?: (price: number) => void;
+}
+
+// Payload of the agent's priceAlert event
+export interface TriggeredAlert {
+  alertId: string;
+  productId: string;
+  condition: AlertCondition;
+  targetPrice: number;
+  currentPrice: number;
+}
@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { isRole } from "./roles";
+import { Principal, Role } from "./types";
+
+export interface ApiKey {
+  id: string;
+  role: Role;
+  // The key itself, or "sha256:<hex>" so the plain key never has to be stored
+  key: string;
+}
+
+const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+
+/**
+ * Resolves bearer tokens to principals. Keys are kept and compared as
+ * SHA-256 digests, in constant time.
+ */
+export class ApiKeyStore {
+  private entries: Array<{ principal: Principal; digest: Buffer }>;
+
+  constructor(keys: ApiKey[]) {
+    this.entries = keys.map(({ id, role, key }) => ({
+      principal: { id, role },
+      digest: key.startsWith("sha256:") ? Buffer.from(key.slice("sha256:".length), "hex") : digest(key)
+    }));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  authenticate(token: string | undefined): Principal | null {
+    if (!token) return null;
+
+    const presented = digest(token);
+    // Check every entry so the timing doesn't reveal which one matched
+    let match: Principal | null = null;
+    for (const entry of this.entries) {
+      if (entry.digest.length === presented.length && crypto.timingSafeEqual(entry.digest, presented)) {
+        match = entry.principal;
+      }
+    }
+    return match;
+  }
+}
+
+// "alice:admin:<key>,bob:viewer:sha256:<hex>"
+export function parseApiKeys(value: string): ApiKey[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [id, role, ...rest] = entry.split(":");
+      const key = rest.join(":");
+      if (!id || !isRole(role) || !key) {
+        throw new Error(`Invalid API key entry "${id || entry}": expected <name>:<viewer|trader|admin>:<key>`);
+      }
+      return { id, role, key };
+    });
+}
+
+export function apiKeysFromEnv(): ApiKeyStore {
+  return new ApiKeyStore(parseApiKeys(process.env.API_KEYS || ""));
+}
@@ -0,0 +1,59 @@
+import { TradingRepository } from "../database/trading-repository";
+import { AuditEntry } from "./types";
+
+const MEMORY_LIMIT = 1000;
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  actor?: string;
+  limit?: number;
+}
+
+/**
+ * Who did what, and whether it was allowed. Entries go to the repository
+ * when there is one and otherwise to a bounded in-memory list.
+ */
+export class AuditLog {
+  private memory: AuditEntry[] = [];
+
+  constructor(private repository: TradingRepository | null = null) {}
+
+  async record(entry: Omit<AuditEntry, "id" | "timestamp"> & { timestamp?: Date }): Promise<AuditEntry> {
+    const recorded: AuditEntry = {
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: entry.timestamp || new Date(),
+      ...entry
+    };
+
+    if (recorded.outcome !== "allowed") {
+      console.log(`🔒 ${recorded.actor} ${recorded.outcome}: ${recorded.action}${recorded.detail ? ` (${recorded.detail})` : ""}`);
+    }
+
+    if (this.repository) {
+      try {
+        await this.repository.saveAuditEntry(recorded);
+      } catch (error) {
+        console.error("❌ Failed to save audit entry:", error.message);
+      }
+    } else {
+      this.memory.push(recorded);
+      if (this.memory.length > MEMORY_LIMIT) this.memory.shift();
+    }
+    return recorded;
+  }
+
+  // Newest first
+  async list(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (this.repository) {
+      return this.repository.loadAuditEntries(query);
+    }
+
+    return this.memory
+      .filter((entry) => !query.actor || entry.actor === query.actor)
+      .filter((entry) => !query.from || entry.timestamp >= query.from)
+      .filter((entry) => !query.to || entry.timestamp <= query.to)
+      .reverse()
+      .slice(0, query.limit || 100);
+  }
+}
@@ -0,0 +1,40 @@
+import os from "os";
+import { isRole } from "./roles";
+import { Permission, Principal } from "./types";
+
+// Permission each chat command needs; commands not listed only read
+export const CHAT_COMMAND_PERMISSIONS: Record<string, Permission> = {
+  "/buy": "trade",
+  "/sell": "trade",
+  "/limit": "trade",
+  "/stop": "trade",
+  "/tp": "trade",
+  "/trail": "trade",
+  "/cancel": "trade",
+  "/rebalance": "trade",
+  "/fund": "trade",
+  "/send": "transfer",
+  "/kill": "risk"
+};
+
+// Commands that only read on their own but change something when given a subcommand
+export const CHAT_SUBCOMMAND_PERMISSIONS: Record<string, Permission> = {
+  "/accounts": "accounts"
+};
+
+export function chatCommandPermission(command: string, args: string[] = []): Permission {
+  const name = command.toLowerCase();
+  if (args.length > 0 && CHAT_SUBCOMMAND_PERMISSIONS[name]) {
+    return CHAT_SUBCOMMAND_PERMISSIONS[name];
+  }
+  return CHAT_COMMAND_PERMISSIONS[name] || "read";
+}
+
+// Whoever runs the terminal chat; CHAT_ROLE defaults to admin since they already hold the keys
+export function localChatPrincipal(): Principal {
+  const role = process.env.CHAT_ROLE || "admin";
+  if (!isRole(role)) {
+    throw new Error(`Invalid CHAT_ROLE "${role}": expected viewer, trader or admin`);
+  }
+  return { id: `cli:${os.userInfo().username}`, role };
+}
@@ -0,0 +1,10 @@
+export * from "./types";
+export { can, isRole, ROLE_PERMISSIONS, ROLES } from "./roles";
+export { ApiKey, ApiKeyStore, apiKeysFromEnv, parseApiKeys } from "./api-keys";
+export { AuditLog, AuditQuery } from "./audit-log";
+export {
+  CHAT_COMMAND_PERMISSIONS,
+  CHAT_SUBCOMMAND_PERMISSIONS,
+  chatCommandPermission,
+  localChatPrincipal
+} from "./chat";
@@ -0,0 +1,18 @@
+import { Permission, Principal, Role } from "./types";
+
+export const ROLES: Role[] = ["viewer", "trader", "admin"];
+
+// Each role includes the permissions of the ones before it
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ["read"],
+  trader: ["read", "trade", "alerts"],
+  admin: ["read", "trade", "alerts", "strategies", "risk", "audit", "accounts", "transfer"]
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function can(principal: Principal | null, permission: Permission): boolean {
+  return !!principal && ROLE_PERMISSIONS[principal.role].includes(permission);
+}
@@ -0,0 +1,30 @@
+export type Role = "viewer" | "trader" | "admin";
+
+export type Permission =
+  | "read"        // portfolio, orders, history, market data
+  | "trade"       // place and cancel orders
+  | "alerts"      // create and remove price alerts
+  | "strategies"  // create, enable, disable and tune strategies
+  | "risk"        // change risk limits and the kill switch
+  | "audit"       // read the audit log
+  | "accounts"    // create, import and switch trading accounts
+  | "transfer";   // send funds out of the account
+
+// Who is acting; id is the identity recorded with every action, e.g. "alice" or "telegram:12345"
+export interface Principal {
+  id: string;
+  role: Role;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  // Principal id, or "anonymous" when the credentials were missing or wrong
+  actor: string;
+  role: Role | null;
+  // What was attempted, e.g. "POST /orders" or "/buy"
+  action: string;
+  outcome: "allowed" | "denied" | "failed";
+  // Request summary or the reason it was denied or failed
+  detail?: string;
+}
@@ -0,0 +1,34 @@
+import { fixedBpsSlippage, PaperExchangeOptions } from "../execution";
+
+// Collects "--flag value" pairs; repeated flags accumulate
+export function parseFlags(argv: string[]): Map<string, string[]> {
+  const flags = new Map<string, string[]>();
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+
+    const name = argv[i].slice(2);
+    const value = argv[i + 1] && !argv[i + 1].startsWith("--") ? argv[++i] : "true";
+    flags.set(name, [...(flags.get(name) || []), value]);
+  }
+
+  return flags;
+}
+
+// Reads --balance, --maker-fee, --taker-fee and --slippage-bps
+export function paperOptionsFromFlags(flags: Map<string, string[]>): PaperExchangeOptions {
+  const options: PaperExchangeOptions = {};
+
+  if (flags.has("balance")) {
+    options.startingBalances = {};
+    for (const entry of flags.get("balance").flatMap((value) => value.split(","))) {
+      const [asset, amount] = entry.split(":");
+      options.startingBalances[asset.toUpperCase()] = parseFloat(amount);
+    }
+  }
+  if (flags.has("maker-fee")) options.makerFeeRate = parseFloat(flags.get("maker-fee")[0]);
+  if (flags.has("taker-fee")) options.takerFeeRate = parseFloat(flags.get("taker-fee")[0]);
+  if (flags.has("slippage-bps")) options.slippage = fixedBpsSlippage(parseFloat(flags.get("slippage-bps")[0]));
+
+  return options;
+}
@@ -0,0 +1,60 @@
+import { Candle, MarketData, MarketDataProvider } from "../market-data";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Serves one product's candles to the agent as market data. The backtest
+ * runner moves the cursor with seek(); fetchTickers() always returns the
+ * current candle's close, however often the agent asks within a cycle.
+ */
+export class CandleFeed implements MarketDataProvider {
+  readonly name = "backtest";
+  private index = -1;
+  private windowStart = 0;
+  private windowVolume = 0;
+
+  constructor(private productId: string, private candles: Candle[]) {
+    if (candles.length === 0) {
+      throw new Error("Backtest needs at least one candle");
+    }
+  }
+
+  get current(): Candle {
+    return this.candles[Math.max(this.index, 0)];
+  }
+
+  get currentTime(): Date {
+    return this.current.timestamp;
+  }
+
+  // Candles must be visited in order; keeps a rolling 24h window for volume/change
+  seek(index: number) {
+    if (index < this.index) {
+      throw new Error("CandleFeed can only move forward");
+    }
+
+    for (let i = this.index + 1; i <= index; i++) {
+      this.windowVolume += this.candles[i].volume;
+    }
+    this.index = index;
+
+    const cutoff = this.currentTime.getTime() - DAY_MS;
+    while (this.candles[this.windowStart].timestamp.getTime() <= cutoff) {
+      this.windowVolume -= this.candles[this.windowStart].volume;
+      this.windowStart++;
+    }
+  }
+
+  async fetchTickers(productIds: string[]): Promise<MarketData[]> {
+    if (!productIds.includes(this.productId)) return [];
+
+    const open = this.candles[this.windowStart].open;
+    return [{
+      productId: this.productId,
+      price: this.current.close,
+      volume24h: this.windowVolume,
+      priceChange24h: open > 0 ? ((this.current.close - open) / open) * 100 : 0,
+      timestamp: this.currentTime
+    }];
+  }
+}
@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+import { loadCandlesFromCsv } from "../market-data";
+import { paperOptionsFromFlags, parseFlags } from "./args";
+import { formatBacktestReport, runBacktest } from "./runner";
+import { parseParameterArgs, StrategyType, STRATEGY_PARAMETERS } from "./strategy-spec";
+
+dotenv.config();
+
+const USAGE = `Usage: npm run backtest -- --file <candles.csv> --product <BTC-USD> --strategy <${Object.keys(STRATEGY_PARAMETERS).join("|")}>
+                        --param key=value [--param key=value ...]
+                        [--balance USD:10000] [--maker-fee 0.004] [--taker-fee 0.006] [--slippage-bps 5] [--json]`;
+
+async function main() {
+  const flags = parseFlags(process.argv.slice(2));
+  const file = flags.get("file")?.[0];
+  const productId = flags.get("product")?.[0]?.toUpperCase();
+  const type = flags.get("strategy")?.[0] as StrategyType;
+
+  if (!file || !productId || !type || flags.has("help")) {
+    console.log(USAGE);
+    process.exit(flags.has("help") ? 0 : 1);
+  }
+
+  const result = await runBacktest({
+    productId,
+    candles: loadCandlesFromCsv(file),
+    strategy: { type, parameters: parseParameterArgs(flags.get("param") || []) },
+    paperTrading: paperOptionsFromFlags(flags)
+  });
+
+  if (flags.has("json")) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(formatBacktestReport(result));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Backtest failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
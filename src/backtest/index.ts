@@ -0,0 +1,29 @@
+export { CandleFeed } from "./candle-feed";
+export * from "./metrics";
+export {
+  createStrategyFromSpec,
+  parseParameterArgs,
+  StrategySpec,
+  strategyConfigFromSpec,
+  StrategyType,
+  STRATEGY_PARAMETERS
+} from "./strategy-spec";
+export {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  formatBacktestReport,
+  runBacktest
+} from "./runner";
+export {
+  exportStrategyConfig,
+  FoldResult,
+  formatOptimizationReport,
+  OptimizationObjective,
+  OptimizationReport,
+  OptimizeOptions,
+  optimizeStrategy,
+  ParameterRange,
+  ParameterSetResult,
+  walkForwardWindows
+} from "./optimizer";
@@ -0,0 +1,62 @@
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export function periodReturns(curve: EquityPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1].equity;
+    returns.push(previous > 0 ? curve[i].equity / previous - 1 : 0);
+  }
+  return returns;
+}
+
+// Largest peak-to-trough decline, as a percentage of the peak
+export function maxDrawdown(curve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      worst = Math.max(worst, ((peak - point.equity) / peak) * 100);
+    }
+  }
+  return worst;
+}
+
+// Annualisation factor derived from the median spacing between points
+export function periodsPerYear(curve: EquityPoint[]): number {
+  const gaps = curve
+    .slice(1)
+    .map((point, i) => point.timestamp.getTime() - curve[i].timestamp.getTime())
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+
+  if (gaps.length === 0) return 1;
+  return YEAR_MS / gaps[Math.floor(gaps.length / 2)];
+}
+
+export function sharpeRatio(returns: number[], periods: number): number {
+  if (returns.length < 2) return 0;
+
+  const mean = average(returns);
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  return stdDev > 0 ? (mean / stdDev) * Math.sqrt(periods) : 0;
+}
+
+export function sortinoRatio(returns: number[], periods: number): number {
+  if (returns.length < 2) return 0;
+
+  const mean = average(returns);
+  const downside = Math.sqrt(average(returns.map((r) => Math.pow(Math.min(r, 0), 2))));
+  return downside > 0 ? (mean / downside) * Math.sqrt(periods) : 0;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
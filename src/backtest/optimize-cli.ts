@@ -0,0 +1,79 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import { loadCandlesFromCsv } from "../market-data";
+import { paperOptionsFromFlags, parseFlags } from "./args";
+import {
+  exportStrategyConfig,
+  formatOptimizationReport,
+  OptimizationObjective,
+  optimizeStrategy,
+  ParameterRange
+} from "./optimizer";
+import { parseParameterArgs, StrategyType, STRATEGY_PARAMETERS } from "./strategy-spec";
+
+dotenv.config();
+
+const USAGE = `Usage: npm run optimize -- --file <candles.csv> --product <BTC-USD> --strategy <${Object.keys(STRATEGY_PARAMETERS).join("|")}>
+                        --range name=min:max[:step] | --range name=v1,v2,... [--range ...]
+                        [--param name=value ...] [--search grid|random] [--samples 50] [--seed 1]
+                        [--folds 3] [--in-sample 0.7] [--objective sharpeRatio|sortinoRatio|totalReturn]
+                        [--top 10] [--export best-strategy.json] [--balance USD:10000]`;
+
+// "1:5:0.5" is a stepped numeric range, "1,2,3" an explicit list
+function parseRange(spec: string): [string, ParameterRange] {
+  const [name, body] = spec.split("=");
+  if (!name || !body) {
+    throw new Error(`Expected name=min:max[:step] or name=v1,v2, got "${spec}"`);
+  }
+
+  if (body.includes(":")) {
+    const [min, max, step] = body.split(":").map(Number);
+    return [name, { min, max, step }];
+  }
+
+  const values = body.split(",").map((value) => (isNaN(Number(value)) ? value : Number(value)));
+  return [name, { values }];
+}
+
+async function main() {
+  const flags = parseFlags(process.argv.slice(2));
+  const file = flags.get("file")?.[0];
+  const productId = flags.get("product")?.[0]?.toUpperCase();
+  const strategyType = flags.get("strategy")?.[0] as StrategyType;
+
+  if (!file || !productId || !strategyType || !flags.has("range") || flags.has("help")) {
+    console.log(USAGE);
+    process.exit(flags.has("help") ? 0 : 1);
+  }
+
+  const report = await optimizeStrategy({
+    productId,
+    candles: loadCandlesFromCsv(file),
+    strategyType,
+    ranges: Object.fromEntries(flags.get("range").map(parseRange)),
+    fixed: parseParameterArgs(flags.get("param") || []),
+    search: flags.get("search")?.[0] === "random" ? "random" : "grid",
+    samples: flags.has("samples") ? parseInt(flags.get("samples")[0]) : undefined,
+    seed: flags.has("seed") ? parseInt(flags.get("seed")[0]) : undefined,
+    folds: flags.has("folds") ? parseInt(flags.get("folds")[0]) : undefined,
+    inSampleRatio: flags.has("in-sample") ? parseFloat(flags.get("in-sample")[0]) : undefined,
+    objective: flags.get("objective")?.[0] as OptimizationObjective,
+    paperTrading: paperOptionsFromFlags(flags)
+  });
+
+  console.log(formatOptimizationReport(report, flags.has("top") ? parseInt(flags.get("top")[0]) : 10));
+
+  const best = exportStrategyConfig(report);
+  console.log("\n✅ Best parameters as a createStrategy call:");
+  console.log(`agent.createStrategy(${JSON.stringify(best, null, 2)});`);
+
+  if (flags.has("export")) {
+    fs.writeFileSync(flags.get("export")[0], JSON.stringify(best, null, 2));
+    console.log(`\n💾 Exported to ${flags.get("export")[0]}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Optimization failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,304 @@
+import { PaperExchangeOptions } from "../execution";
+import { Candle } from "../market-data";
+import { TradingStrategy } from "../strategies";
+import { BacktestResult, runBacktest } from "./runner";
+import { StrategySpec, strategyConfigFromSpec, StrategyType } from "./strategy-spec";
+
+export type ParameterRange =
+  | { values: Array<number | string> }
+  | { min: number; max: number; step?: number };
+
+export type OptimizationObjective = "sharpeRatio" | "sortinoRatio" | "totalReturn";
+
+export interface OptimizeOptions {
+  productId: string;
+  candles: Candle[];
+  strategyType: StrategyType;
+  ranges: Record<string, ParameterRange>;
+  // Parameters held constant across the sweep, e.g. the trade size
+  fixed?: Record<string, any>;
+  search?: "grid" | "random";
+  // Number of parameter sets drawn by random search (default 50)
+  samples?: number;
+  seed?: number;
+  // Rolling walk-forward folds and the share of each window used in-sample
+  folds?: number;
+  inSampleRatio?: number;
+  objective?: OptimizationObjective;
+  paperTrading?: Omit<PaperExchangeOptions, "clock">;
+}
+
+export interface FoldResult {
+  fold: number;
+  inSample: BacktestResult;
+  outOfSample: BacktestResult;
+}
+
+export interface ParameterSetResult {
+  rank: number;
+  parameters: Record<string, any>;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  // Out-of-sample score as a share of in-sample (walk-forward efficiency)
+  efficiency: number;
+  outOfSampleReturn: number;
+  outOfSampleTrades: number;
+  folds: FoldResult[];
+  warnings: string[];
+}
+
+export interface OptimizationReport {
+  productId: string;
+  strategyType: StrategyType;
+  objective: OptimizationObjective;
+  search: "grid" | "random";
+  combinationsTested: number;
+  results: ParameterSetResult[];
+  warnings: string[];
+}
+
+const MIN_OUT_OF_SAMPLE_TRADES = 5;
+const MANY_COMBINATIONS = 100;
+
+/**
+ * Sweeps strategy parameters with rolling walk-forward validation. Each
+ * parameter set is backtested on every in-sample window and the window that
+ * follows it; sets are ranked by their average out-of-sample score, since
+ * that is the only number not fitted to the data.
+ */
+export async function optimizeStrategy(options: OptimizeOptions): Promise<OptimizationReport> {
+  const objective = options.objective || "sharpeRatio";
+  const search = options.search || "grid";
+  const windows = walkForwardWindows(options.candles.length, options.folds ?? 3, options.inSampleRatio ?? 0.7);
+
+  const combinations = search === "random"
+    ? randomCombinations(options.ranges, options.samples ?? 50, options.seed ?? 1)
+    : gridCombinations(options.ranges);
+
+  if (combinations.length === 0) {
+    throw new Error("No parameter combinations to test");
+  }
+
+  const results: ParameterSetResult[] = [];
+
+  for (const combination of combinations) {
+    const spec: StrategySpec = {
+      type: options.strategyType,
+      parameters: { ...options.fixed, ...combination }
+    };
+
+    const folds: FoldResult[] = [];
+    for (const [fold, window] of windows.entries()) {
+      const run = (start: number, end: number) => runBacktest({
+        productId: options.productId,
+        candles: options.candles.slice(start, end),
+        strategy: spec,
+        paperTrading: options.paperTrading
+      });
+
+      folds.push({
+        fold,
+        inSample: await run(window.inSample[0], window.inSample[1]),
+        outOfSample: await run(window.outOfSample[0], window.outOfSample[1])
+      });
+    }
+
+    const inSampleScore = average(folds.map((f) => f.inSample[objective]));
+    const outOfSampleScore = average(folds.map((f) => f.outOfSample[objective]));
+    const outOfSampleReturn = (folds.reduce((growth, f) => growth * (1 + f.outOfSample.totalReturn / 100), 1) - 1) * 100;
+
+    const result: ParameterSetResult = {
+      rank: 0,
+      parameters: spec.parameters,
+      inSampleScore,
+      outOfSampleScore,
+      efficiency: inSampleScore > 0 ? outOfSampleScore / inSampleScore : 0,
+      outOfSampleReturn,
+      outOfSampleTrades: folds.reduce((sum, f) => sum + f.outOfSample.trades.length, 0),
+      folds,
+      warnings: []
+    };
+    result.warnings = overfittingWarnings(result);
+    results.push(result);
+  }
+
+  results.sort((a, b) => b.outOfSampleScore - a.outOfSampleScore);
+  results.forEach((result, i) => (result.rank = i + 1));
+
+  const warnings: string[] = [];
+  if (combinations.length > MANY_COMBINATIONS) {
+    warnings.push(`${combinations.length} combinations tested: the best score is likely inflated by chance (multiple testing)`);
+  }
+  const edge = edgeParameters(results[0].parameters, options.ranges);
+  if (edge.length > 0) {
+    warnings.push(`Best result sits on the edge of the search range for ${edge.join(", ")}; consider widening it`);
+  }
+
+  return {
+    productId: options.productId,
+    strategyType: options.strategyType,
+    objective,
+    search,
+    combinationsTested: combinations.length,
+    results,
+    warnings
+  };
+}
+
+// Argument for agent.createStrategy() built from a ranked result
+export function exportStrategyConfig(
+  report: OptimizationReport,
+  rank: number = 1
+): Omit<TradingStrategy, "id"> {
+  const result = report.results.find((r) => r.rank === rank);
+  if (!result) {
+    throw new Error(`No result with rank ${rank}`);
+  }
+  return strategyConfigFromSpec(report.productId, { type: report.strategyType, parameters: result.parameters });
+}
+
+export function formatOptimizationReport(report: OptimizationReport, top: number = 10): string {
+  const lines = [
+    `🔬 Optimization: ${report.strategyType} on ${report.productId} (${report.search} search, ${report.combinationsTested} sets, ranked by out-of-sample ${report.objective})`
+  ];
+
+  for (const result of report.results.slice(0, top)) {
+    const params = Object.entries(result.parameters).map(([key, value]) => `${key}=${value}`).join(", ");
+    const efficiency = result.inSampleScore > 0 ? `${(result.efficiency * 100).toFixed(0)}%` : "n/a";
+    lines.push(
+      `   #${result.rank} ${params}`,
+      `      IS ${result.inSampleScore.toFixed(2)}  OOS ${result.outOfSampleScore.toFixed(2)}  efficiency ${efficiency}  OOS return ${result.outOfSampleReturn.toFixed(2)}%  OOS trades ${result.outOfSampleTrades}`
+    );
+    for (const warning of result.warnings) {
+      lines.push(`      ⚠️  ${warning}`);
+    }
+  }
+
+  for (const warning of report.warnings) {
+    lines.push(`   ⚠️  ${warning}`);
+  }
+  return lines.join("\n");
+}
+
+// Rolling windows: each fold shifts forward by one out-of-sample length
+export function walkForwardWindows(
+  length: number,
+  folds: number,
+  inSampleRatio: number
+): Array<{ inSample: [number, number]; outOfSample: [number, number] }> {
+  if (folds < 1 || inSampleRatio <= 0 || inSampleRatio >= 1) {
+    throw new Error("Walk-forward needs at least one fold and an in-sample ratio between 0 and 1");
+  }
+
+  const outOfSampleLength = Math.floor((length * (1 - inSampleRatio)) / folds);
+  const inSampleLength = length - folds * outOfSampleLength;
+  if (outOfSampleLength < 2 || inSampleLength < 2) {
+    throw new Error(`Not enough candles (${length}) for ${folds} walk-forward folds`);
+  }
+
+  return Array.from({ length: folds }, (_, i) => {
+    const start = i * outOfSampleLength;
+    const split = start + inSampleLength;
+    return {
+      inSample: [start, split] as [number, number],
+      outOfSample: [split, split + outOfSampleLength] as [number, number]
+    };
+  });
+}
+
+function rangeValues(range: ParameterRange): Array<number | string> {
+  if ("values" in range) return range.values;
+
+  const step = range.step ?? (range.max - range.min) / 4;
+  if (!(step > 0)) return [range.min];
+
+  const values: number[] = [];
+  for (let value = range.min; value <= range.max + step * 1e-9; value += step) {
+    values.push(Number(value.toFixed(10)));
+  }
+  return values;
+}
+
+function gridCombinations(ranges: Record<string, ParameterRange>): Array<Record<string, any>> {
+  let combinations: Array<Record<string, any>> = [{}];
+
+  for (const [name, range] of Object.entries(ranges)) {
+    const values = rangeValues(range);
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value }))
+    );
+  }
+  return combinations;
+}
+
+function randomCombinations(
+  ranges: Record<string, ParameterRange>,
+  samples: number,
+  seed: number
+): Array<Record<string, any>> {
+  const random = mulberry32(seed);
+  const seen = new Set<string>();
+  const combinations: Array<Record<string, any>> = [];
+
+  // Draw from each parameter's value grid so results stay comparable to grid search
+  const values = Object.entries(ranges).map(([name, range]) => [name, rangeValues(range)] as const);
+  const space = values.reduce((size, [, options]) => size * options.length, 1);
+
+  while (combinations.length < Math.min(samples, space)) {
+    const combination: Record<string, any> = {};
+    for (const [name, options] of values) {
+      combination[name] = options[Math.floor(random() * options.length)];
+    }
+
+    const key = JSON.stringify(combination);
+    if (!seen.has(key)) {
+      seen.add(key);
+      combinations.push(combination);
+    }
+  }
+  return combinations;
+}
+
+function overfittingWarnings(result: ParameterSetResult): string[] {
+  const warnings: string[] = [];
+
+  if (result.inSampleScore > 0 && result.outOfSampleScore <= 0) {
+    warnings.push("Profitable in-sample but not out-of-sample");
+  } else if (result.inSampleScore > 0 && result.efficiency < 0.5) {
+    warnings.push(`Out-of-sample score is only ${(result.efficiency * 100).toFixed(0)}% of in-sample`);
+  }
+  if (result.outOfSampleTrades < MIN_OUT_OF_SAMPLE_TRADES) {
+    warnings.push(`Only ${result.outOfSampleTrades} out-of-sample trades; too few to be meaningful`);
+  }
+
+  const losingFolds = result.folds.filter((f) => f.outOfSample.totalReturn < 0).length;
+  if (losingFolds > 0) {
+    warnings.push(`Lost money in ${losingFolds} of ${result.folds.length} out-of-sample folds`);
+  }
+  return warnings;
+}
+
+function edgeParameters(parameters: Record<string, any>, ranges: Record<string, ParameterRange>): string[] {
+  return Object.entries(ranges)
+    .filter(([name, range]) => {
+      const values = rangeValues(range);
+      return values.length > 2 && (parameters[name] === values[0] || parameters[name] === values[values.length - 1]);
+    })
+    .map(([name]) => name);
+}
+
+// Small seeded PRNG so random searches are reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
@@ -0,0 +1,200 @@
+import { CoinbaseTradingAgent } from "../agent";
+import { AssetBalance, PaperExchange, PaperExchangeOptions } from "../execution";
+import { Candle } from "../market-data";
+import { RiskLimits } from "../risk";
+import { CandleFeed } from "./candle-feed";
+import {
+  EquityPoint,
+  maxDrawdown,
+  periodReturns,
+  periodsPerYear,
+  sharpeRatio,
+  sortinoRatio
+} from "./metrics";
+import { createStrategyFromSpec, StrategySpec } from "./strategy-spec";
+
+export interface BacktestOptions {
+  productId: string;
+  candles: Candle[];
+  strategy: StrategySpec;
+  // Defaults to 10,000 of the quote currency with the paper exchange's fees
+  paperTrading?: Omit<PaperExchangeOptions, "clock">;
+  // Suppress the agent's console output while the backtest runs (default true)
+  silent?: boolean;
+  // Pre-trade risk limits to simulate; none are applied by default
+  riskLimits?: RiskLimits;
+}
+
+export interface BacktestTrade {
+  orderId: string;
+  timestamp: Date;
+  side: "buy" | "sell";
+  price: number;
+  amount: number;
+  fee: number;
+  // Average-cost P&L realised by a sell, net of its fee
+  realizedPnl?: number;
+}
+
+export interface BacktestResult {
+  productId: string;
+  strategy: StrategySpec;
+  startTime: Date;
+  endTime: Date;
+  candleCount: number;
+  startingEquity: number;
+  finalEquity: number;
+  totalReturn: number;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  rejectedOrders: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  winRate: number;
+  feesPaid: number;
+}
+
+/**
+ * Replays historical candles through a real CoinbaseTradingAgent wired to a
+ * PaperExchange. Each candle is one monitoring cycle at its close price, with
+ * the agent's clock set to the candle time so interval-based strategies
+ * behave as they would live.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const { productId, candles, strategy } = options;
+  const [base, quote] = productId.split("-");
+  if (!base || !quote) {
+    throw new Error(`Invalid product: ${productId}`);
+  }
+
+  const feed = new CandleFeed(productId, candles);
+  const exchange = new PaperExchange({
+    startingBalances: { [quote]: 10000 },
+    ...options.paperTrading,
+    clock: () => feed.currentTime
+  });
+  const startingEquity = valueBalances(exchange.getBalances(), base, quote, candles[0].close);
+
+  const restoreConsole = options.silent === false ? () => {} : silenceConsole();
+  const agent = new CoinbaseTradingAgent();
+  const equityCurve: EquityPoint[] = [];
+
+  try {
+    await agent.initialize({
+      marketDataProvider: feed,
+      executionVenue: exchange,
+      startMonitoring: false,
+      clock: () => feed.currentTime.getTime(),
+      riskLimits: options.riskLimits || {},
+      // Candle files can use any product id, so there is no catalog to check against
+      productSource: null
+    });
+    createStrategyFromSpec(agent, productId, strategy);
+
+    for (let i = 0; i < candles.length; i++) {
+      feed.seek(i);
+      await agent.runMonitoringCycle();
+      equityCurve.push({
+        timestamp: candles[i].timestamp,
+        equity: valueBalances(exchange.getBalances(), base, quote, candles[i].close)
+      });
+    }
+  } finally {
+    await agent.close();
+    restoreConsole();
+  }
+
+  const orders = agent.getOrderHistory();
+  const trades = withRealizedPnl(
+    orders
+      .flatMap((order) => order.fills.map((fill) => ({
+        orderId: order.id,
+        timestamp: new Date(fill.timestamp),
+        side: order.side,
+        price: fill.price,
+        amount: fill.amount,
+        fee: fill.fee
+      })))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  );
+
+  const closingTrades = trades.filter((trade) => trade.realizedPnl !== undefined);
+  const returns = periodReturns(equityCurve);
+  const periods = periodsPerYear(equityCurve);
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+
+  return {
+    productId,
+    strategy,
+    startTime: candles[0].timestamp,
+    endTime: candles[candles.length - 1].timestamp,
+    candleCount: candles.length,
+    startingEquity,
+    finalEquity,
+    totalReturn: startingEquity > 0 ? (finalEquity / startingEquity - 1) * 100 : 0,
+    equityCurve,
+    trades,
+    rejectedOrders: orders.filter((order) => order.status === "rejected").length,
+    maxDrawdown: maxDrawdown(equityCurve),
+    sharpeRatio: sharpeRatio(returns, periods),
+    sortinoRatio: sortinoRatio(returns, periods),
+    winRate: closingTrades.length > 0
+      ? (closingTrades.filter((trade) => trade.realizedPnl > 0).length / closingTrades.length) * 100
+      : 0,
+    feesPaid: trades.reduce((sum, trade) => sum + trade.fee, 0)
+  };
+}
+
+export function formatBacktestReport(result: BacktestResult): string {
+  const params = Object.entries(result.strategy.parameters)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+
+  return [
+    `📊 Backtest: ${result.strategy.type} on ${result.productId} (${params})`,
+    `   Period: ${result.startTime.toISOString()} → ${result.endTime.toISOString()} (${result.candleCount} candles)`,
+    `   Equity: $${result.startingEquity.toFixed(2)} → $${result.finalEquity.toFixed(2)} (${result.totalReturn >= 0 ? "+" : ""}${result.totalReturn.toFixed(2)}%)`,
+    `   Max Drawdown: ${result.maxDrawdown.toFixed(2)}%`,
+    `   Sharpe: ${result.sharpeRatio.toFixed(2)}  Sortino: ${result.sortinoRatio.toFixed(2)}`,
+    `   Trades: ${result.trades.length} (${result.rejectedOrders} rejected)  Win Rate: ${result.winRate.toFixed(1)}%`,
+    `   Fees Paid: $${result.feesPaid.toFixed(2)}`
+  ].join("\n");
+}
+
+function valueBalances(balances: AssetBalance[], base: string, quote: string, price: number): number {
+  return balances.reduce((sum, balance) => {
+    if (balance.asset === quote) return sum + balance.total;
+    if (balance.asset === base) return sum + balance.total * price;
+    return sum;
+  }, 0);
+}
+
+function withRealizedPnl(trades: BacktestTrade[]): BacktestTrade[] {
+  let position = 0;
+  let cost = 0;
+
+  return trades.map((trade) => {
+    if (trade.side === "buy") {
+      position += trade.amount;
+      cost += trade.price * trade.amount + trade.fee;
+      return trade;
+    }
+
+    const averageCost = position > 0 ? cost / position : trade.price;
+    const realizedPnl = (trade.price - averageCost) * trade.amount - trade.fee;
+    cost -= averageCost * Math.min(trade.amount, position);
+    position = Math.max(position - trade.amount, 0);
+    return { ...trade, realizedPnl };
+  });
+}
+
+function silenceConsole(): () => void {
+  const { log, error } = console;
+  console.log = () => {};
+  console.error = () => {};
+  return () => {
+    console.log = log;
+    console.error = error;
+  };
+}
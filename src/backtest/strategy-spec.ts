@@ -0,0 +1,122 @@
+import { CoinbaseTradingAgent } from "../agent";
+import { TradingStrategy } from "../strategies";
+
+// Rebalancing spans several products, so it can't run on a single candle series
+export type StrategyType = Exclude<TradingStrategy["type"], "rebalance">;
+
+export interface StrategySpec {
+  type: StrategyType;
+  parameters: Record<string, any>;
+}
+
+// Parameters each strategy type needs, in the order its create*Strategy helper takes them
+export const STRATEGY_PARAMETERS: Record<StrategyType, string[]> = {
+  dca: ["amountPerTrade", "intervalMinutes"],
+  grid: ["lowerPrice", "upperPrice", "gridLevels", "amountPerLevel"],
+  momentum: ["threshold", "tradeAmount"],
+  mean_reversion: ["lookbackPeriod", "stdDevThreshold", "tradeAmount"]
+};
+
+// Order sizes are passed to marketBuy/marketSell as strings
+const AMOUNT_PARAMETERS = ["amountPerTrade", "quoteAmountPerTrade", "amountPerLevel", "tradeAmount"];
+
+// Parameters that may be replaced by another, e.g. DCA sized by dollars instead of base units
+const ALTERNATIVE_PARAMETERS: Record<string, string> = {
+  amountPerTrade: "quoteAmountPerTrade"
+};
+
+const STRATEGY_NAMES: Record<StrategyType, string> = {
+  dca: "DCA",
+  grid: "Grid",
+  momentum: "Momentum",
+  mean_reversion: "Mean Reversion"
+};
+
+/**
+ * Builds the argument for agent.createStrategy() from a spec, e.g. to take
+ * an optimizer result live. The agent fills in each type's runtime state.
+ */
+export function strategyConfigFromSpec(
+  productId: string,
+  spec: StrategySpec,
+  enabled: boolean = false
+): Omit<TradingStrategy, "id"> {
+  const parameters: Record<string, any> = {};
+  for (const [name, value] of Object.entries(spec.parameters)) {
+    parameters[name] = AMOUNT_PARAMETERS.includes(name) ? String(value) : value;
+  }
+
+  return {
+    name: `${STRATEGY_NAMES[spec.type]} - ${productId}`,
+    enabled,
+    productId,
+    type: spec.type,
+    parameters
+  };
+}
+
+/**
+ * Creates a strategy on the agent through the same create*Strategy helpers
+ * users call, so backtests run exactly the configuration that goes live.
+ */
+export function createStrategyFromSpec(
+  agent: CoinbaseTradingAgent,
+  productId: string,
+  spec: StrategySpec
+): string {
+  const required = STRATEGY_PARAMETERS[spec.type];
+  if (!required) {
+    throw new Error(`Unknown strategy type: ${spec.type}`);
+  }
+
+  for (const name of required) {
+    const alternative = ALTERNATIVE_PARAMETERS[name];
+    if (spec.parameters[name] === undefined && (!alternative || spec.parameters[alternative] === undefined)) {
+      throw new Error(`Missing parameter "${name}" for ${spec.type} strategy`);
+    }
+  }
+
+  const p = spec.parameters;
+  switch (spec.type) {
+    case "dca":
+      return agent.createDCAStrategy(
+        productId,
+        p.quoteAmountPerTrade !== undefined ? { quoteAmount: String(p.quoteAmountPerTrade) } : String(p.amountPerTrade),
+        Number(p.intervalMinutes)
+      );
+    case "grid":
+      return agent.createGridStrategy(
+        productId,
+        Number(p.lowerPrice),
+        Number(p.upperPrice),
+        Number(p.gridLevels),
+        String(p.amountPerLevel),
+        p.spacing === "geometric" ? "geometric" : "arithmetic"
+      );
+    case "momentum":
+      return agent.createMomentumStrategy(productId, Number(p.threshold), String(p.tradeAmount));
+    case "mean_reversion":
+      return agent.createMeanReversionStrategy(
+        productId,
+        Number(p.lookbackPeriod),
+        Number(p.stdDevThreshold),
+        String(p.tradeAmount)
+      );
+  }
+}
+
+// Parses ["threshold=2", "tradeAmount=0.01"] into { threshold: 2, tradeAmount: 0.01 }
+export function parseParameterArgs(args: string[]): Record<string, any> {
+  const parameters: Record<string, any> = {};
+
+  for (const arg of args) {
+    const [key, ...rest] = arg.split("=");
+    const value = rest.join("=");
+    if (!key || rest.length === 0) {
+      throw new Error(`Expected key=value, got "${arg}"`);
+    }
+    parameters[key] = value !== "" && !isNaN(Number(value)) ? Number(value) : value;
+  }
+
+  return parameters;
+}
@@ -1,14 +1,53 @@
 import * as readline from 'readline';
-import { CoinbaseTradingAgent } from './trading-agent';
+import { formatPerformanceReport, LotMethod, PerformanceReportOptions, TaxExportOptions } from '../accounting';
+import { CoinbaseTradingAgent } from '../agent';
+import {
+  describeIntent,
+  intentRequiresConfirmation,
+  LlmClient,
+  llmClientFromEnv,
+  OpenAICompatibleClient,
+  parseIntent,
+  TradeIntent
+} from '../ai';
+import { AuditLog, can, chatCommandPermission, localChatPrincipal, Permission, Principal } from '../auth';
+import { formatBacktestReport, parseParameterArgs, runBacktest, StrategyType } from '../backtest';
+import { FAUCET_NETWORKS, FUNDING_ASSETS, FundingAsset, parseFundingAsset, recipientProblem } from '../funding';
+import { loadCandlesFromCsv } from '../market-data';
+import { NETWORKS } from '../networks';
+import { quoteToBaseAmount } from '../orders';
+import { formatRebalancePlan, RebalanceOptions } from '../portfolio';
+
+// Permission a confirmed natural-language intent needs; the rest only read
+const INTENT_PERMISSIONS: Partial<Record<TradeIntent['type'], Permission>> = {
+  trade: 'trade',
+  alert: 'alerts',
+  strategy: 'strategies'
+};
+
+export interface ChatAccessOptions {
+  // Who is typing; defaults to the local user with CHAT_ROLE
+  principal?: Principal;
+  audit?: AuditLog;
+}
 
 export class TradingAgentChat {
   private rl: readline.Interface;
   private agent: CoinbaseTradingAgent;
   private openaiKey?: string;
+  private intentClient: LlmClient | null;
+  private principal: Principal;
+  private audit: AuditLog;
 
-  constructor(agent: CoinbaseTradingAgent, openaiKey?: string) {
+  // Natural language uses the LLM when a key is given or configured, and the rule-based parser otherwise
+  constructor(agent: CoinbaseTradingAgent, openaiKey?: string, llmClient?: LlmClient, access: ChatAccessOptions = {}) {
     this.agent = agent;
     this.openaiKey = openaiKey;
+    this.principal = access.principal || localChatPrincipal();
+    this.audit = access.audit || new AuditLog();
+    this.intentClient = llmClient || (openaiKey
+      ? new OpenAICompatibleClient({ apiKey: openaiKey, baseUrl: process.env.LLM_BASE_URL, model: process.env.LLM_MODEL })
+      : llmClientFromEnv());
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout
@@ -17,15 +56,35 @@ export class TradingAgentChat {
 
   async start() {
     console.log("💬 Welcome to Coinbase Trading Agent Chat!");
+    console.log(`👤 Signed in as ${this.principal.id} (${this.principal.role})`);
+    if (this.agent.getNetworkConfig()?.mainnet) {
+      console.log("⚠️  MAINNET MODE: balances and transactions use real funds");
+    }
     console.log("=====================================");
     console.log("Available commands:");
     console.log("  /help - Show this help message");
     console.log("  /balance - Check account balance");
     console.log("  /portfolio - View portfolio value");
-    console.log("  /buy <amount> <symbol> - Market buy order (e.g., /buy 0.001 BTC-USD)");
-    console.log("  /sell <amount> <symbol> - Market sell order");
+    console.log("  /products [search] - List tradable products with their size and price increments");
+    console.log("  /accounts [use|new|import <name>] - List, switch, create or import trading accounts");
+    console.log("  /fund [eth|usdc] - Request testnet ETH and USDC from the faucet");
+    console.log("  /send <amount> <eth|usdc> <address> - Send tokens to another address, after confirming");
+    console.log("  /buy <amount|$notional> <symbol> - Market buy order (e.g., /buy 0.001 BTC-USD or /buy $100 BTC-USD)");
+    console.log("  /sell <amount|$notional> <symbol> [lots=<lotId,...>] - Market sell order, optionally from specific lots");
     console.log("  /limit buy <amount> <symbol> <price> - Limit buy order");
     console.log("  /limit sell <amount> <symbol> <price> - Limit sell order");
+    console.log("  /stop buy|sell <amount> <symbol> <stop> [limit] - Stop-market or stop-limit order");
+    console.log("  /tp buy|sell <amount> <symbol> <price> [stop=<price>] - Take-profit, optionally OCO with a stop");
+    console.log("  /trail buy|sell <amount> <symbol> <percent%|amount> - Trailing stop");
+    console.log("  /orders - List open and armed orders");
+    console.log("  /rebalance <ASSET=percent ...> [band=5] [min=10] [buffer=0] - Preview and confirm a rebalance");
+    console.log("  /cancel <orderId> - Cancel an open order");
+    console.log("  /backtest <strategy> <candles.csv> <symbol> [key=value ...] - Backtest a strategy");
+    console.log("  /report [fifo|lifo|hifo|average] [from=YYYY-MM-DD] [to=YYYY-MM-DD] [product=] [strategy=] - Performance report");
+    console.log("  /lots [symbol] - List open tax lots");
+    console.log("  /export [fifo|hifo|lifo|specific] [year=YYYY] [dir=./exports] - Export tax lots and transactions as CSV");
+    console.log("  /risk - Show risk limits and today's P&L");
+    console.log("  /kill on|off - Engage or release the trading kill switch");
     console.log("  /exit - Exit the chat");
     console.log("=====================================");
     console.log("Type your commands or ask questions about trading!\n");
@@ -34,7 +93,9 @@ export class TradingAgentChat {
   }
 
   private promptUser() {
-    this.rl.question('📈 Trading Agent > ', async (input) => {
+    // The warning stays on every prompt so mainnet is never mistaken for a testnet
+    const prompt = this.agent.getNetworkConfig()?.mainnet ? '⚠️  MAINNET 📈 Trading Agent > ' : '📈 Trading Agent > ';
+    this.rl.question(prompt, async (input) => {
       const trimmedInput = input.trim();
 
       if (!trimmedInput) {
@@ -52,7 +113,54 @@ export class TradingAgentChat {
     });
   }
 
+  // Checks the command against the user's role and audits it, reads included
   private async processCommand(input: string): Promise<void> {
+    const [command, ...args] = input.toLowerCase().split(' ');
+    const permission = chatCommandPermission(command, args);
+    if (!(await this.authorize(permission, input))) {
+      return;
+    }
+    // Free text is audited once parsed, as the intent it asks for
+    if (!input.startsWith('/')) {
+      await this.handleNaturalLanguage(input);
+      return;
+    }
+    await this.audited(input, () => this.dispatchCommand(input));
+  }
+
+  // Records whether the action went through; handlers throw on failure so it can tell
+  private async audited(action: string, run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+      await this.audit.record({ actor: this.principal.id, role: this.principal.role, action, outcome: 'allowed' });
+    } catch (error) {
+      await this.audit.record({
+        actor: this.principal.id,
+        role: this.principal.role,
+        action,
+        outcome: 'failed',
+        detail: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  private async authorize(permission: Permission, action: string): Promise<boolean> {
+    if (can(this.principal, permission)) {
+      return true;
+    }
+    console.log(`⛔ Your role (${this.principal.role}) doesn't allow this; it needs the "${permission}" permission\n`);
+    await this.audit.record({
+      actor: this.principal.id,
+      role: this.principal.role,
+      action,
+      outcome: 'denied',
+      detail: `needs ${permission} permission`
+    });
+    return false;
+  }
+
+  private async dispatchCommand(input: string): Promise<void> {
     const parts = input.toLowerCase().split(' ');
     const command = parts[0];
 
@@ -71,7 +179,7 @@ export class TradingAgentChat {
 
       case '/buy':
         if (parts.length < 3) {
-          console.log('❌ Usage: /buy <amount> <symbol> (e.g., /buy 0.001 BTC-USD)');
+          console.log('❌ Usage: /buy <amount|$notional> <symbol> (e.g., /buy 0.001 BTC-USD or /buy $100 BTC-USD)');
           return;
         }
         await this.executeBuy(parts[1], parts[2]);
@@ -79,10 +187,10 @@ export class TradingAgentChat {
 
       case '/sell':
         if (parts.length < 3) {
-          console.log('❌ Usage: /sell <amount> <symbol> (e.g., /sell 0.001 BTC-USD)');
+          console.log('❌ Usage: /sell <amount|$notional> <symbol> [lots=<lotId,...>] (e.g., /sell 0.001 BTC-USD or /sell $50 BTC-USD)');
           return;
         }
-        await this.executeSell(parts[1], parts[2]);
+        await this.executeSell(parts[1], parts[2], parts.find((part) => part.startsWith('lots='))?.slice('lots='.length).split(','));
         break;
 
       case '/limit':
@@ -93,6 +201,181 @@ export class TradingAgentChat {
         await this.executeLimitOrder(parts[1], parts[2], parts[3], parts[4]);
         break;
 
+      case '/stop':
+        if (parts.length < 5 || !['buy', 'sell'].includes(parts[1])) {
+          console.log('❌ Usage: /stop buy|sell <amount> <symbol> <stopPrice> [limitPrice]');
+          console.log('   e.g. /stop sell 0.01 BTC-USD 58000');
+          return;
+        }
+        await this.placeStopOrder(parts[1] as 'buy' | 'sell', parts[2], parts[3], parts[4], parts[5]);
+        break;
+
+      case '/tp': {
+        const stopArg = parts.find((part) => part.startsWith('stop='));
+        if (parts.length < 5 || !['buy', 'sell'].includes(parts[1])) {
+          console.log('❌ Usage: /tp buy|sell <amount> <symbol> <triggerPrice> [stop=<stopPrice>]');
+          console.log('   e.g. /tp sell 0.01 BTC-USD 70000 stop=58000');
+          return;
+        }
+        await this.placeTakeProfit(parts[1] as 'buy' | 'sell', parts[2], parts[3], parts[4], stopArg?.slice('stop='.length));
+        break;
+      }
+
+      case '/trail':
+        if (parts.length < 5 || !['buy', 'sell'].includes(parts[1])) {
+          console.log('❌ Usage: /trail buy|sell <amount> <symbol> <percent%|amount>');
+          console.log('   e.g. /trail sell 0.01 BTC-USD 5%  or  /trail sell 0.01 BTC-USD 1500');
+          return;
+        }
+        await this.placeTrailingStop(parts[1] as 'buy' | 'sell', parts[2], parts[3], parts[4]);
+        break;
+
+      case '/rebalance': {
+        const targets = new Map<string, number>();
+        const options: RebalanceOptions = {};
+        for (const arg of parts.slice(1)) {
+          const [key, value] = arg.split('=');
+          if (value === undefined || isNaN(parseFloat(value))) continue;
+          if (key === 'band') options.driftThreshold = parseFloat(value);
+          else if (key === 'min') options.minTradeValue = parseFloat(value);
+          else if (key === 'buffer') options.cashBuffer = parseFloat(value);
+          else targets.set(key.toUpperCase(), parseFloat(value));
+        }
+        if (targets.size === 0) {
+          console.log('❌ Usage: /rebalance <ASSET=percent ...> [band=5] [min=10] [buffer=0]');
+          console.log('   e.g. /rebalance BTC=50 ETH=30 band=3 buffer=100 (the rest stays in USD)');
+          return;
+        }
+        await this.rebalance(targets, options);
+        break;
+      }
+
+      case '/orders':
+        this.showOpenOrders();
+        break;
+
+      case '/cancel':
+        if (parts.length < 2) {
+          console.log('❌ Usage: /cancel <orderId>');
+          return;
+        }
+        await this.cancelOrder(parts[1]);
+        break;
+
+      case '/backtest': {
+        // File paths and parameter names are case-sensitive, so use the raw input
+        const args = input.split(/\s+/).slice(1);
+        if (args.length < 3) {
+          console.log('❌ Usage: /backtest <dca|grid|momentum|mean_reversion> <candles.csv> <symbol> [key=value ...]');
+          console.log('   e.g. /backtest momentum ./data/btc-1h.csv BTC-USD threshold=2 tradeAmount=0.01');
+          return;
+        }
+        await this.runBacktest(args[0] as StrategyType, args[1], args[2], args.slice(3));
+        break;
+      }
+
+      case '/report': {
+        const options: PerformanceReportOptions = {};
+        for (const arg of parts.slice(1)) {
+          const [key, value] = arg.split('=');
+          if (['fifo', 'lifo', 'hifo', 'average'].includes(key) && value === undefined) options.method = key as LotMethod;
+          else if (key === 'from' && value) options.from = new Date(value);
+          else if (key === 'to' && value) options.to = new Date(`${value}T23:59:59.999Z`);
+          else if (key === 'product' && value) options.productId = value.toUpperCase();
+          else if (key === 'strategy' && value) options.strategyId = value;
+          else {
+            console.log('❌ Usage: /report [fifo|lifo|hifo|average] [from=YYYY-MM-DD] [to=YYYY-MM-DD] [product=<symbol>] [strategy=<id>]');
+            return;
+          }
+        }
+        if ([options.from, options.to].some((date) => date && isNaN(date.getTime()))) {
+          console.log('❌ Dates must be in YYYY-MM-DD format');
+          return;
+        }
+        await this.showPerformanceReport(options);
+        break;
+      }
+
+      case '/products':
+        this.showProducts(parts[1]);
+        break;
+
+      case '/accounts': {
+        // Account names are case-sensitive, so read arguments from the raw input
+        const [, action, name] = input.split(/\s+/);
+        if (!action) {
+          await this.showAccounts();
+        } else if (['use', 'new', 'import'].includes(action.toLowerCase()) && name) {
+          await this.manageAccount(action.toLowerCase() as 'use' | 'new' | 'import', name);
+        } else {
+          console.log('❌ Usage: /accounts [use|new|import <name>]');
+        }
+        break;
+      }
+
+      case '/fund': {
+        let assets: FundingAsset[] | undefined;
+        try {
+          assets = parts.length > 1 ? parts.slice(1).map(parseFundingAsset) : undefined;
+        } catch (error) {
+          console.log(`❌ ${error.message}`);
+          console.log('❌ Usage: /fund [eth|usdc]');
+          return;
+        }
+        await this.fundAccount(assets);
+        break;
+      }
+
+      case '/send': {
+        // Keep the address as typed
+        const [, amount, asset, to] = input.split(/\s+/);
+        if (!to || !(parseFloat(amount) > 0) || !FUNDING_ASSETS.includes(asset.toUpperCase() as FundingAsset)) {
+          console.log('❌ Usage: /send <amount> <eth|usdc> <address>');
+          console.log('   e.g. /send 0.01 eth 0x4bEf0221d6F7Dd0C969fe46a4e9b339a84F52FDF');
+          return;
+        }
+        await this.sendTokens(parseFloat(amount), asset.toUpperCase() as FundingAsset, to);
+        break;
+      }
+
+      case '/lots':
+        this.showOpenLots(parts[1]?.toUpperCase());
+        break;
+
+      case '/export': {
+        const options: TaxExportOptions = {};
+        let directory = './exports';
+        // The directory is case-sensitive, so read arguments from the raw input
+        for (const arg of input.split(/\s+/).slice(1)) {
+          const [key, value] = arg.split('=');
+          if (['fifo', 'lifo', 'hifo', 'specific'].includes(key.toLowerCase()) && value === undefined) {
+            options.method = key.toLowerCase() as LotMethod;
+          } else if (key === 'year' && /^\d{4}$/.test(value || '')) {
+            options.from = new Date(`${value}-01-01T00:00:00.000Z`);
+            options.to = new Date(`${value}-12-31T23:59:59.999Z`);
+          } else if (key === 'dir' && value) {
+            directory = value;
+          } else {
+            console.log('❌ Usage: /export [fifo|hifo|lifo|specific] [year=YYYY] [dir=./exports]');
+            return;
+          }
+        }
+        await this.exportTaxReport(directory, options);
+        break;
+      }
+
+      case '/risk':
+        this.showRiskStatus();
+        break;
+
+      case '/kill':
+        if (!['on', 'off'].includes(parts[1])) {
+          console.log('❌ Usage: /kill on|off');
+          return;
+        }
+        await this.toggleKillSwitch(parts[1] === 'on');
+        break;
+
       case '/exit':
         console.log('👋 Goodbye! Happy trading!');
         await this.agent.close();
@@ -115,15 +398,33 @@ export class TradingAgentChat {
     console.log("  /help - Show this help message");
     console.log("  /balance - Check account balance");
     console.log("  /portfolio - View portfolio value");
-    console.log("  /buy <amount> <symbol> - Market buy order");
-    console.log("  /sell <amount> <symbol> - Market sell order");
+    console.log("  /products [search] - List tradable products with their size and price increments");
+    console.log("  /accounts [use|new|import <name>] - List, switch, create or import trading accounts");
+    console.log("  /fund [eth|usdc] - Request testnet ETH and USDC from the faucet");
+    console.log("  /send <amount> <eth|usdc> <address> - Send tokens to another address, after confirming");
+    console.log("  /buy <amount|$notional> <symbol> - Market buy order, sized in the base asset or in dollars");
+    console.log("  /sell <amount|$notional> <symbol> [lots=<lotId,...>] - Market sell order, optionally from specific lots");
     console.log("  /limit buy <amount> <symbol> <price> - Limit buy order");
     console.log("  /limit sell <amount> <symbol> <price> - Limit sell order");
+    console.log("  /stop buy|sell <amount> <symbol> <stop> [limit] - Stop-market or stop-limit order");
+    console.log("  /tp buy|sell <amount> <symbol> <price> [stop=<price>] - Take-profit, optionally OCO with a stop");
+    console.log("  /trail buy|sell <amount> <symbol> <percent%|amount> - Trailing stop");
+    console.log("  /orders - List open and armed orders");
+    console.log("  /rebalance <ASSET=percent ...> [band=5] [min=10] [buffer=0] - Preview and confirm a rebalance");
+    console.log("  /cancel <orderId> - Cancel an open order");
+    console.log("  /backtest <strategy> <candles.csv> <symbol> [key=value ...] - Backtest a strategy");
+    console.log("  /report [fifo|lifo|hifo|average] [from=YYYY-MM-DD] [to=YYYY-MM-DD] [product=] [strategy=] - Performance report");
+    console.log("  /lots [symbol] - List open tax lots");
+    console.log("  /export [fifo|hifo|lifo|specific] [year=YYYY] [dir=./exports] - Export tax lots and transactions as CSV");
+    console.log("  /risk - Show risk limits and today's P&L");
+    console.log("  /kill on|off - Engage or release the trading kill switch");
     console.log("  /exit - Exit the chat");
-    console.log("\n💡 You can also type natural language questions like:");
+    console.log("\n💡 You can also type natural language requests like:");
     console.log("  - 'What's my balance?'");
     console.log("  - 'Buy 100 dollars worth of Bitcoin'");
-    console.log("  - 'Show me my portfolio'\n");
+    console.log("  - 'Alert me when ETH drops below 2500'");
+    console.log("  - 'Show my last 5 trades'");
+    console.log("  Trades, alerts and strategies are echoed back and only run after you type 'yes'.\n");
   }
 
   private async showBalance() {
@@ -131,8 +432,36 @@ export class TradingAgentChat {
       const balance = await this.agent.getAccountBalance();
       console.log('\n💰 Account Balance:');
       console.log(`   Address: ${balance.address}`);
-      console.log('   Balances: (Balance checking not fully implemented yet)');
-      console.log('   Note: This is a test environment\n');
+
+      // On-chain balances are listed per network, then totalled per asset
+      const networks = 'networks' in balance ? balance.networks : [];
+      for (const network of networks) {
+        console.log(`   🌐 ${NETWORKS[network.network].name}:`);
+        if (network.error) {
+          console.log(`     ⚠️  Couldn't read balances: ${network.error}`);
+        } else if (network.balances.length === 0) {
+          console.log('     (no token balances)');
+        }
+        network.balances.forEach((entry) => console.log(`     ${entry.asset}: ${entry.amount}`));
+      }
+
+      // A single network's list already shows everything
+      if (networks.length !== 1 && balance.balances.length > 0) {
+        console.log(networks.length > 1 ? '   Total across networks:' : '   Token Balances:');
+        balance.balances.forEach((entry: any) => {
+          console.log(`     ${entry.symbol}: ${entry.balance}`);
+        });
+      } else if (networks.length === 0) {
+        console.log('   Balances: (no token balances)');
+      }
+      const config = this.agent.getNetworkConfig();
+      const empty = networks.length > 0 && networks.every((network) => !network.error && network.balances.length === 0);
+      if (empty && FAUCET_NETWORKS.includes(config?.networks[0])) {
+        console.log('   💡 New account? /fund requests testnet ETH and USDC from the faucet');
+      }
+      console.log(config?.mainnet
+        ? '   ⚠️  Mainnet: these are real funds\n'
+        : config ? '   Note: This is a test network\n' : '   Note: Paper trading balances\n');
     } catch (error) {
       console.error('❌ Failed to get balance:', error);
     }
@@ -140,74 +469,402 @@ export class TradingAgentChat {
 
   private async showPortfolio() {
     try {
-      const portfolio = await this.agent.getPortfolioValue();
+      const portfolio = await this.agent.analyzePortfolio();
       console.log('\n📊 Portfolio Summary:');
-      console.log(`   Total Value: $${portfolio.totalValue}`);
-      console.log(`   Last Updated: ${portfolio.lastUpdated}`);
-      console.log('   Holdings: (No holdings to display)\n');
+      console.log(`   Total Value: $${portfolio.totalValue.toFixed(2)}`);
+      if (portfolio.change24h !== null) {
+        const sign = portfolio.change24h >= 0 ? '+' : '';
+        console.log(`   24h Change: ${sign}$${portfolio.change24h.toFixed(2)} (${sign}${portfolio.performance24h.toFixed(2)}%)`);
+      } else {
+        console.log('   24h Change: (no snapshot from 24h ago yet)');
+      }
+
+      if (portfolio.holdings.length === 0) {
+        console.log('   Holdings: (No holdings to display)\n');
+        return;
+      }
+
+      console.log('   Holdings:');
+      for (const holding of portfolio.holdings) {
+        const price = holding.price !== null ? `@ $${holding.price.toFixed(2)}` : '@ (no price)';
+        const pnl = holding.unrealizedPnl !== null
+          ? `, P&L ${holding.unrealizedPnl >= 0 ? '+' : ''}$${holding.unrealizedPnl.toFixed(2)} (${holding.unrealizedPnlPercent.toFixed(1)}%) on cost $${holding.costBasis.toFixed(2)}`
+          : '';
+        console.log(`     ${holding.asset}: ${holding.amount} ${price} = $${holding.value.toFixed(2)} (${holding.allocation.toFixed(1)}%)${pnl}`);
+      }
+      console.log(`   Last Updated: ${portfolio.valuedAt.toLocaleString()}\n`);
     } catch (error) {
       console.error('❌ Failed to get portfolio:', error);
     }
   }
 
+  // A leading "$" sizes the order by notional, e.g. "$100"
   private async executeBuy(amount: string, symbol: string) {
-    try {
-      console.log(`\n🟢 Executing market buy order...`);
-      const trade = await this.agent.marketBuy(symbol.toUpperCase(), amount);
-      console.log(`✅ Buy order completed!`);
-      console.log(`   ${trade.amount} ${trade.productId} at ~$${trade.executedPrice?.toFixed(2)}\n`);
-    } catch (error) {
-      console.error('❌ Buy order failed:', error);
-    }
+    console.log(`\n🟢 Executing market buy order...`);
+    const trade = amount.startsWith('$')
+      ? await this.agent.marketBuyNotional(symbol.toUpperCase(), amount.slice(1))
+      : await this.agent.marketBuy(symbol.toUpperCase(), amount);
+    console.log(`✅ Buy order completed!`);
+    console.log(`   ${trade.amount} ${trade.productId} at ~$${trade.executedPrice?.toFixed(2)}\n`);
   }
 
-  private async executeSell(amount: string, symbol: string) {
-    try {
-      console.log(`\n🔴 Executing market sell order...`);
-      const trade = await this.agent.marketSell(symbol.toUpperCase(), amount);
-      console.log(`✅ Sell order completed!`);
-      console.log(`   ${trade.amount} ${trade.productId} at ~$${trade.executedPrice?.toFixed(2)}\n`);
-    } catch (error) {
-      console.error('❌ Sell order failed:', error);
+  private async executeSell(amount: string, symbol: string, lotIds?: string[]) {
+    if (amount.startsWith('$') && lotIds) {
+      throw new Error('lots= needs a base amount, not a dollar amount');
     }
+    console.log(`\n🔴 Executing market sell order...`);
+    const trade = amount.startsWith('$')
+      ? await this.agent.marketSellNotional(symbol.toUpperCase(), amount.slice(1))
+      : await this.agent.marketSell(symbol.toUpperCase(), amount, lotIds);
+    console.log(`✅ Sell order completed!`);
+    console.log(`   ${trade.amount} ${trade.productId} at ~$${trade.executedPrice?.toFixed(2)}\n`);
   }
 
   private async executeLimitOrder(side: string, amount: string, symbol: string, price: string) {
-    try {
-      console.log(`\n📋 Executing ${side} limit order...`);
-      const trade = side === 'buy'
-        ? await this.agent.limitBuy(symbol.toUpperCase(), amount, price)
-        : await this.agent.limitSell(symbol.toUpperCase(), amount, price);
+    console.log(`\n📋 Executing ${side} limit order...`);
+    const trade = side === 'buy'
+      ? await this.agent.limitBuy(symbol.toUpperCase(), amount, price)
+      : await this.agent.limitSell(symbol.toUpperCase(), amount, price);
+
+    console.log(`✅ ${side.charAt(0).toUpperCase() + side.slice(1)} limit order placed!`);
+    console.log(`   ${trade.amount} ${trade.productId} at $${trade.limitPrice}\n`);
+  }
+
+  private async showPerformanceReport(options: PerformanceReportOptions) {
+    const report = await this.agent.generatePerformanceReport(options);
+    console.log(`\n${formatPerformanceReport(report)}\n`);
+  }
+
+  private async showAccounts() {
+    const accounts = await this.agent.listAccounts();
+    console.log('\n👛 Accounts:');
+    for (const account of accounts) {
+      console.log(`   ${account.active ? '👉' : '  '} ${account.name}: ${account.address}`);
+    }
+    console.log('   Switch with /accounts use <name>, create one with /accounts new <name>\n');
+  }
+
+  private async manageAccount(action: 'use' | 'new' | 'import', name: string) {
+    if (action === 'import') {
+      // Asked for separately so the key stays out of the command line and the audit log
+      const privateKey = (await this.ask('🔑 Private key (hex): ')).trim();
+      const imported = await this.agent.importAccount(name, privateKey);
+      console.log(`📥 Imported ${imported.name}: ${imported.address}`);
+    }
+    const account = await this.agent.useAccount(name, { create: action === 'new' });
+    console.log(`✅ Now using account ${account.name} (${account.address})\n`);
+  }
+
+  private async fundAccount(assets?: FundingAsset[]) {
+    console.log('\n🚰 Requesting testnet funds and waiting for them to confirm...');
+    const funded = await this.agent.fundAccount(assets);
+    for (const drip of funded) {
+      const outcome = drip.status === 'success' ? `confirmed in block ${drip.blockNumber}` : 'reverted';
+      console.log(`   ${drip.asset}: ${drip.transactionHash} ${outcome}`);
+    }
+    await this.showBalance();
+  }
+
+  private async sendTokens(amount: number, asset: FundingAsset, to: string) {
+    const config = this.agent.getNetworkConfig();
+    if (!config) {
+      throw new Error('Paper trading has no on-chain wallet to send from');
+    }
+    const problem = recipientProblem(to, this.agent.getAccount().address);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    console.log(`\n📤 Send ${amount} ${asset} to ${to} on ${NETWORKS[config.networks[0]].name}`);
+    if (config.mainnet) {
+      console.log("   ⚠️  Mainnet: this moves real funds and can't be undone");
+    }
+    const answer = await this.ask('❓ Confirm transfer? (yes/no) ');
+    if (answer.trim().toLowerCase() !== 'yes') {
+      console.log('🚫 Transfer cancelled, nothing sent\n');
+      return;
+    }
+
+    const transfer = await this.agent.sendTokens(amount, asset, to);
+    console.log(`✅ Sent ${transfer.amount} ${transfer.asset}, confirmed in block ${transfer.blockNumber}: ${transfer.transactionHash}\n`);
+  }
+
+  private showProducts(query?: string) {
+    const products = this.agent.listProducts(query);
+    if (products.length === 0) {
+      console.log(`\n📭 No products${query ? ` matching ${query.toUpperCase()}` : ' loaded'}\n`);
+      return;
+    }
+
+    console.log('\n🗂️  Products:');
+    for (const product of products) {
+      const status = product.status !== 'online' || product.tradingDisabled ? ` [${product.status}]` : '';
+      const minimum = product.baseMinSize ? `, min ${product.baseMinSize}` : '';
+      const funds = product.minMarketFunds ? `, min $${product.minMarketFunds}` : '';
+      console.log(`   ${product.productId}${status}: size step ${product.baseIncrement}${minimum}, price step ${product.quoteIncrement}${funds}`);
+    }
+    console.log('');
+  }
 
-      console.log(`✅ ${side.charAt(0).toUpperCase() + side.slice(1)} limit order placed!`);
-      console.log(`   ${trade.amount} ${trade.productId} at $${trade.limitPrice}\n`);
+  private showOpenLots(productId?: string) {
+    const lots = this.agent.getOpenLots(productId);
+    if (lots.length === 0) {
+      console.log('\n📭 No open lots\n');
+      return;
+    }
+
+    console.log('\n🧾 Open Lots (FIFO order):');
+    for (const lot of lots) {
+      console.log(
+        `   ${lot.id}: ${lot.amount} ${lot.productId} bought ${lot.acquiredAt.toISOString().slice(0, 10)} ` +
+        `at $${lot.costPerUnit.toFixed(2)}${lot.strategyId ? ` (${lot.strategyId})` : ''}`
+      );
+    }
+    console.log('');
+  }
+
+  private async exportTaxReport(directory: string, options: TaxExportOptions) {
+    const { disposals, disposalsFile, transactionsFile } = await this.agent.exportTaxReport(directory, options);
+    const gain = disposals.reduce((sum, row) => sum + (row.gainLoss || 0), 0);
+    const missing = disposals.filter((row) => row.costBasis === null).length;
+
+    console.log(`\n🧾 Exported ${disposals.length} disposals (${options.method || 'fifo'}), net gain/loss $${gain.toFixed(2)}`);
+    console.log(`   Disposals: ${disposalsFile}`);
+    console.log(`   Transactions: ${transactionsFile}`);
+    if (missing > 0) {
+      console.log(`   ⚠️  ${missing} disposals have no recorded purchase; fill in their cost basis before filing`);
+    }
+    console.log('');
+  }
+
+  private showRiskStatus() {
+    const { limits, dailyRealizedPnl, ordersLastMinute } = this.agent.getRiskStatus();
+    const positions = Object.entries(limits.maxPositionSize || {})
+      .map(([asset, amount]) => `${asset} ${amount}`)
+      .join(', ');
+
+    console.log('\n🛡️  Risk Limits:');
+    console.log(`   Kill switch: ${limits.killSwitch ? 'ENGAGED' : 'off'}`);
+    console.log(`   Allowed products: ${limits.allowedProducts?.length ? limits.allowedProducts.join(', ') : 'all'}`);
+    console.log(`   Max position: ${positions || 'none'}`);
+    console.log(`   Max order notional: ${limits.maxOrderNotional !== undefined ? `$${limits.maxOrderNotional}` : 'none'}`);
+    console.log(`   Max daily loss: ${limits.maxDailyLoss !== undefined ? `$${limits.maxDailyLoss}` : 'none'}`);
+    console.log(`   Orders per minute: ${ordersLastMinute}/${limits.maxOrdersPerMinute ?? '∞'}`);
+    console.log(`   Oversized orders are ${limits.resizeOrders ? 'resized' : 'rejected'}`);
+    console.log(`   Realized P&L today: $${dailyRealizedPnl.toFixed(2)}\n`);
+  }
+
+  private async toggleKillSwitch(engage: boolean) {
+    if (engage) {
+      const cancelled = await this.agent.engageKillSwitch();
+      console.log(`🛑 Kill switch engaged. Trading halted and ${cancelled} open orders cancelled.\n`);
+    } else {
+      this.agent.releaseKillSwitch();
+      console.log('✅ Kill switch released. Trading resumed.\n');
+    }
+  }
+
+  private async placeStopOrder(side: 'buy' | 'sell', amount: string, symbol: string, stopPrice: string, limitPrice?: string) {
+    const order = await this.agent.stopOrder(symbol.toUpperCase(), side, amount, stopPrice, limitPrice);
+    console.log(`🛡️  ${order.orderType} ${side} order ${order.id} placed`);
+    console.log(`   ${order.amount} ${order.productId}, triggers at $${order.stopPrice}${limitPrice ? `, limit $${limitPrice}` : ''}\n`);
+  }
+
+  private async placeTakeProfit(side: 'buy' | 'sell', amount: string, symbol: string, triggerPrice: string, stopPrice?: string) {
+    const productId = symbol.toUpperCase();
+    if (!stopPrice) {
+      const order = await this.agent.takeProfitOrder(productId, side, amount, triggerPrice);
+      console.log(`🎯 Take-profit ${side} order ${order.id} placed`);
+      console.log(`   ${order.amount} ${order.productId}, triggers at $${order.stopPrice}\n`);
+      return;
+    }
+
+    const [takeProfit, stop] = await this.agent.placeOcoOrders([
+      { productId, orderType: 'take_profit', side, amount, stopPrice: triggerPrice },
+      { productId, orderType: 'stop_market', side, amount, stopPrice }
+    ]);
+    console.log(`🔗 OCO ${side} orders placed for ${amount} ${productId}`);
+    console.log(`   Take-profit ${takeProfit.id} at $${triggerPrice}`);
+    console.log(`   Stop-loss ${stop.id} at $${stopPrice}`);
+    console.log('   Whichever triggers first cancels the other.\n');
+  }
+
+  private async placeTrailingStop(side: 'buy' | 'sell', amount: string, symbol: string, trail: string) {
+    const order = await this.agent.trailingStopOrder(
+      symbol.toUpperCase(),
+      side,
+      amount,
+      trail.endsWith('%') ? { percent: trail.slice(0, -1) } : { amount: trail }
+    );
+    console.log(`🪢 Trailing stop ${side} order ${order.id} placed, trailing by ${trail}`);
+    if (order.stopPrice) {
+      console.log(`   Current stop: $${parseFloat(order.stopPrice).toFixed(2)}`);
+    }
+    console.log('');
+  }
+
+  private async rebalance(targets: Map<string, number>, options: RebalanceOptions) {
+    const plan = await this.agent.previewRebalance(targets, options);
+    console.log('\n' + formatRebalancePlan(plan));
+    if (plan.trades.length === 0) {
+      console.log('');
+      return;
+    }
+
+    const answer = await this.ask(`\n❓ Execute these ${plan.trades.length} trades? (yes/no) `);
+    if (answer.trim().toLowerCase() !== 'yes') {
+      console.log('🚫 Rebalance cancelled, no trades placed\n');
+      return;
+    }
+
+    const { executed, failed } = await this.agent.executeRebalancePlan(plan);
+    console.log(`✅ Rebalance complete: ${executed.length} trades executed`);
+    for (const entry of failed) {
+      console.log(`   ❌ ${entry.side.toUpperCase()} ${entry.productId}: ${entry.error}`);
+    }
+    console.log('');
+  }
+
+  private ask(question: string): Promise<string> {
+    return new Promise((resolve) => this.rl.question(question, resolve));
+  }
+
+  private showOpenOrders() {
+    const orders = this.agent.listOpenOrders();
+    if (orders.length === 0) {
+      console.log('\n📋 No open orders\n');
+      return;
+    }
+
+    console.log('\n📋 Open Orders:');
+    for (const order of orders) {
+      const price = order.stopPrice && !order.triggeredAt
+        ? `stop $${parseFloat(order.stopPrice).toFixed(2)}`
+        : order.limitPrice ? `limit $${parseFloat(order.limitPrice).toFixed(2)}` : 'waiting for price';
+      const links = [order.ocoGroupId && 'OCO', order.parentOrderId && `after ${order.parentOrderId}`].filter(Boolean);
+      console.log(`   ${order.id}: ${order.orderType} ${order.side.toUpperCase()} ${order.amount} ${order.productId} @ ${price}${links.length ? ` (${links.join(', ')})` : ''}`);
+    }
+    console.log('');
+  }
+
+  private async cancelOrder(orderId: string) {
+    const cancelled = await this.agent.cancelOrder(orderId);
+    console.log(cancelled ? `🗑️  Order ${orderId} cancelled\n` : `❌ No open order ${orderId}\n`);
+  }
+
+  private async runBacktest(type: StrategyType, file: string, symbol: string, params: string[]) {
+    try {
+      console.log(`\n⏳ Running ${type} backtest on ${symbol.toUpperCase()}...`);
+      const result = await runBacktest({
+        productId: symbol.toUpperCase(),
+        candles: loadCandlesFromCsv(file),
+        strategy: { type: type.toLowerCase() as StrategyType, parameters: parseParameterArgs(params) }
+      });
+      console.log(formatBacktestReport(result) + '\n');
     } catch (error) {
-      console.error(`❌ ${side} limit order failed:`, error);
+      console.error('❌ Backtest failed:', error instanceof Error ? error.message : error);
     }
   }
 
+  // Parses free text into an intent, echoes it, and only acts on an explicit "yes"
   private async handleNaturalLanguage(input: string) {
-    if (!this.openaiKey) {
-      console.log("🤖 Natural language processing not available.");
-      console.log("   Set OPENAI_API_KEY in .env file to enable this feature.");
-      console.log("   For now, please use the /help command to see available commands.\n");
+    const { intent, source } = await parseIntent(input, this.intentClient);
+
+    if (intent.type === 'unknown') {
+      console.log(`🤖 ${intent.reason}`);
+      console.log("   Try e.g. 'buy $100 of bitcoin', 'sell 0.01 eth' or 'alert me when btc drops below 60000'.");
+      console.log('   Type /help to see all available commands.\n');
+      return;
+    }
+    const permission = INTENT_PERMISSIONS[intent.type] || 'read';
+    if (!(await this.authorize(permission, describeIntent(intent)))) {
       return;
     }
+    if (!intentRequiresConfirmation(intent)) {
+      await this.audited(describeIntent(intent), () => this.runIntent(intent));
+      return;
+    }
+    console.log(`\n🤖 I understood${source === 'rules' ? ' (rule-based)' : ''}: ${describeIntent(intent)}`);
 
-    // Simple pattern matching for common queries
-    const lowerInput = input.toLowerCase();
+    // Dollar trades go out as notional orders; the estimate shows roughly what that buys now
+    if (intent.type === 'trade' && intent.quoteAmount !== undefined) {
+      const price = await this.agent.getCurrentPrice(intent.productId);
+      const amount = quoteToBaseAmount(intent.quoteAmount, price);
+      console.log(`   ≈ ${amount} ${intent.productId.split('-')[0]} at $${price.toFixed(2)}`);
+    }
 
-    if (lowerInput.includes('balance') || lowerInput.includes('account')) {
-      await this.showBalance();
-    } else if (lowerInput.includes('portfolio') || lowerInput.includes('holdings')) {
-      await this.showPortfolio();
-    } else if (lowerInput.includes('help') || lowerInput.includes('command')) {
-      this.showHelp();
-    } else {
-      console.log("🤖 I understand you're asking about trading, but I need more specific commands.");
-      console.log("   Try using commands like /balance, /portfolio, or /buy.\n");
-      console.log("   Type /help to see all available commands.\n");
+    const answer = await this.ask('❓ Type "yes" to confirm: ');
+    if (answer.trim().toLowerCase() !== 'yes') {
+      console.log('🚫 Cancelled, nothing was done\n');
+      return;
+    }
+    await this.audited(describeIntent(intent), () => this.runIntent(intent));
+  }
+
+  private async runIntent(intent: TradeIntent) {
+    switch (intent.type) {
+      case 'trade': {
+        const amount = intent.quoteAmount !== undefined ? `$${intent.quoteAmount}` : intent.amount;
+        if (intent.side === 'buy') {
+          await this.executeBuy(amount, intent.productId);
+        } else {
+          await this.executeSell(amount, intent.productId);
+        }
+        break;
+      }
+
+      case 'alert': {
+        const alertId = this.agent.createPriceAlert(intent.productId, intent.targetPrice, intent.condition);
+        console.log(`🔔 Alert ${alertId} set: ${intent.productId} ${intent.condition} $${intent.targetPrice}\n`);
+        break;
+      }
+
+      case 'strategy': {
+        const amount = intent.quoteAmount !== undefined ? { quoteAmount: intent.quoteAmount } : intent.amount;
+        const strategyId = this.agent.createDCAStrategy(intent.productId, amount, intent.intervalMinutes);
+        console.log(`📅 DCA strategy ${strategyId} created\n`);
+        break;
+      }
+
+      case 'history':
+        this.showHistory(intent.limit, intent.productId);
+        break;
+
+      case 'balance':
+        await this.showBalance();
+        break;
+
+      case 'portfolio':
+        await this.showPortfolio();
+        break;
+
+      case 'help':
+        this.showHelp();
+        break;
+    }
+  }
+
+  private showHistory(limit: number, productId?: string) {
+    const orders = this.agent.getOrderHistory()
+      .filter((order) => order.fills.length > 0 && (!productId || order.productId === productId))
+      .slice(-limit)
+      .reverse();
+    if (orders.length === 0) {
+      console.log('\n📭 No trades yet\n');
+      return;
+    }
+
+    console.log(`\n📜 Last ${orders.length} trades:`);
+    for (const order of orders) {
+      console.log(
+        `   ${new Date(order.updatedAt).toLocaleString()} ${order.side.toUpperCase()} ${order.filledAmount} ` +
+        `${order.productId} at ~$${order.executedPrice?.toFixed(2)} (${order.status})`
+      );
+      for (const { settlement } of order.fills.filter((fill) => fill.settlement)) {
+        console.log(`      ⛓️  ${settlement.network} tx ${settlement.transactionHash}, gas ${settlement.gasCost} ${settlement.nativeAsset}`);
+      }
     }
+    console.log('');
   }
 
   close() {
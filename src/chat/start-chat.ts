@@ -0,0 +1,66 @@
+import { CoinbaseTradingAgent } from "../agent";
+import { TradingAgentChat } from "./chat-interface";
+import { initializeTradingRepository } from "../database/trading-repository";
+import { accountNameFromArgs } from "../accounts";
+import { AuditLog } from "../auth";
+
+// Starts the agent and the terminal chat on top of it; shared by `npm start` and `npm run chat`
+export async function startChat() {
+  console.log("🚀 Initializing Coinbase Trading Agent...\n");
+
+  // Initialize the trading agent
+  const agent = new CoinbaseTradingAgent();
+
+  try {
+    // Initialize with AI features enabled; orders, alerts and strategies are kept in DATA_DIR across restarts
+    const repository = initializeTradingRepository(process.env.DATA_DIR || "./data");
+    await agent.initialize({
+      aiEnabled: true,
+      repository,
+      // --account <name> picks the CDP account; otherwise CDP_ACCOUNT_NAME or the last one used
+      account: accountNameFromArgs(process.argv.slice(2))
+    });
+
+    // Optional: Set up some default strategies
+    console.log("Setting up default configurations...\n");
+
+    // Create a DCA strategy (disabled by default); restored strategies already include it after the first run
+    if (!agent.listStrategies().some((strategy) => strategy.type === "dca" && strategy.productId === "BTC-USD")) {
+      const dcaId = agent.createDCAStrategy("BTC-USD", "0.001", 1440); // Daily
+      await agent.disableStrategy(dcaId); // Disable until user enables it
+    }
+
+    // Set up event listeners for important events
+    agent.on("priceAlert", (data) => {
+      console.log("\n🚨 PRICE ALERT TRIGGERED!");
+      console.log(`   ${data.productId}: $${data.currentPrice.toFixed(2)}`);
+      console.log(`   Target: $${data.targetPrice}\n`);
+    });
+
+    agent.on("tradeExecuted", (trade) => {
+      console.log("\n✅ TRADE EXECUTED!");
+      console.log(`   ${trade.side.toUpperCase()} ${trade.amount} ${trade.productId}`);
+      console.log(`   Price: $${trade.executedPrice?.toFixed(2)}`);
+      console.log(`   Time: ${new Date(trade.timestamp).toLocaleTimeString()}\n`);
+    });
+
+    // Get OpenAI API key from environment (optional)
+    const openaiKey = process.env.OPENAI_API_KEY;
+
+    if (!openaiKey) {
+      console.log("⚠️  OpenAI API key not found. Natural language uses the built-in rule-based parser.");
+      console.log("   Set OPENAI_API_KEY (or LLM_BASE_URL) in .env for LLM-backed understanding.\n");
+    } else {
+      console.log("✅ OpenAI integration enabled for natural language understanding.\n");
+    }
+
+    // Start the chat interface
+    // Commands are checked against CHAT_ROLE and recorded in the audit log next to the trade history
+    const chat = new TradingAgentChat(agent, openaiKey, undefined, { audit: new AuditLog(repository) });
+    await chat.start();
+
+  } catch (error) {
+    console.error("❌ Error starting trading agent:", error);
+    process.exit(1);
+  }
+}
@@ -1,8 +1,19 @@
 import { PostgresDatabaseAdapter } from "@elizaos/adapter-postgres";
 import { SqliteDatabaseAdapter } from "@elizaos/adapter-sqlite";
 import Database from "better-sqlite3";
+import fs from "fs";
 import path from "path";
 
+export { SqlDriver, PostgresDriver, SqliteDriver } from "./sql-driver";
+export { MIGRATIONS, runMigrations } from "./migrations";
+export {
+  initializeTradingRepository,
+  SqlTradingRepository,
+  StoredAlert,
+  StoredStrategy,
+  TradingRepository
+} from "./trading-repository";
+
 export function initializeDatabase(dataDir: string) {
   if (process.env.POSTGRES_URL) {
     const db = new PostgresDatabaseAdapter({
@@ -10,8 +21,8 @@ export function initializeDatabase(dataDir: string) {
     });
     return db;
   } else {
-    // Use in-memory database to avoid native bindings issues
-    const db = new SqliteDatabaseAdapter(new Database(":memory:"));
+    fs.mkdirSync(dataDir, { recursive: true });
+    const db = new SqliteDatabaseAdapter(new Database(path.join(dataDir, "db.sqlite")));
     return db;
   }
 }
@@ -0,0 +1,125 @@
+import { SqlDriver } from "./sql-driver";
+
+interface Migration {
+  version: number;
+  name: string;
+  // Must be valid on both SQLite and Postgres
+  up: string;
+}
+
+// Append new migrations to the end; never edit one that has shipped
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_trading_tables",
+    up: `
+      CREATE TABLE IF NOT EXISTS price_alerts (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        active INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS strategies (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        enabled INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS orders (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        strategy_id TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_orders_status ON orders (status);
+      CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders (created_at);
+      CREATE TABLE IF NOT EXISTS market_data (
+        product_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS agent_state (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 2,
+    name: "create_portfolio_snapshots",
+    up: `
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        taken_at TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 3,
+    name: "create_audit_log",
+    up: `
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        occurred_at TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log (occurred_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor);
+    `
+  },
+  {
+    version: 4,
+    name: "add_account_to_portfolio_snapshots",
+    // Earlier snapshots keep an empty account, like other records that predate account selection
+    up: `
+      CREATE TABLE portfolio_snapshots_by_account (
+        account TEXT NOT NULL,
+        taken_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (account, taken_at)
+      );
+      INSERT INTO portfolio_snapshots_by_account (account, taken_at, data)
+        SELECT '', taken_at, data FROM portfolio_snapshots;
+      DROP TABLE portfolio_snapshots;
+      ALTER TABLE portfolio_snapshots_by_account RENAME TO portfolio_snapshots;
+    `
+  }
+];
+
+// Applies any migrations newer than the recorded schema version, each in its own transaction
+export async function runMigrations(driver: SqlDriver): Promise<number[]> {
+  await driver.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const rows = await driver.query<{ version: number }>("SELECT version FROM schema_migrations");
+  const applied = new Set(rows.map((row) => Number(row.version)));
+  const newlyApplied: number[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+
+    await driver.execTransaction(`
+      ${migration.up}
+      INSERT INTO schema_migrations (version, name, applied_at)
+        VALUES (${migration.version}, '${migration.name}', '${new Date().toISOString()}');
+    `);
+    newlyApplied.push(migration.version);
+  }
+
+  return newlyApplied;
+}
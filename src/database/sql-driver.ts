@@ -0,0 +1,87 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { Pool } from "pg";
+
+/**
+ * The handful of operations the trading repository needs, so the same SQL
+ * runs on SQLite and Postgres. Queries use "?" placeholders on both.
+ */
+export interface SqlDriver {
+  readonly dialect: "sqlite" | "postgres";
+  // Runs one or more statements without parameters (migrations)
+  exec(sql: string): Promise<void>;
+  // Same as exec(), but all statements commit or roll back together
+  execTransaction(sql: string): Promise<void>;
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+  run(sql: string, params?: any[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class SqliteDriver implements SqlDriver {
+  readonly dialect = "sqlite";
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+  }
+
+  async exec(sql: string): Promise<void> {
+    this.db.exec(sql);
+  }
+
+  async execTransaction(sql: string): Promise<void> {
+    this.db.transaction(() => this.db.exec(sql))();
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    return this.db.prepare(sql).all(...params) as T[];
+  }
+
+  async run(sql: string, params: any[] = []): Promise<void> {
+    this.db.prepare(sql).run(...params);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export class PostgresDriver implements SqlDriver {
+  readonly dialect = "postgres";
+  private pool: Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+  }
+
+  async exec(sql: string): Promise<void> {
+    await this.pool.query(sql);
+  }
+
+  async execTransaction(sql: string): Promise<void> {
+    // A multi-statement simple query already runs as a single implicit transaction
+    await this.pool.query(sql);
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const result = await this.pool.query(toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  async run(sql: string, params: any[] = []): Promise<void> {
+    await this.pool.query(toPositional(sql), params);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+// Postgres numbers its placeholders: "a = ? AND b = ?" becomes "a = $1 AND b = $2"
+function toPositional(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
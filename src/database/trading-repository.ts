@@ -0,0 +1,208 @@
+import path from "path";
+import { AuditEntry } from "../auth/types";
+import { MarketData } from "../market-data";
+import { Order } from "../orders";
+import { PortfolioSnapshot } from "../portfolio/types";
+import { runMigrations } from "./migrations";
+import { PostgresDriver, SqlDriver, SqliteDriver } from "./sql-driver";
+
+// Alerts and strategies are stored whole; callbacks and other functions are dropped
+export interface StoredAlert {
+  id: string;
+  productId: string;
+  active: boolean;
+  [key: string]: any;
+}
+
+export interface StoredStrategy {
+  id: string;
+  productId: string;
+  type: string;
+  enabled: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Everything the trading agent needs to survive a restart. Each entity is
+ * kept as a JSON document with its commonly queried fields alongside.
+ */
+export interface TradingRepository {
+  migrate(): Promise<void>;
+  loadAlerts(): Promise<StoredAlert[]>;
+  saveAlert(alert: StoredAlert): Promise<void>;
+  deleteAlert(alertId: string): Promise<void>;
+  loadStrategies(): Promise<StoredStrategy[]>;
+  saveStrategy(strategy: StoredStrategy): Promise<void>;
+  deleteStrategy(strategyId: string): Promise<void>;
+  loadOrders(): Promise<Order[]>;
+  saveOrder(order: Order): Promise<void>;
+  loadMarketData(): Promise<MarketData[]>;
+  saveMarketData(data: MarketData): Promise<void>;
+  // Latest snapshot of the account taken at or before the given time
+  loadPortfolioSnapshot(before: Date, account: string): Promise<PortfolioSnapshot | null>;
+  // The account's snapshots taken within the range, oldest first
+  loadPortfolioSnapshots(from: Date, to: Date, account: string): Promise<PortfolioSnapshot[]>;
+  savePortfolioSnapshot(snapshot: PortfolioSnapshot): Promise<void>;
+  loadState<T = any>(key: string): Promise<T | null>;
+  saveState(key: string, value: any): Promise<void>;
+  saveAuditEntry(entry: AuditEntry): Promise<void>;
+  // Newest first, 100 entries unless a limit is given
+  loadAuditEntries(query?: { from?: Date; to?: Date; actor?: string; limit?: number }): Promise<AuditEntry[]>;
+  close(): Promise<void>;
+}
+
+export class SqlTradingRepository implements TradingRepository {
+  constructor(private driver: SqlDriver) {}
+
+  async migrate(): Promise<void> {
+    const applied = await runMigrations(this.driver);
+    if (applied.length > 0) {
+      console.log(`💾 Applied ${this.driver.dialect} migrations: ${applied.join(", ")}`);
+    }
+  }
+
+  async loadAlerts(): Promise<StoredAlert[]> {
+    return this.loadDocuments("SELECT data FROM price_alerts");
+  }
+
+  async saveAlert(alert: StoredAlert): Promise<void> {
+    await this.driver.run(
+      `INSERT INTO price_alerts (id, product_id, active, data, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET active = excluded.active, data = excluded.data, updated_at = excluded.updated_at`,
+      [alert.id, alert.productId, alert.active ? 1 : 0, JSON.stringify(alert), now()]
+    );
+  }
+
+  async deleteAlert(alertId: string): Promise<void> {
+    await this.driver.run("DELETE FROM price_alerts WHERE id = ?", [alertId]);
+  }
+
+  async loadStrategies(): Promise<StoredStrategy[]> {
+    return this.loadDocuments("SELECT data FROM strategies");
+  }
+
+  async saveStrategy(strategy: StoredStrategy): Promise<void> {
+    await this.driver.run(
+      `INSERT INTO strategies (id, product_id, type, enabled, data, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET enabled = excluded.enabled, data = excluded.data, updated_at = excluded.updated_at`,
+      [strategy.id, strategy.productId, strategy.type, strategy.enabled ? 1 : 0, JSON.stringify(strategy), now()]
+    );
+  }
+
+  async deleteStrategy(strategyId: string): Promise<void> {
+    await this.driver.run("DELETE FROM strategies WHERE id = ?", [strategyId]);
+  }
+
+  async loadOrders(): Promise<Order[]> {
+    return this.loadDocuments("SELECT data FROM orders ORDER BY created_at");
+  }
+
+  async saveOrder(order: Order): Promise<void> {
+    await this.driver.run(
+      `INSERT INTO orders (id, product_id, status, strategy_id, created_at, data, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data, updated_at = excluded.updated_at`,
+      [order.id, order.productId, order.status, order.strategyId || null, order.timestamp, JSON.stringify(order), now()]
+    );
+  }
+
+  async loadMarketData(): Promise<MarketData[]> {
+    const rows = await this.loadDocuments<MarketData>("SELECT data FROM market_data");
+    return rows.map((data) => ({ ...data, timestamp: new Date(data.timestamp) }));
+  }
+
+  async saveMarketData(data: MarketData): Promise<void> {
+    await this.driver.run(
+      `INSERT INTO market_data (product_id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (product_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [data.productId, JSON.stringify(data), now()]
+    );
+  }
+
+  async loadPortfolioSnapshot(before: Date, account: string): Promise<PortfolioSnapshot | null> {
+    const [snapshot] = await this.loadDocuments<PortfolioSnapshot>(
+      "SELECT data FROM portfolio_snapshots WHERE account IN (?, '') AND taken_at <= ? ORDER BY taken_at DESC LIMIT 1",
+      [account, before.toISOString()]
+    );
+    return snapshot ? { ...snapshot, timestamp: new Date(snapshot.timestamp) } : null;
+  }
+
+  async loadPortfolioSnapshots(from: Date, to: Date, account: string): Promise<PortfolioSnapshot[]> {
+    const snapshots = await this.loadDocuments<PortfolioSnapshot>(
+      "SELECT data FROM portfolio_snapshots WHERE account IN (?, '') AND taken_at >= ? AND taken_at <= ? ORDER BY taken_at",
+      [account, from.toISOString(), to.toISOString()]
+    );
+    return snapshots.map((snapshot) => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }));
+  }
+
+  async savePortfolioSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    await this.driver.run(
+      "INSERT INTO portfolio_snapshots (account, taken_at, data) VALUES (?, ?, ?) ON CONFLICT (account, taken_at) DO NOTHING",
+      [snapshot.account || "", snapshot.timestamp.toISOString(), JSON.stringify(snapshot)]
+    );
+  }
+
+  async loadState<T = any>(key: string): Promise<T | null> {
+    const rows = await this.driver.query<{ data: string }>("SELECT data FROM agent_state WHERE key = ?", [key]);
+    return rows.length > 0 ? JSON.parse(rows[0].data) : null;
+  }
+
+  async saveState(key: string, value: any): Promise<void> {
+    await this.driver.run(
+      `INSERT INTO agent_state (key, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      [key, JSON.stringify(value), now()]
+    );
+  }
+
+  async saveAuditEntry(entry: AuditEntry): Promise<void> {
+    await this.driver.run(
+      "INSERT INTO audit_log (id, occurred_at, actor, action, outcome, data) VALUES (?, ?, ?, ?, ?, ?)",
+      [entry.id, entry.timestamp.toISOString(), entry.actor, entry.action, entry.outcome, JSON.stringify(entry)]
+    );
+  }
+
+  async loadAuditEntries(query: { from?: Date; to?: Date; actor?: string; limit?: number } = {}): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (query.from) {
+      conditions.push("occurred_at >= ?");
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push("occurred_at <= ?");
+      params.push(query.to.toISOString());
+    }
+    if (query.actor) {
+      conditions.push("actor = ?");
+      params.push(query.actor);
+    }
+    params.push(query.limit || 100);
+
+    const entries = await this.loadDocuments<AuditEntry>(
+      `SELECT data FROM audit_log ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""} ORDER BY occurred_at DESC LIMIT ?`,
+      params
+    );
+    return entries.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+
+  private async loadDocuments<T>(sql: string, params: any[] = []): Promise<T[]> {
+    const rows = await this.driver.query<{ data: string }>(sql, params);
+    return rows.map((row) => JSON.parse(row.data));
+  }
+}
+
+// Uses the same backend choice as initializeDatabase(): Postgres when POSTGRES_URL is set, else on-disk SQLite
+export function initializeTradingRepository(dataDir: string): TradingRepository {
+  if (process.env.POSTGRES_URL) {
+    return new SqlTradingRepository(new PostgresDriver(process.env.POSTGRES_URL));
+  }
+  return new SqlTradingRepository(new SqliteDriver(path.join(dataDir, "trading-agent.sqlite")));
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
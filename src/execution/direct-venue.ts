@@ -0,0 +1,34 @@
+import { MarketData } from "../market-data";
+import { executionType, isLimitCrossed, Order, remainingAmount } from "../orders";
+import { ExecutionReport, ExecutionVenue, FillInstruction } from "./types";
+
+/**
+ * Fills orders at the prevailing market price without fees or balance checks.
+ * This is the agent's default ("live") behaviour until an exchange-backed
+ * venue is configured.
+ */
+export class DirectExecutionVenue implements ExecutionVenue {
+  readonly name = "direct";
+
+  async submitOrder(order: Order, market: MarketData | null): Promise<ExecutionReport> {
+    const amount = remainingAmount(order);
+
+    if (executionType(order) === "market") {
+      return { accepted: true, fills: [{ price: market.price, amount, fee: 0 }] };
+    }
+
+    const fills = market && isLimitCrossed(order, market.price)
+      ? [{ price: parseFloat(order.limitPrice), amount, fee: 0 }]
+      : [];
+    return { accepted: true, fills };
+  }
+
+  async matchOrder(order: Order, market: MarketData): Promise<FillInstruction[]> {
+    if (!isLimitCrossed(order, market.price)) return [];
+    return [{ price: parseFloat(order.limitPrice), amount: remainingAmount(order), fee: 0 }];
+  }
+
+  async cancelOrder(order: Order): Promise<void> {
+    // Nothing is reserved for direct orders
+  }
+}
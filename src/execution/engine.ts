@@ -0,0 +1,379 @@
+import { EventEmitter } from "events";
+import { belongsToAccount } from "../accounts";
+import { MarketData } from "../market-data";
+import {
+  executionType,
+  isConditionalOrder,
+  isOrderActive,
+  isTriggered,
+  Order,
+  OrderManager,
+  ORDER_EVENTS,
+  quoteToBaseAmount,
+  remainingAmount,
+  TradeConfig,
+  updateTrailingStop,
+  validateConditionalOrder
+} from "../orders";
+import { normalizeProductId, ProductCatalog } from "../products";
+import { RiskContext, RiskEngine } from "../risk";
+import { ExecutionVenue, FillInstruction } from "./types";
+
+// Everything the engine emits: each order transition, conditional order updates, completed trades and risk decisions
+export const EXECUTION_EVENTS = [
+  ...Object.values(ORDER_EVENTS),
+  "orderTriggered",
+  "orderTrailed",
+  "orderPendingChanged",
+  "tradeExecuted",
+  "riskRejected",
+  "riskResized"
+];
+
+/**
+ * Runs orders through their lifecycle against an ExecutionVenue. Both the
+ * live and paper modes go through here, so callers see identical orders,
+ * events and errors whichever venue is selected.
+ */
+export class ExecutionEngine extends EventEmitter {
+  private orders: OrderManager;
+  // Account stamped on orders that don't name one; only its orders are matched, triggered and counted
+  account: string | null = null;
+
+  constructor(
+    readonly venue: ExecutionVenue,
+    private getMarketData: (productId: string) => Promise<MarketData | null>,
+    private clock: () => Date = () => new Date(),
+    readonly risk: RiskEngine | null = null,
+    // Without a catalog, any product id is passed to the venue as is
+    readonly products: ProductCatalog | null = null
+  ) {
+    super();
+    this.orders = new OrderManager(clock);
+
+    for (const event of Object.values(ORDER_EVENTS)) {
+      this.orders.on(event, (order: Order) => this.emit(event, order));
+    }
+  }
+
+  async submit(request: TradeConfig): Promise<Order> {
+    // "btc/usd" and the like become "BTC-USD", the id market data, risk limits and the catalog use
+    const config = { ...request, productId: normalizeProductId(request.productId) };
+    const order = this.orders.create(this.account && !config.account ? { ...config, account: this.account } : config);
+    const sizedByQuote = config.quoteAmount !== undefined;
+    const limitPrice = config.limitPrice !== undefined ? parseFloat(config.limitPrice) : NaN;
+
+    if (sizedByQuote && config.amount !== undefined) {
+      return this.reject(order, "Give either amount or quoteAmount, not both");
+    }
+    if (sizedByQuote && !(parseFloat(config.quoteAmount) > 0)) {
+      return this.reject(order, `Invalid quote amount: ${config.quoteAmount}`);
+    }
+    if (!sizedByQuote && !(parseFloat(config.amount) > 0)) {
+      return this.reject(order, `Invalid amount: ${config.amount}`);
+    }
+    if (executionType(config) === "limit" && !(limitPrice > 0)) {
+      return this.reject(order, `Invalid limit price: ${config.limitPrice}`);
+    }
+    if (isConditionalOrder(config)) {
+      const problem = validateConditionalOrder(config);
+      if (problem) return this.reject(order, problem);
+    }
+    if (config.parentOrderId && !this.orders.get(config.parentOrderId)) {
+      return this.reject(order, `Unknown parent order: ${config.parentOrderId}`);
+    }
+    if (this.products) {
+      const problem = this.products.checkTradable(config);
+      if (problem) return this.reject(order, problem);
+    }
+
+    let market: MarketData | null = null;
+    try {
+      market = await this.getMarketData(config.productId);
+    } catch (error) {
+      // Limit and conditional orders can rest until market data arrives
+    }
+
+    if (config.orderType === "market" && !market) {
+      return this.reject(order, `No market data available for ${config.productId}`);
+    }
+
+    if (sizedByQuote) {
+      const problem = this.sizeFromQuote(order, market);
+      if (problem) return this.reject(order, problem);
+    }
+
+    if (this.products) {
+      const check = this.products.checkOrder(order, market?.price ?? null);
+      if (check.valid === false) return this.reject(order, check.reason);
+      order.amount = check.amount;
+      if (check.limitPrice !== undefined) order.limitPrice = check.limitPrice;
+      if (check.stopPrice !== undefined) order.stopPrice = check.stopPrice;
+    }
+
+    const rejection = this.applyRiskCheck(order, market);
+    if (rejection) {
+      throw new Error(`Order ${order.id} ${rejection}`);
+    }
+
+    // Conditional orders go to the venue only once triggered
+    if (isConditionalOrder(order)) {
+      this.orders.open(order.id);
+      if (market) {
+        await this.evaluateTrigger(order, market);
+      }
+      return order;
+    }
+
+    let report;
+    try {
+      report = await this.venue.submitOrder(order, market);
+    } catch (error) {
+      report = { accepted: false, reason: error.message, fills: [] };
+    }
+
+    if (!report.accepted) {
+      return this.reject(order, report.reason || "Rejected by venue");
+    }
+
+    // Market orders only come back unfilled from a venue still confirming them (e.g. a sent swap)
+    if (config.orderType === "limit" || report.fills.length === 0) {
+      this.orders.open(order.id);
+    }
+    await this.applyFills(order, report.fills);
+
+    return order;
+  }
+
+  // Expires stale orders and fills resting ones the market has crossed
+  async matchOpenOrders(marketData: Map<string, MarketData>) {
+    for (const order of this.orders.expireStale()) {
+      await this.venue.cancelOrder(order);
+      console.log(`⌛ Order expired: ${order.id}`);
+    }
+
+    for (const order of this.accountOrders(this.orders.listOpen())) {
+      const market = marketData.get(order.productId);
+      if (!market || !isOrderActive(order)) continue;
+
+      if (isConditionalOrder(order) && !order.triggeredAt) {
+        await this.evaluateTrigger(order, market);
+        continue;
+      }
+
+      const pendingTransaction = order.pendingTransaction;
+      const fills = await this.venue.matchOrder(order, market);
+      if (fills.length > 0) {
+        console.log(`🎯 ${order.orderType} ${order.side.toUpperCase()} ${order.id} matched at $${market.price.toFixed(2)}`);
+        await this.applyFills(order, fills);
+      } else if (order.pendingTransaction !== pendingTransaction) {
+        // The venue sent a transaction it is still waiting on, or heard back without a fill
+        this.emit("orderPendingChanged", order);
+      }
+    }
+  }
+
+  async cancel(orderId: string, reason: string = "Cancelled by user"): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order || !isOrderActive(order)) {
+      return false;
+    }
+
+    await this.venue.cancelOrder(order);
+    this.orders.cancel(orderId, reason);
+
+    // Bracket exits have nothing to protect once their entry is gone
+    for (const child of this.orders.listOpen().filter((other) => other.parentOrderId === orderId)) {
+      await this.cancel(child.id, `Parent order ${orderId} cancelled`);
+    }
+    return true;
+  }
+
+  restore(orders: Order[]) {
+    this.orders.restore(orders);
+
+    // Replay past fills so the risk engine knows cost basis and today's P&L
+    if (this.risk) {
+      const fills = orders
+        .flatMap((order) => order.fills.map((fill) => ({ order, fill })))
+        .sort((a, b) => a.fill.timestamp.localeCompare(b.fill.timestamp));
+      for (const { order, fill } of fills) {
+        this.risk.recordFill(order, fill);
+      }
+    }
+  }
+
+  get(orderId: string): Order | null {
+    return this.orders.get(orderId);
+  }
+
+  list(): Order[] {
+    return this.orders.list();
+  }
+
+  listOpen(productId?: string): Order[] {
+    return this.orders.listOpen(productId);
+  }
+
+  private async applyFills(order: Order, fills: FillInstruction[]) {
+    for (const fill of fills) {
+      this.orders.recordFill(order.id, fill);
+      this.risk?.recordFill(order, order.fills[order.fills.length - 1]);
+    }
+
+    if (fills.length > 0) {
+      await this.cancelOcoSiblings(order);
+    }
+    if (fills.length > 0 && order.status === "filled") {
+      this.emit("tradeExecuted", order);
+    }
+  }
+
+  // Trails, arms and fires a conditional order against the latest price
+  private async evaluateTrigger(order: Order, market: MarketData) {
+    // Another account's order must never go to this account's venue
+    if (this.accountOrders([order]).length === 0) return;
+
+    if (order.parentOrderId) {
+      const parent = this.orders.get(order.parentOrderId);
+      if (parent && isOrderActive(parent)) return;
+      if (!parent || parent.status !== "filled") {
+        this.orders.cancel(order.id, `Parent order ${order.parentOrderId} was ${parent ? parent.status : "not found"}`);
+        return;
+      }
+    }
+
+    if (updateTrailingStop(order, market.price)) {
+      this.emit("orderTrailed", order);
+    }
+    if (!isTriggered(order, market.price)) return;
+
+    order.triggeredAt = this.clock().toISOString();
+    console.log(`⚡ ${order.orderType} ${order.side.toUpperCase()} ${order.id} triggered at $${market.price.toFixed(2)} (stop $${parseFloat(order.stopPrice).toFixed(2)})`);
+    this.emit("orderTriggered", order);
+
+    // Checked again now that it executes: the kill switch, rate and loss limits may have changed since it was placed
+    const rejection = this.applyRiskCheck(order, market);
+    if (rejection) {
+      console.log(`❌ Triggered order ${order.id} ${rejection}`);
+      return;
+    }
+
+    let report;
+    try {
+      report = await this.venue.submitOrder(order, market);
+    } catch (error) {
+      report = { accepted: false, reason: error.message, fills: [] };
+    }
+
+    if (!report.accepted) {
+      this.orders.reject(order.id, report.reason || "Rejected by venue");
+      console.log(`❌ Triggered order ${order.id} rejected: ${report.reason}`);
+      return;
+    }
+    // Only once the venue has accepted it, so a refused trigger leaves the other legs in place
+    await this.cancelOcoSiblings(order);
+    await this.applyFills(order, report.fills);
+  }
+
+  private async cancelOcoSiblings(order: Order) {
+    if (!order.ocoGroupId) return;
+
+    const siblings = this.accountOrders(this.orders.listOpen())
+      .filter((other) => other.ocoGroupId === order.ocoGroupId && other.id !== order.id);
+    for (const sibling of siblings) {
+      await this.cancel(sibling.id, `OCO: ${order.id} was executed`);
+    }
+  }
+
+  /**
+   * Runs the order past the risk engine and applies any resize. A resized
+   * order is checked against the product's rules again, since a smaller
+   * amount can fall below its minimum size or notional. Rejects the order
+   * and returns why when it can't go ahead.
+   */
+  private applyRiskCheck(order: Order, market: MarketData | null): string | null {
+    if (!this.risk) return null;
+
+    const decision = this.risk.check(order, this.riskContext(order, market));
+    if (decision.approved === false) {
+      this.orders.reject(order.id, `Risk check failed: ${decision.reason}`);
+      this.emit("riskRejected", { order, rule: decision.rule, reason: decision.reason });
+      return `rejected by risk check (${decision.rule}): ${decision.reason}`;
+    }
+    if (!decision.resized) return null;
+
+    const originalAmount = order.amount;
+    order.amount = decision.amount;
+    console.log(`⚖️  Order ${order.id} resized from ${originalAmount} to ${order.amount}: ${decision.resized.reason}`);
+    this.emit("riskResized", { order, originalAmount, ...decision.resized });
+
+    if (this.products) {
+      const check = this.products.checkOrder(order, market?.price ?? null);
+      if (check.valid === false) {
+        const reason = `Resized order no longer fits ${order.productId}: ${check.reason}`;
+        this.orders.reject(order.id, reason);
+        return `rejected: ${reason}`;
+      }
+      order.amount = check.amount;
+    }
+    return null;
+  }
+
+  // Orders restored for other accounts stay in the book but are left alone
+  private accountOrders(orders: Order[]): Order[] {
+    return this.account ? orders.filter((order) => belongsToAccount(order, this.account)) : orders;
+  }
+
+  private riskContext(order: Order, market: MarketData | null): RiskContext {
+    const asset = order.productId.split("-")[0];
+    const balances = this.venue.getBalances?.();
+
+    // Venues without a ledger fall back to the net amount this engine has filled
+    const position = balances
+      ? balances.find((balance) => balance.asset === asset)?.total || 0
+      : this.accountOrders(this.orders.list())
+        .filter((other) => other.productId === order.productId)
+        .reduce((sum, other) => sum + (other.side === "buy" ? other.filledAmount : -other.filledAmount), 0);
+
+    const pendingBuys = this.accountOrders(this.orders.listOpen(order.productId))
+      .filter((other) => other.side === "buy" && other.id !== order.id)
+      .reduce((sum, other) => sum + remainingAmount(other), 0);
+
+    const referencePrice = executionType(order) === "limit" ? order.limitPrice : order.stopPrice;
+    return {
+      price: referencePrice !== undefined ? parseFloat(referencePrice) : market?.price ?? null,
+      position,
+      pendingBuys
+    };
+  }
+
+  /**
+   * Converts a quote-sized order into a base amount. The reference price is
+   * the limit price for limit executions, the trigger for conditional orders
+   * that have one, and the current market price otherwise.
+   */
+  private sizeFromQuote(order: Order, market: MarketData | null): string | null {
+    let price = market?.price;
+    if (executionType(order) === "limit") {
+      price = parseFloat(order.limitPrice);
+    } else if (isConditionalOrder(order) && order.stopPrice !== undefined) {
+      price = parseFloat(order.stopPrice);
+    }
+    if (!(price > 0)) {
+      return `No price available to convert ${order.quoteAmount} quote into ${order.productId}`;
+    }
+
+    const increment = this.products?.get(order.productId)?.baseIncrement;
+    order.amount = quoteToBaseAmount(order.quoteAmount, price, increment);
+    if (!(parseFloat(order.amount) > 0)) {
+      return `Quote amount ${order.quoteAmount} is too small for ${order.productId} at $${price}`;
+    }
+    return null;
+  }
+
+  private reject(order: Order, reason: string): never {
+    this.orders.reject(order.id, reason);
+    throw new Error(`Order ${order.id} rejected: ${reason}`);
+  }
+}
@@ -0,0 +1,57 @@
+import { DirectExecutionVenue } from "./direct-venue";
+import { fixedBpsSlippage, PaperExchange, PaperExchangeOptions } from "./paper-exchange";
+import { ExecutionMode, ExecutionVenue } from "./types";
+
+export * from "./types";
+export { ExecutionEngine, EXECUTION_EVENTS } from "./engine";
+export { DirectExecutionVenue } from "./direct-venue";
+export {
+  PaperExchange,
+  PaperExchangeOptions,
+  LedgerEntry,
+  SlippageModel,
+  fixedBpsSlippage,
+  volumeImpactSlippage
+} from "./paper-exchange";
+
+export function createExecutionVenue(
+  mode: ExecutionMode = (process.env.EXECUTION_MODE as ExecutionMode) || "live",
+  paperOptions: PaperExchangeOptions = paperOptionsFromEnv()
+): ExecutionVenue {
+  switch (mode) {
+    case "paper":
+      return new PaperExchange(paperOptions);
+    case "live":
+      return new DirectExecutionVenue();
+    case "swap":
+      throw new Error("Swap venues are signed by an account; build one with createSwapVenue() from src/swaps");
+    default:
+      throw new Error(`Unknown execution mode: ${mode}`);
+  }
+}
+
+// PAPER_STARTING_BALANCES uses the form "USD:10000,BTC:0.5"
+export function paperOptionsFromEnv(): PaperExchangeOptions {
+  const options: PaperExchangeOptions = {};
+
+  if (process.env.PAPER_STARTING_BALANCES) {
+    options.startingBalances = {};
+    for (const entry of process.env.PAPER_STARTING_BALANCES.split(",")) {
+      const [asset, amount] = entry.split(":").map((part) => part.trim());
+      if (asset && amount) {
+        options.startingBalances[asset.toUpperCase()] = parseFloat(amount);
+      }
+    }
+  }
+  if (process.env.PAPER_MAKER_FEE_RATE) {
+    options.makerFeeRate = parseFloat(process.env.PAPER_MAKER_FEE_RATE);
+  }
+  if (process.env.PAPER_TAKER_FEE_RATE) {
+    options.takerFeeRate = parseFloat(process.env.PAPER_TAKER_FEE_RATE);
+  }
+  if (process.env.PAPER_SLIPPAGE_BPS) {
+    options.slippage = fixedBpsSlippage(parseFloat(process.env.PAPER_SLIPPAGE_BPS));
+  }
+
+  return options;
+}
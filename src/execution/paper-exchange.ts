@@ -0,0 +1,207 @@
+import { MarketData } from "../market-data";
+import { executionType, isLimitCrossed, Order, remainingAmount } from "../orders";
+import { AssetBalance, ExecutionReport, ExecutionVenue, FillInstruction } from "./types";
+
+// Returns the price a taker order of this size would actually execute at
+export type SlippageModel = (
+  side: "buy" | "sell",
+  price: number,
+  amount: number,
+  market: MarketData | null
+) => number;
+
+export function fixedBpsSlippage(bps: number): SlippageModel {
+  return (side, price) => price * (1 + (side === "buy" ? 1 : -1) * bps / 10000);
+}
+
+// Square-root market impact: larger orders relative to 24h volume slip further
+export function volumeImpactSlippage(baseBps: number, impactBps: number): SlippageModel {
+  return (side, price, amount, market) => {
+    const participation = market && market.volume24h > 0 ? amount / market.volume24h : 0;
+    const bps = baseBps + impactBps * Math.sqrt(participation);
+    return price * (1 + (side === "buy" ? 1 : -1) * bps / 10000);
+  };
+}
+
+export interface PaperExchangeOptions {
+  startingBalances?: Record<string, number>;
+  makerFeeRate?: number;
+  takerFeeRate?: number;
+  slippage?: SlippageModel;
+  clock?: () => Date;
+}
+
+export interface LedgerEntry {
+  timestamp: string;
+  asset: string;
+  delta: number;
+  balance: number;
+  reason: "deposit" | "trade" | "fee";
+  orderId?: string;
+}
+
+interface Hold {
+  asset: string;
+  amount: number;
+}
+
+/**
+ * Simulated exchange with a virtual per-asset ledger. Market orders take
+ * liquidity at the slipped market price; limit orders reserve funds while
+ * they rest and fill as maker once the market data stream crosses them.
+ */
+export class PaperExchange implements ExecutionVenue {
+  readonly name = "paper";
+  private balances: Map<string, number> = new Map();
+  private holds: Map<string, Hold> = new Map();
+  private ledger: LedgerEntry[] = [];
+  private makerFeeRate: number;
+  private takerFeeRate: number;
+  private slippage: SlippageModel;
+  private clock: () => Date;
+
+  constructor(options: PaperExchangeOptions = {}) {
+    this.clock = options.clock || (() => new Date());
+    this.makerFeeRate = options.makerFeeRate ?? 0.004;
+    this.takerFeeRate = options.takerFeeRate ?? 0.006;
+    this.slippage = options.slippage || fixedBpsSlippage(5);
+
+    const startingBalances = options.startingBalances || { USD: 10000 };
+    for (const [asset, amount] of Object.entries(startingBalances)) {
+      this.deposit(asset, amount);
+    }
+  }
+
+  deposit(asset: string, amount: number) {
+    this.adjust(asset.toUpperCase(), amount, "deposit");
+  }
+
+  async submitOrder(order: Order, market: MarketData | null): Promise<ExecutionReport> {
+    const [base, quote] = order.productId.split("-");
+    if (!base || !quote) {
+      return this.rejected(`Unrecognised product ${order.productId}`);
+    }
+
+    const amount = remainingAmount(order);
+
+    if (executionType(order) === "market" || (market && isLimitCrossed(order, market.price))) {
+      if (!market) {
+        return this.rejected(`No market data available for ${order.productId}`);
+      }
+
+      let price = this.slippage(order.side, market.price, amount, market);
+      if (executionType(order) === "limit") {
+        // A marketable limit order never executes beyond its limit
+        const limitPrice = parseFloat(order.limitPrice);
+        price = order.side === "buy" ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+      }
+
+      const fee = price * amount * this.takerFeeRate;
+      const shortfall = this.checkFunds(order, base, quote, order.side === "buy" ? price * amount + fee : amount);
+      if (shortfall) return this.rejected(shortfall);
+
+      this.settle(order, base, quote, price, amount, fee);
+      return { accepted: true, fills: [{ price, amount, fee }] };
+    }
+
+    const limitPrice = parseFloat(order.limitPrice);
+    const hold: Hold = order.side === "buy"
+      ? { asset: quote, amount: limitPrice * amount * (1 + this.makerFeeRate) }
+      : { asset: base, amount };
+
+    const shortfall = this.checkFunds(order, base, quote, hold.amount);
+    if (shortfall) return this.rejected(shortfall);
+
+    this.holds.set(order.id, hold);
+    return { accepted: true, fills: [] };
+  }
+
+  async matchOrder(order: Order, market: MarketData): Promise<FillInstruction[]> {
+    if (!isLimitCrossed(order, market.price)) return [];
+
+    const [base, quote] = order.productId.split("-");
+    const price = parseFloat(order.limitPrice);
+    const amount = remainingAmount(order);
+    const fee = price * amount * this.makerFeeRate;
+
+    this.holds.delete(order.id);
+    this.settle(order, base, quote, price, amount, fee);
+    return [{ price, amount, fee }];
+  }
+
+  async cancelOrder(order: Order): Promise<void> {
+    this.holds.delete(order.id);
+  }
+
+  getBalances(): AssetBalance[] {
+    return Array.from(this.balances.entries()).map(([asset, total]) => {
+      const hold = this.heldAmount(asset);
+      return { asset, total, available: total - hold, hold };
+    });
+  }
+
+  getLedger(): LedgerEntry[] {
+    return this.ledger;
+  }
+
+  exportState(): { balances: Record<string, number>; holds: Record<string, Hold> } {
+    return {
+      balances: Object.fromEntries(this.balances),
+      holds: Object.fromEntries(this.holds)
+    };
+  }
+
+  // Replaces the starting balances with a previously exported ledger
+  importState(state: { balances: Record<string, number>; holds: Record<string, Hold> }) {
+    this.balances = new Map(Object.entries(state.balances || {}));
+    this.holds = new Map(Object.entries(state.holds || {}));
+  }
+
+  private checkFunds(order: Order, base: string, quote: string, required: number): string | null {
+    const asset = order.side === "buy" ? quote : base;
+    const available = this.available(asset);
+
+    if (required > available + 1e-12) {
+      return `Insufficient ${asset} balance: need ${required.toFixed(8)}, available ${available.toFixed(8)}`;
+    }
+    return null;
+  }
+
+  private settle(order: Order, base: string, quote: string, price: number, amount: number, fee: number) {
+    const notional = price * amount;
+
+    if (order.side === "buy") {
+      this.adjust(quote, -notional, "trade", order.id);
+      this.adjust(base, amount, "trade", order.id);
+    } else {
+      this.adjust(base, -amount, "trade", order.id);
+      this.adjust(quote, notional, "trade", order.id);
+    }
+
+    if (fee > 0) {
+      this.adjust(quote, -fee, "fee", order.id);
+    }
+  }
+
+  private adjust(asset: string, delta: number, reason: LedgerEntry["reason"], orderId?: string) {
+    const balance = (this.balances.get(asset) || 0) + delta;
+    this.balances.set(asset, balance);
+    this.ledger.push({ timestamp: this.clock().toISOString(), asset, delta, balance, reason, orderId });
+  }
+
+  private available(asset: string): number {
+    return (this.balances.get(asset) || 0) - this.heldAmount(asset);
+  }
+
+  private heldAmount(asset: string): number {
+    let total = 0;
+    for (const hold of this.holds.values()) {
+      if (hold.asset === asset) total += hold.amount;
+    }
+    return total;
+  }
+
+  private rejected(reason: string): ExecutionReport {
+    return { accepted: false, reason, fills: [] };
+  }
+}
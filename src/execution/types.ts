@@ -0,0 +1,41 @@
+import { MarketData } from "../market-data";
+import { OnChainSettlement, Order } from "../orders";
+
+export type ExecutionMode = "live" | "paper" | "swap";
+
+export interface FillInstruction {
+  price: number;
+  amount: number;
+  fee: number;
+  settlement?: OnChainSettlement;
+}
+
+export interface ExecutionReport {
+  accepted: boolean;
+  reason?: string;
+  fills: FillInstruction[];
+}
+
+export interface AssetBalance {
+  asset: string;
+  total: number;
+  available: number;
+  hold: number;
+}
+
+/**
+ * Where orders actually get executed. The ExecutionEngine owns the order
+ * lifecycle and asks the venue whether an order is accepted and what fills
+ * it produced, so strategies and chat commands never know which venue runs.
+ */
+export interface ExecutionVenue {
+  readonly name: string;
+  submitOrder(order: Order, market: MarketData | null): Promise<ExecutionReport>;
+  // Called on every market data update for each resting order
+  matchOrder(order: Order, market: MarketData): Promise<FillInstruction[]>;
+  cancelOrder(order: Order): Promise<void>;
+  getBalances?(): AssetBalance[];
+  // Serialisable venue state (e.g. a paper ledger) so it survives restarts
+  exportState?(): any;
+  importState?(state: any): void;
+}
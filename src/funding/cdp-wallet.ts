@@ -0,0 +1,39 @@
+import { CdpClient, EvmServerAccount } from "@coinbase/cdp-sdk";
+import { NetworkId } from "../networks";
+import { FundingAsset, TransactionConfirmation, WalletBackend } from "./types";
+
+export class CdpWalletBackend implements WalletBackend {
+  constructor(
+    private cdp: CdpClient,
+    // Read on every call so switching accounts takes effect immediately
+    private getAccount: () => EvmServerAccount
+  ) {}
+
+  async requestFaucet(network: NetworkId, asset: FundingAsset): Promise<string> {
+    if (network !== "base-sepolia") {
+      throw new Error(`The CDP faucet doesn't fund ${network}`);
+    }
+    const { transactionHash } = await this.cdp.evm.requestFaucet({
+      address: this.getAccount().address,
+      network,
+      token: asset === "ETH" ? "eth" : "usdc"
+    });
+    return transactionHash;
+  }
+
+  async transfer(network: NetworkId, to: string, asset: FundingAsset, amount: bigint): Promise<string> {
+    const { transactionHash } = await this.getAccount().transfer({
+      to: to as `0x${string}`,
+      amount,
+      token: asset === "ETH" ? "eth" : "usdc",
+      network
+    });
+    return transactionHash;
+  }
+
+  async waitForTransaction(network: NetworkId, transactionHash: string): Promise<TransactionConfirmation> {
+    const scoped = await this.getAccount().useNetwork(network);
+    const receipt = await scoped.waitForTransactionReceipt({ hash: transactionHash as `0x${string}` });
+    return { transactionHash, status: receipt.status, blockNumber: Number(receipt.blockNumber) };
+  }
+}
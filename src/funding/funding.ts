@@ -0,0 +1,92 @@
+import { NetworkId, NETWORKS } from "../networks";
+import { toUnits } from "../swaps";
+import { FaucetFunding, FundingAsset, TokenTransfer, WalletBackend } from "./types";
+
+export const FUNDING_ASSETS: FundingAsset[] = ["ETH", "USDC"];
+
+// Testnets the CDP faucet drips to
+export const FAUCET_NETWORKS: NetworkId[] = ["base-sepolia"];
+
+const ASSET_DECIMALS: Record<FundingAsset, number> = { ETH: 18, USDC: 6 };
+
+// What one faucet claim drips of each asset
+const FAUCET_AMOUNTS: Record<FundingAsset, number> = { ETH: 0.0001, USDC: 1 };
+
+export function parseFundingAsset(value: string): FundingAsset {
+  const asset = value.trim().toUpperCase();
+  if (!FUNDING_ASSETS.includes(asset as FundingAsset)) {
+    throw new Error(`Unsupported asset "${value}". Supported: ${FUNDING_ASSETS.join(", ")}`);
+  }
+  return asset as FundingAsset;
+}
+
+export function isEvmAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+// Why funds can't go to this address, or null if they can
+export function recipientProblem(to: string, from: string): string | null {
+  if (!isEvmAddress(to)) {
+    return `"${to}" is not an EVM address (0x followed by 40 hex characters)`;
+  }
+  if (/^0x0{40}$/.test(to)) {
+    return "Refusing to send to the zero address, the funds would be burned";
+  }
+  if (to.toLowerCase() === from.toLowerCase()) {
+    return "That is this account's own address";
+  }
+  return null;
+}
+
+/**
+ * Requests each asset from the testnet faucet and waits for the drip to
+ * confirm, so balances read afterwards include it. Mainnets are refused
+ * before anything is requested.
+ */
+export async function requestTestnetFunds(
+  wallet: WalletBackend,
+  network: NetworkId,
+  assets: FundingAsset[] = FUNDING_ASSETS
+): Promise<FaucetFunding[]> {
+  if (!FAUCET_NETWORKS.includes(network)) {
+    throw new Error(
+      `The faucet only funds ${FAUCET_NETWORKS.map((id) => NETWORKS[id].name).join(", ")}; ` +
+      `this account transacts on ${NETWORKS[network].name}`
+    );
+  }
+
+  const results: FaucetFunding[] = [];
+  for (const asset of assets) {
+    const transactionHash = await wallet.requestFaucet(network, asset);
+    console.log(`🚰 Requested testnet ${asset} on ${NETWORKS[network].name}: ${transactionHash}`);
+    const confirmation = await wallet.waitForTransaction(network, transactionHash);
+    results.push({ ...confirmation, network, asset, amount: FAUCET_AMOUNTS[asset] });
+  }
+  return results;
+}
+
+// Sends amount of asset and waits for the receipt; a reverted transfer throws
+export async function transferTokens(
+  wallet: WalletBackend,
+  network: NetworkId,
+  from: string,
+  to: string,
+  asset: FundingAsset,
+  amount: number
+): Promise<TokenTransfer> {
+  if (!(amount > 0)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  const problem = recipientProblem(to, from);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const transactionHash = await wallet.transfer(network, to, asset, toUnits(amount, ASSET_DECIMALS[asset]));
+  console.log(`📤 Sending ${amount} ${asset} to ${to} on ${NETWORKS[network].name}: ${transactionHash}`);
+  const confirmation = await wallet.waitForTransaction(network, transactionHash);
+  if (confirmation.status !== "success") {
+    throw new Error(`Transfer ${transactionHash} reverted`);
+  }
+  return { ...confirmation, network, asset, amount, from, to };
+}
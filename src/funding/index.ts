@@ -0,0 +1,11 @@
+export * from "./types";
+export { CdpWalletBackend } from "./cdp-wallet";
+export {
+  FAUCET_NETWORKS,
+  FUNDING_ASSETS,
+  isEvmAddress,
+  parseFundingAsset,
+  recipientProblem,
+  requestTestnetFunds,
+  transferTokens
+} from "./funding";
@@ -0,0 +1,48 @@
+import { NetworkId } from "../networks";
+
+// Tokens the CDP faucet hands out and the transfer commands move by name
+export type FundingAsset = "ETH" | "USDC";
+
+export interface TransactionConfirmation {
+  transactionHash: string;
+  status: "success" | "reverted";
+  blockNumber: number;
+}
+
+export interface FaucetFunding extends TransactionConfirmation {
+  network: NetworkId;
+  asset: FundingAsset;
+  amount: number;
+}
+
+export interface TokenTransfer extends TransactionConfirmation {
+  network: NetworkId;
+  asset: FundingAsset;
+  amount: number;
+  from: string;
+  to: string;
+}
+
+// Money moved into (+) or out of (-) an account outside trading, kept for the time-weighted return
+export interface CashFlow {
+  account: string;
+  timestamp: string;
+  asset: FundingAsset;
+  amount: number;
+  // USD value when it happened; null when the asset had no price then
+  value: number | null;
+  transactionHash: string;
+}
+
+/**
+ * The on-chain calls behind funding and transfers, for the active account.
+ * CdpWalletBackend is the real one; tests pass a fake that never touches
+ * the network.
+ */
+export interface WalletBackend {
+  // Returns the faucet's transaction hash
+  requestFaucet(network: NetworkId, asset: FundingAsset): Promise<string>;
+  // amount is in the asset's smallest unit; returns the transaction hash
+  transfer(network: NetworkId, to: string, asset: FundingAsset, amount: bigint): Promise<string>;
+  waitForTransaction(network: NetworkId, transactionHash: string): Promise<TransactionConfirmation>;
+}
@@ -0,0 +1,73 @@
+import http from "http";
+import https from "https";
+import { URL } from "url";
+
+export interface RequestJsonOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  headers?: Record<string, string>;
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly url: string,
+    public readonly responseBody: string
+  ) {
+    super(`HTTP ${status} from ${url}`);
+    this.name = "HttpError";
+  }
+}
+
+// Minimal JSON-over-HTTP helper so we don't depend on a global fetch
+export function requestJson<T = any>(url: string, options: RequestJsonOptions = {}): Promise<T> {
+  const target = new URL(url);
+  const transport = target.protocol === "https:" ? https : http;
+  const payload = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+
+  const headers: Record<string, string> = {
+    "Accept": "application/json",
+    "User-Agent": "coinbase-trading-agent",
+    ...options.headers
+  };
+  if (payload !== undefined) {
+    headers["Content-Type"] = headers["Content-Type"] || "application/json";
+    headers["Content-Length"] = Buffer.byteLength(payload).toString();
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const req = transport.request(
+      target,
+      { method: options.method || "GET", headers },
+      (res) => {
+        let raw = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (raw += chunk));
+        res.on("end", () => {
+          const status = res.statusCode || 0;
+          if (status < 200 || status >= 300) {
+            reject(new HttpError(status, url, raw));
+            return;
+          }
+
+          try {
+            resolve(raw ? JSON.parse(raw) : (undefined as T));
+          } catch (error) {
+            reject(new Error(`Invalid JSON from ${url}: ${error.message}`));
+          }
+        });
+      }
+    );
+
+    req.setTimeout(options.timeoutMs ?? 10000, () => {
+      req.destroy(new Error(`Request to ${url} timed out`));
+    });
+    req.on("error", reject);
+
+    if (payload !== undefined) {
+      req.write(payload);
+    }
+    req.end();
+  });
+}
@@ -0,0 +1,40 @@
+import fs from "fs";
+import { parseCsv, parseTimestamp, pickField } from "./csv";
+
+export interface Candle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Loads OHLCV candles from a CSV with timestamp, open, high, low, close and
+ * volume columns. Timestamps may be ISO strings or unix seconds/milliseconds.
+ * Candles are returned oldest first.
+ */
+export function loadCandlesFromCsv(filePath: string): Candle[] {
+  const rows = parseCsv(fs.readFileSync(filePath, "utf8"));
+
+  const candles = rows.map((row, i) => {
+    const timestamp = parseTimestamp(pickField(row, "timestamp", "time", "date"));
+
+    const candle: Candle = {
+      timestamp,
+      open: Number(pickField(row, "open")),
+      high: Number(pickField(row, "high")),
+      low: Number(pickField(row, "low")),
+      close: Number(pickField(row, "close")),
+      volume: Number(pickField(row, "volume")) || 0
+    };
+
+    if (isNaN(timestamp.getTime()) || ![candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) {
+      throw new Error(`Invalid candle on row ${i + 1} of ${filePath}`);
+    }
+    return candle;
+  });
+
+  return candles.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
@@ -0,0 +1,89 @@
+import { requestJson } from "../http";
+import { Candle } from "./candles";
+import { MarketData, MarketDataProvider } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.exchange.coinbase.com";
+
+interface CoinbaseTicker {
+  price: string;
+  volume: string;
+  time?: string;
+}
+
+// [time (unix seconds), low, high, open, close, volume], newest first
+type CoinbaseCandle = [number, number, number, number, number, number];
+
+interface CoinbaseStats {
+  open: string;
+  last: string;
+  volume: string;
+}
+
+export class CoinbaseMarketDataProvider implements MarketDataProvider {
+  readonly name = "coinbase";
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.COINBASE_MARKET_DATA_URL || DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async fetchTickers(productIds: string[]): Promise<MarketData[]> {
+    const results = await Promise.all(
+      productIds.map(async (productId) => {
+        try {
+          return await this.fetchTicker(productId);
+        } catch (error) {
+          console.error(`❌ Failed to fetch ticker for ${productId}:`, error.message);
+          return null;
+        }
+      })
+    );
+
+    return results.filter((data): data is MarketData => data !== null);
+  }
+
+  // Coinbase accepts granularities of 60, 300, 900, 3600, 21600 and 86400 seconds, up to 300 candles
+  async fetchCandles(productId: string, granularity: number, limit: number): Promise<Candle[]> {
+    const end = new Date();
+    const start = new Date(end.getTime() - granularity * 1000 * Math.min(limit, 300));
+    const query = `granularity=${granularity}&start=${start.toISOString()}&end=${end.toISOString()}`;
+    const rows = await requestJson<CoinbaseCandle[]>(
+      `${this.baseUrl}/products/${encodeURIComponent(productId)}/candles?${query}`
+    );
+
+    return rows
+      .map(([time, low, high, open, close, volume]) => ({
+        timestamp: new Date(time * 1000),
+        open,
+        high,
+        low,
+        close,
+        volume
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-limit);
+  }
+
+  private async fetchTicker(productId: string): Promise<MarketData> {
+    const encoded = encodeURIComponent(productId);
+    const [ticker, stats] = await Promise.all([
+      requestJson<CoinbaseTicker>(`${this.baseUrl}/products/${encoded}/ticker`),
+      requestJson<CoinbaseStats>(`${this.baseUrl}/products/${encoded}/stats`)
+    ]);
+
+    const price = parseFloat(ticker.price);
+    const open = parseFloat(stats.open);
+
+    if (!Number.isFinite(price)) {
+      throw new Error(`Invalid ticker price for ${productId}: ${ticker.price}`);
+    }
+
+    return {
+      productId,
+      price,
+      volume24h: parseFloat(ticker.volume) || 0,
+      priceChange24h: open > 0 ? ((price - open) / open) * 100 : 0,
+      timestamp: ticker.time ? new Date(ticker.time) : new Date()
+    };
+  }
+}
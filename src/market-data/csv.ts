@@ -0,0 +1,44 @@
+// Parses simple comma-separated files with a header row (no quoted fields)
+export function parseCsv(content: string): Array<Record<string, string>> {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = lines[0].split(",").map((header) => header.trim());
+
+  return lines.slice(1).map((line) => {
+    const values = line.split(",");
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      row[header] = (values[i] ?? "").trim();
+    });
+    return row;
+  });
+}
+
+// Reads a field by any of its accepted aliases, case-insensitively
+export function pickField(row: Record<string, any>, ...names: string[]): any {
+  for (const name of names) {
+    if (row[name] !== undefined) return row[name];
+  }
+
+  const lowered = names.map((name) => name.toLowerCase());
+  for (const key of Object.keys(row)) {
+    if (lowered.includes(key.toLowerCase())) return row[key];
+  }
+
+  return undefined;
+}
+
+// Accepts ISO strings or unix timestamps in seconds or milliseconds
+export function parseTimestamp(raw: any): Date {
+  const text = String(raw);
+  return /^\d+$/.test(text)
+    ? new Date(Number(text) * (text.length <= 10 ? 1000 : 1))
+    : new Date(text);
+}
@@ -0,0 +1,19 @@
+import { CoinbaseMarketDataProvider } from "./coinbase-provider";
+import { ReplayMarketDataProvider } from "./replay-provider";
+import { MarketDataProvider } from "./types";
+
+export * from "./types";
+export { CoinbaseMarketDataProvider } from "./coinbase-provider";
+export { ReplayMarketDataProvider, ReplayOptions } from "./replay-provider";
+export { parseCsv, parseTimestamp, pickField } from "./csv";
+export { Candle, loadCandlesFromCsv } from "./candles";
+
+export function createMarketDataProvider(): MarketDataProvider {
+  if (process.env.MARKET_DATA_REPLAY_FILE) {
+    return new ReplayMarketDataProvider(process.env.MARKET_DATA_REPLAY_FILE, {
+      loop: process.env.MARKET_DATA_REPLAY_LOOP === "true"
+    });
+  }
+
+  return new CoinbaseMarketDataProvider();
+}
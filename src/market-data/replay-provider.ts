@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import { parseCsv, parseTimestamp, pickField } from "./csv";
+import { MarketData, MarketDataProvider } from "./types";
+
+export interface ReplayOptions {
+  // Start over from the first frame once the recording is exhausted
+  loop?: boolean;
+}
+
+/**
+ * Replays recorded ticks from a CSV or JSONL file. Ticks sharing a timestamp
+ * form one frame. advance() moves to the next frame and fetchTickers() serves
+ * the current one however often it is called, so a session driven by the
+ * same file always sees the same prices.
+ *
+ * Expected columns: timestamp, productId, price, volume24h, priceChange24h
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = "replay";
+  private frames: MarketData[][];
+  // Frame being served; before the first advance() it is the first frame
+  private index = -1;
+
+  constructor(private filePath: string, private options: ReplayOptions = {}) {
+    this.frames = loadFrames(filePath);
+    if (this.frames.length === 0) {
+      throw new Error(`No ticks found in replay file ${filePath}`);
+    }
+  }
+
+  get exhausted(): boolean {
+    return this.index >= this.frames.length;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  advance() {
+    if (this.exhausted) return;
+    this.index++;
+    if (this.index >= this.frames.length && this.options.loop) {
+      this.index = 0;
+    }
+  }
+
+  async fetchTickers(productIds: string[]): Promise<MarketData[]> {
+    if (this.exhausted) return [];
+
+    const frame = this.frames[Math.max(this.index, 0)];
+    const wanted = new Set(productIds);
+    return frame.filter((tick) => wanted.size === 0 || wanted.has(tick.productId));
+  }
+
+  reset() {
+    this.index = -1;
+  }
+}
+
+function loadFrames(filePath: string): MarketData[][] {
+  const content = fs.readFileSync(filePath, "utf8");
+  const rows = path.extname(filePath).toLowerCase() === ".csv"
+    ? parseCsv(content)
+    : content
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line));
+
+  const ticks = rows.map((row, i) => toTick(row, i + 1));
+  ticks.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const frames: MarketData[][] = [];
+  let lastTime: number | null = null;
+  for (const tick of ticks) {
+    const time = tick.timestamp.getTime();
+    if (time !== lastTime) {
+      frames.push([]);
+      lastTime = time;
+    }
+    frames[frames.length - 1].push(tick);
+  }
+
+  return frames;
+}
+
+function toTick(row: Record<string, any>, line: number): MarketData {
+  const productId = pickField(row, "productId", "product_id", "symbol");
+  const price = Number(pickField(row, "price", "close"));
+  const timestamp = parseTimestamp(pickField(row, "timestamp", "time"));
+
+  if (!productId || !Number.isFinite(price) || isNaN(timestamp.getTime())) {
+    throw new Error(`Invalid tick on row ${line}: ${JSON.stringify(row)}`);
+  }
+
+  return {
+    productId: String(productId).toUpperCase(),
+    price,
+    volume24h: Number(pickField(row, "volume24h", "volume")) || 0,
+    priceChange24h: Number(pickField(row, "priceChange24h", "price_change_24h")) || 0,
+    timestamp
+  };
+}
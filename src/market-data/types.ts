@@ -0,0 +1,20 @@
+import { Candle } from "./candles";
+
+export interface MarketData {
+  productId: string;
+  price: number;
+  volume24h: number;
+  priceChange24h: number;
+  timestamp: Date;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  // Returns the latest ticker for each requested product it knows about
+  fetchTickers(productIds: string[]): Promise<MarketData[]>;
+  // Most recent OHLCV candles, oldest first; granularity is in seconds
+  fetchCandles?(productId: string, granularity: number, limit: number): Promise<Candle[]>;
+  // Recorded data moves on to its next point in time; the agent calls it once per monitoring cycle
+  advance?(): void;
+  close?(): Promise<void>;
+}
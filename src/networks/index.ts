@@ -0,0 +1,9 @@
+export * from "./types";
+export {
+  DEFAULT_NETWORK,
+  describeNetworks,
+  NETWORKS,
+  networkConfigFromEnv,
+  parseNetwork,
+  resolveNetworkConfig
+} from "./networks";
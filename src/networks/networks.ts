@@ -0,0 +1,55 @@
+import { Network, NetworkConfig, NetworkId } from "./types";
+
+export const NETWORKS: Record<NetworkId, Network> = {
+  "base-sepolia": { id: "base-sepolia", name: "Base Sepolia", mainnet: false, nativeAsset: "ETH" },
+  base: { id: "base", name: "Base", mainnet: true, nativeAsset: "ETH" },
+  ethereum: { id: "ethereum", name: "Ethereum", mainnet: true, nativeAsset: "ETH" }
+};
+
+export const DEFAULT_NETWORK: NetworkId = "base-sepolia";
+
+// AgentKit-style names people already have in their .env
+const NETWORK_ALIASES: Record<string, NetworkId> = {
+  "base-mainnet": "base",
+  "ethereum-mainnet": "ethereum"
+};
+
+export function parseNetwork(value: string): NetworkId {
+  const id = value.trim().toLowerCase();
+  const network = NETWORKS[NETWORK_ALIASES[id] || id];
+  if (!network) {
+    throw new Error(`Unknown network "${value}". Supported: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return network.id;
+}
+
+/**
+ * Builds the network configuration from a comma-separated list such as
+ * "base,ethereum". Mainnets hold real funds, so they are refused unless
+ * allowMainnet is set; mainnets and testnets can't be mixed, since their
+ * balances would be added together.
+ */
+export function resolveNetworkConfig(value: string | undefined, allowMainnet: boolean): NetworkConfig {
+  const networks = Array.from(new Set((value || DEFAULT_NETWORK).split(",").filter((id) => id.trim()).map(parseNetwork)));
+  if (networks.length === 0) {
+    networks.push(DEFAULT_NETWORK);
+  }
+
+  const mainnets = networks.filter((id) => NETWORKS[id].mainnet);
+  if (mainnets.length > 0 && mainnets.length < networks.length) {
+    throw new Error(`Networks ${networks.join(", ")} mix mainnet and testnet; configure one kind at a time`);
+  }
+  if (mainnets.length > 0 && !allowMainnet) {
+    throw new Error(`${mainnets.join(", ")} ${mainnets.length > 1 ? "are mainnets" : "is a mainnet"} with real funds; set ALLOW_MAINNET=true to use it`);
+  }
+  return { networks, mainnet: mainnets.length > 0 };
+}
+
+// CDP_AGENT_KIT_NETWORK (one network or a comma-separated list) and the ALLOW_MAINNET opt-in
+export function networkConfigFromEnv(): NetworkConfig {
+  return resolveNetworkConfig(process.env.CDP_AGENT_KIT_NETWORK, process.env.ALLOW_MAINNET === "true");
+}
+
+export function describeNetworks(config: NetworkConfig): string {
+  return config.networks.map((id) => NETWORKS[id].name).join(", ");
+}
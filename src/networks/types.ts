@@ -0,0 +1,16 @@
+// Networks the CDP token balance API covers
+export type NetworkId = "base" | "base-sepolia" | "ethereum";
+
+export interface Network {
+  id: NetworkId;
+  name: string;
+  // Mainnets hold real funds and have to be enabled explicitly
+  mainnet: boolean;
+  nativeAsset: string;
+}
+
+export interface NetworkConfig {
+  // Every network balances are read from; the first is where the account transacts
+  networks: NetworkId[];
+  mainnet: boolean;
+}
@@ -0,0 +1,53 @@
+import { Order, OrderType, TradeConfig } from "./types";
+
+const CONDITIONAL_TYPES: OrderType[] = ["stop_market", "stop_limit", "take_profit", "trailing_stop"];
+
+// Stop, take-profit and trailing orders wait for a trigger before executing
+export function isConditionalOrder(order: TradeConfig): boolean {
+  return CONDITIONAL_TYPES.includes(order.orderType);
+}
+
+// How an order executes once triggered: stop-limits rest at their limit price, the rest take the market
+export function executionType(order: TradeConfig): "market" | "limit" {
+  return order.orderType === "limit" || order.orderType === "stop_limit" ? "limit" : "market";
+}
+
+export function validateConditionalOrder(config: TradeConfig): string | null {
+  if (config.orderType === "trailing_stop") {
+    const percent = parseFloat(config.trailingPercent);
+    const amount = parseFloat(config.trailingAmount);
+    if (config.trailingPercent !== undefined) {
+      return percent > 0 && percent < 100 ? null : `Invalid trailing percent: ${config.trailingPercent}`;
+    }
+    return amount > 0 ? null : "Trailing stops need a trailingPercent or trailingAmount";
+  }
+
+  return parseFloat(config.stopPrice) > 0 ? null : `Invalid stop price: ${config.stopPrice}`;
+}
+
+// Moves a trailing stop after the best price seen; returns true if the stop moved
+export function updateTrailingStop(order: Order, marketPrice: number): boolean {
+  if (order.orderType !== "trailing_stop") return false;
+
+  const reference = order.trailingReference;
+  const improved = reference === undefined ||
+    (order.side === "sell" ? marketPrice > reference : marketPrice < reference);
+  if (!improved) return false;
+
+  const offset = order.trailingPercent !== undefined
+    ? marketPrice * parseFloat(order.trailingPercent) / 100
+    : parseFloat(order.trailingAmount);
+
+  order.trailingReference = marketPrice;
+  order.stopPrice = (order.side === "sell" ? marketPrice - offset : marketPrice + offset).toString();
+  return true;
+}
+
+// Sell stops fire as the price falls to the stop and buy stops as it rises; take-profits the reverse
+export function isTriggered(order: Order, marketPrice: number): boolean {
+  if (!isConditionalOrder(order) || !Number.isFinite(marketPrice) || order.stopPrice === undefined) return false;
+
+  const stopPrice = parseFloat(order.stopPrice);
+  const fallingTrigger = (order.side === "sell") !== (order.orderType === "take_profit");
+  return fallingTrigger ? marketPrice <= stopPrice : marketPrice >= stopPrice;
+}
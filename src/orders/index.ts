@@ -0,0 +1,10 @@
+export * from "./types";
+export { OrderManager, ORDER_EVENTS, isOrderActive, isLimitCrossed, remainingAmount } from "./order-manager";
+export {
+  executionType,
+  isConditionalOrder,
+  isTriggered,
+  updateTrailingStop,
+  validateConditionalOrder
+} from "./conditional";
+export { DEFAULT_BASE_INCREMENT, floorToIncrement, quoteToBaseAmount, roundToIncrement } from "./sizing";
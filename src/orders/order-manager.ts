@@ -0,0 +1,168 @@
+import { EventEmitter } from "events";
+import { executionType } from "./conditional";
+import { Fill, OnChainSettlement, Order, OrderStatus, TradeConfig } from "./types";
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["open", "partially_filled", "filled", "cancelled", "rejected"],
+  // Triggered stop orders can still be refused by the venue
+  open: ["partially_filled", "filled", "cancelled", "expired", "rejected"],
+  partially_filled: ["partially_filled", "filled", "cancelled", "expired"],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+  expired: []
+};
+
+// Event emitted when an order enters each status
+export const ORDER_EVENTS: Record<OrderStatus, string> = {
+  pending: "orderCreated",
+  open: "orderOpened",
+  partially_filled: "orderPartiallyFilled",
+  filled: "orderFilled",
+  cancelled: "orderCancelled",
+  rejected: "orderRejected",
+  expired: "orderExpired"
+};
+
+const FILL_EPSILON = 1e-12;
+
+export function isOrderActive(order: Order): boolean {
+  return order.status === "pending" || order.status === "open" || order.status === "partially_filled";
+}
+
+export function remainingAmount(order: Order): number {
+  return Math.max(parseFloat(order.amount) - order.filledAmount, 0);
+}
+
+// True once the market has traded through a limit order's price
+export function isLimitCrossed(order: Order, marketPrice: number): boolean {
+  if (executionType(order) !== "limit" || !Number.isFinite(marketPrice)) return false;
+
+  const limitPrice = parseFloat(order.limitPrice);
+  return order.side === "buy" ? marketPrice <= limitPrice : marketPrice >= limitPrice;
+}
+
+export class OrderManager extends EventEmitter {
+  private orders: Map<string, Order> = new Map();
+
+  // The clock is injectable so backtests can stamp orders with simulated time
+  constructor(private clock: () => Date = () => new Date()) {
+    super();
+  }
+
+  create(config: TradeConfig): Order {
+    const now = this.clock().toISOString();
+    const order: Order = {
+      ...config,
+      amount: config.amount,
+      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: "pending",
+      filledAmount: 0,
+      fees: 0,
+      fills: [],
+      timestamp: now,
+      updatedAt: now
+    };
+
+    this.orders.set(order.id, order);
+    this.emit(ORDER_EVENTS.pending, order);
+    return order;
+  }
+
+  // Loads previously persisted orders without emitting lifecycle events
+  restore(orders: Order[]) {
+    for (const order of orders) {
+      this.orders.set(order.id, order);
+    }
+  }
+
+  get(orderId: string): Order | null {
+    return this.orders.get(orderId) || null;
+  }
+
+  list(): Order[] {
+    return Array.from(this.orders.values());
+  }
+
+  listOpen(productId?: string): Order[] {
+    return this.list().filter(
+      (order) => isOrderActive(order) && (!productId || order.productId === productId)
+    );
+  }
+
+  open(orderId: string): Order {
+    return this.transition(orderId, "open");
+  }
+
+  reject(orderId: string, reason: string): Order {
+    return this.transition(orderId, "rejected", reason);
+  }
+
+  cancel(orderId: string, reason?: string): Order {
+    return this.transition(orderId, "cancelled", reason);
+  }
+
+  expire(orderId: string): Order {
+    return this.transition(orderId, "expired", "Order reached its expiry time");
+  }
+
+  recordFill(orderId: string, fill: { price: number; amount: number; fee?: number; settlement?: OnChainSettlement }): Order {
+    const order = this.require(orderId);
+    const remaining = remainingAmount(order);
+
+    if (fill.amount <= 0 || fill.amount - remaining > FILL_EPSILON) {
+      throw new Error(`Invalid fill of ${fill.amount} for order ${orderId} (${remaining} remaining)`);
+    }
+
+    const record: Fill = {
+      id: `fill_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId,
+      price: fill.price,
+      amount: fill.amount,
+      fee: fill.fee || 0,
+      timestamp: this.clock().toISOString(),
+      ...(fill.settlement ? { settlement: fill.settlement } : {})
+    };
+
+    const previousNotional = (order.executedPrice || 0) * order.filledAmount;
+    order.fills.push(record);
+    order.filledAmount += fill.amount;
+    order.fees += record.fee;
+    order.executedPrice = (previousNotional + fill.price * fill.amount) / order.filledAmount;
+
+    const done = remainingAmount(order) <= FILL_EPSILON;
+    return this.transition(orderId, done ? "filled" : "partially_filled");
+  }
+
+  // Expires good-til-date orders whose expiry has passed
+  expireStale(now: Date = this.clock()): Order[] {
+    return this.listOpen()
+      .filter((order) => order.expiresAt && new Date(order.expiresAt).getTime() <= now.getTime())
+      .map((order) => this.expire(order.id));
+  }
+
+  private transition(orderId: string, status: OrderStatus, reason?: string): Order {
+    const order = this.require(orderId);
+
+    if (!TRANSITIONS[order.status].includes(status)) {
+      throw new Error(`Cannot move order ${orderId} from ${order.status} to ${status}`);
+    }
+
+    order.status = status;
+    order.updatedAt = this.clock().toISOString();
+    if (reason) {
+      order.statusReason = reason;
+    }
+
+    this.emit(ORDER_EVENTS[status], order);
+    return order;
+  }
+
+  private require(orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    return order;
+  }
+}
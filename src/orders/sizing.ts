@@ -0,0 +1,38 @@
+// Smallest base-asset step used when the product's own increment is unknown
+export const DEFAULT_BASE_INCREMENT = "0.00000001";
+
+function decimalsOf(increment: string): number {
+  const [, fraction = ""] = increment.split(".");
+  return fraction.replace(/0+$/, "").length;
+}
+
+// "0.00100000" -> "0.001", so rounded sizes read like the ones users type
+function trimZeros(fixed: string): string {
+  return fixed.includes(".") ? fixed.replace(/\.?0+$/, "") : fixed;
+}
+
+// Rounds down so an order never spends more than asked for
+export function floorToIncrement(amount: number, increment: string = DEFAULT_BASE_INCREMENT): string {
+  const step = parseFloat(increment);
+  const decimals = decimalsOf(increment);
+  // The epsilon keeps values like 0.29999999999 from losing a whole step
+  const steps = Math.floor(amount / step + 1e-9);
+  return trimZeros((steps * step).toFixed(decimals));
+}
+
+// Nearest multiple of the increment, e.g. for prices on a product's quote increment
+export function roundToIncrement(value: number, increment: string): string {
+  const step = parseFloat(increment);
+  return trimZeros((Math.round(value / step) * step).toFixed(decimalsOf(increment)));
+}
+
+/**
+ * Converts a quote-currency notional (e.g. "100" USD) into a base-asset
+ * amount at the given price, floored to the base increment. Fees are not
+ * deducted: the notional is the order's gross value.
+ */
+export function quoteToBaseAmount(quoteAmount: string, price: number, baseIncrement: string = DEFAULT_BASE_INCREMENT): string {
+  const notional = parseFloat(quoteAmount);
+  if (!(notional > 0) || !(price > 0)) return "0";
+  return floorToIncrement(notional / price, baseIncrement);
+}
@@ -0,0 +1,113 @@
+export type OrderType =
+  | "market"
+  | "limit"
+  | "stop_market"
+  | "stop_limit"
+  | "take_profit"
+  | "trailing_stop";
+
+export interface TradeConfig {
+  productId: string;
+  orderType: OrderType;
+  side: "buy" | "sell";
+  // Base-asset size; leave unset and give quoteAmount to size the order by notional instead
+  amount?: string;
+  // Quote-currency notional (e.g. USD), converted to a base amount when the order is submitted
+  quoteAmount?: string;
+  limitPrice?: string;
+  // Trigger price for stop and take-profit orders; trailing stops move it as the market moves
+  stopPrice?: string;
+  // Trailing stops follow the best price by a percentage or a fixed amount
+  trailingPercent?: string;
+  trailingAmount?: string;
+  // Active orders sharing an OCO group are cancelled once one of them triggers or fills
+  ocoGroupId?: string;
+  // Exit legs of a bracket stay dormant until this entry order fills
+  parentOrderId?: string;
+  // Good-til-date: resting orders still open after this ISO time are expired
+  expiresAt?: string;
+  // Strategy that placed the order, if any
+  strategyId?: string;
+  // Authenticated user who placed the order, e.g. through the web API
+  placedBy?: string;
+  // Name of the account the order was placed for
+  account?: string;
+  // Sells only: buy lots (fill ids) to dispose of first under specific-ID tax lot accounting
+  lotIds?: string[];
+}
+
+export type OrderStatus =
+  | "pending"
+  | "open"
+  | "partially_filled"
+  | "filled"
+  | "cancelled"
+  | "rejected"
+  | "expired";
+
+// The transaction behind a fill executed on chain, e.g. a DEX swap
+export interface OnChainSettlement {
+  network: string;
+  transactionHash: string;
+  // Set when the token allowance had to be raised first
+  approvalTransactionHash?: string;
+  blockNumber: number;
+  // Gas used by the swap and any approval, and what it cost in the network's native asset
+  gasUsed: string;
+  gasCost: number;
+  nativeAsset: string;
+  fromToken: string;
+  toToken: string;
+  fromAmount: number;
+  toAmount: number;
+  // Least the swap could return under the slippage tolerance
+  minToAmount: number;
+  slippageBps: number;
+}
+
+// What a swap sent for an order was quoted at, kept until its receipt is read
+export interface PendingSwap {
+  // Base amount the fill will record
+  amount: number;
+  // Quoted amounts in each token's smallest unit
+  fromAmount: string;
+  toAmount: string;
+  minToAmount: string;
+  // Gas already spent raising the allowance, and what it cost in wei
+  approvalGasUsed: string;
+  approvalGasCost: string;
+  approvalTransactionHash?: string;
+}
+
+export interface Fill {
+  id: string;
+  orderId: string;
+  price: number;
+  amount: number;
+  fee: number;
+  timestamp: string;
+  settlement?: OnChainSettlement;
+}
+
+export interface Order extends TradeConfig {
+  id: string;
+  // Always set on an order: quote-sized orders get theirs at submission
+  amount: string;
+  status: OrderStatus;
+  filledAmount: number;
+  // Volume-weighted average price across all fills
+  executedPrice?: number;
+  fees: number;
+  fills: Fill[];
+  timestamp: string;
+  updatedAt: string;
+  statusReason?: string;
+  // When a conditional order's trigger was hit and it was sent for execution
+  triggeredAt?: string;
+  // Best price seen by a trailing stop: the high for sells, the low for buys
+  trailingReference?: number;
+  // On-chain transaction sent for the order whose receipt hasn't been read yet
+  pendingTransaction?: string;
+  // Saved with the order so the pending transaction can still be filled after a restart
+  pendingSwap?: PendingSwap;
+}
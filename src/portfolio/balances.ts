@@ -0,0 +1,72 @@
+import { CdpClient } from "@coinbase/cdp-sdk";
+import { AssetBalance } from "../execution";
+import { DEFAULT_NETWORK, NetworkId } from "../networks";
+import { NetworkBalances, TokenBalance } from "./types";
+
+// EIP-7528 address the CDP API reports for the chain's native token
+const NATIVE_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+// Reads every page of listTokenBalances and converts amounts from base units
+export async function fetchTokenBalances(
+  cdp: CdpClient,
+  address: string,
+  network: NetworkId = DEFAULT_NETWORK
+): Promise<TokenBalance[]> {
+  const balances: TokenBalance[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const page = await cdp.evm.listTokenBalances({
+      address: address as `0x${string}`,
+      network,
+      pageToken
+    });
+
+    for (const balance of page.balances) {
+      const amount = Number(balance.amount.amount) / Math.pow(10, balance.amount.decimals);
+      if (amount <= 0) continue;
+
+      const isNative = balance.token.contractAddress.toLowerCase() === NATIVE_TOKEN_ADDRESS;
+      const asset = balance.token.symbol?.toUpperCase() || (isNative ? "ETH" : balance.token.contractAddress);
+      balances.push({ asset, amount });
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return balances;
+}
+
+// A network that can't be read is reported with its error rather than failing the others
+export async function fetchNetworkBalances(
+  cdp: CdpClient,
+  address: string,
+  networks: NetworkId[]
+): Promise<NetworkBalances[]> {
+  const results: NetworkBalances[] = [];
+  for (const network of networks) {
+    try {
+      results.push({ network, balances: await fetchTokenBalances(cdp, address, network) });
+    } catch (error) {
+      results.push({ network, balances: [], error: error.message });
+    }
+  }
+  return results;
+}
+
+// Each asset's amount summed across networks
+export function totalBalances(byNetwork: NetworkBalances[]): TokenBalance[] {
+  const totals = new Map<string, number>();
+  for (const { balances } of byNetwork) {
+    for (const balance of balances) {
+      totals.set(balance.asset, (totals.get(balance.asset) || 0) + balance.amount);
+    }
+  }
+  return Array.from(totals, ([asset, amount]) => ({ asset, amount }));
+}
+
+// Paper and other ledger-backed venues already know their balances
+export function venueTokenBalances(balances: AssetBalance[]): TokenBalance[] {
+  return balances
+    .filter((balance) => balance.total > 0)
+    .map((balance) => ({ asset: balance.asset, amount: balance.total }));
+}
@@ -0,0 +1,19 @@
+export * from "./types";
+export { fetchNetworkBalances, fetchTokenBalances, totalBalances, venueTokenBalances } from "./balances";
+export {
+  costBasisFromOrders,
+  isUsdStablecoin,
+  priceAssets,
+  pricingProductId,
+  snapshotOf,
+  valuePortfolio
+} from "./valuation";
+export { PortfolioSnapshots } from "./snapshots";
+export {
+  formatRebalancePlan,
+  planRebalance,
+  RebalanceExecution,
+  RebalanceOptions,
+  RebalancePlan,
+  RebalanceTrade
+} from "./rebalance";
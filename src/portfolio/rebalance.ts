@@ -0,0 +1,176 @@
+import { Order } from "../orders";
+import { PortfolioAnalysis } from "./types";
+import { isUsdStablecoin } from "./valuation";
+
+export interface RebalanceOptions {
+  // Assets within this many percentage points of their target are left alone (default 5)
+  driftThreshold?: number;
+  // Trades worth less than this, in the quote currency, are skipped (default 10)
+  minTradeValue?: number;
+  // Quote currency kept aside and never spent on buys (default 0)
+  cashBuffer?: number;
+  // Fee rate assumed for sizing buys and estimating proceeds (default 0.006)
+  feeRate?: number;
+  quoteCurrency?: string;
+}
+
+export interface RebalanceTrade {
+  asset: string;
+  productId: string;
+  side: "buy" | "sell";
+  amount: string;
+  price: number;
+  value: number;
+  currentAllocation: number;
+  targetAllocation: number;
+}
+
+export interface RebalancePlan {
+  totalValue: number;
+  // Sells first so their proceeds can fund the buys
+  trades: RebalanceTrade[];
+  skipped: Array<{ asset: string; reason: string }>;
+  // Quote currency left after the plan executes
+  remainingCash: number;
+}
+
+export interface RebalanceExecution {
+  executed: Order[];
+  failed: Array<{ productId: string; side: "buy" | "sell"; error: string }>;
+}
+
+// Truncates so planned sizes never exceed what is held or affordable
+function floorAmount(amount: number): string {
+  return (Math.floor(amount * 1e8) / 1e8).toString();
+}
+
+/**
+ * Turns target allocations (percent of total value per asset) into the
+ * trades that reach them. Whatever the targets leave unallocated stays in
+ * the quote currency. Holdings without a target are not traded.
+ */
+export function planRebalance(
+  portfolio: PortfolioAnalysis,
+  targets: Map<string, number>,
+  prices: Map<string, number | null>,
+  options: RebalanceOptions = {}
+): RebalancePlan {
+  const {
+    driftThreshold = 5,
+    minTradeValue = 10,
+    cashBuffer = 0,
+    feeRate = 0.006,
+    quoteCurrency = "USD"
+  } = options;
+
+  const allocations = new Map(Array.from(targets, ([asset, target]) => [asset.toUpperCase(), target] as const));
+  const targetTotal = Array.from(allocations.values()).reduce((sum, target) => sum + target, 0);
+  if (targetTotal > 100 + 1e-9 || Array.from(allocations.values()).some((target) => target < 0)) {
+    throw new Error(`Target allocations must be between 0 and 100% in total (got ${targetTotal}%)`);
+  }
+
+  const totalValue = portfolio.totalValue;
+  const quote = quoteCurrency.toUpperCase();
+  const skipped: RebalancePlan["skipped"] = [];
+  const sells: RebalanceTrade[] = [];
+  let buys: RebalanceTrade[] = [];
+
+  for (const holding of portfolio.holdings) {
+    if (!allocations.has(holding.asset) && holding.asset !== quote && holding.value > 0) {
+      skipped.push({ asset: holding.asset, reason: "no target allocation, left as is" });
+    }
+  }
+
+  for (const [asset, targetAllocation] of allocations) {
+    if (asset === quote || isUsdStablecoin(asset)) {
+      skipped.push({ asset, reason: "cash is whatever the other targets leave over" });
+      continue;
+    }
+
+    const holding = portfolio.holdings.find((entry) => entry.asset === asset);
+    const price = holding?.price ?? prices.get(asset) ?? null;
+    if (!price) {
+      skipped.push({ asset, reason: "no market price" });
+      continue;
+    }
+
+    const currentValue = holding ? holding.value : 0;
+    const currentAllocation = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+    const drift = currentAllocation - targetAllocation;
+    if (Math.abs(drift) < driftThreshold) {
+      skipped.push({ asset, reason: `within drift band (${drift >= 0 ? "+" : ""}${drift.toFixed(1)}%)` });
+      continue;
+    }
+
+    const difference = (totalValue * targetAllocation) / 100 - currentValue;
+    if (Math.abs(difference) < minTradeValue) {
+      skipped.push({ asset, reason: `$${Math.abs(difference).toFixed(2)} is below the minimum trade size` });
+      continue;
+    }
+
+    const side = difference > 0 ? "buy" : "sell";
+    const amount = side === "sell"
+      ? Math.min(-difference / price, holding.amount)
+      : difference / price;
+
+    (side === "sell" ? sells : buys).push({
+      asset,
+      productId: `${asset}-${quote}`,
+      side,
+      amount: floorAmount(amount),
+      price,
+      value: amount * price,
+      currentAllocation,
+      targetAllocation
+    });
+  }
+
+  // Buys are funded by current cash plus sale proceeds, minus the buffer and a fee reserve
+  const cash = portfolio.holdings.find((entry) => entry.asset === quote)?.value || 0;
+  const proceeds = sells.reduce((sum, trade) => sum + trade.value, 0) * (1 - feeRate);
+  const spendable = Math.max((cash + proceeds - cashBuffer) / (1 + feeRate), 0);
+  const wanted = buys.reduce((sum, trade) => sum + trade.value, 0);
+
+  if (wanted > spendable) {
+    const scale = spendable / wanted;
+    buys = buys.filter((trade) => {
+      const value = trade.value * scale;
+      if (value < minTradeValue) {
+        skipped.push({ asset: trade.asset, reason: `only $${value.toFixed(2)} of cash available after the $${cashBuffer} buffer` });
+        return false;
+      }
+      trade.value = value;
+      trade.amount = floorAmount(value / trade.price);
+      return true;
+    });
+  }
+
+  const spent = buys.reduce((sum, trade) => sum + trade.value * (1 + feeRate), 0);
+
+  return {
+    totalValue,
+    trades: [...sells, ...buys],
+    skipped,
+    remainingCash: cash + proceeds - spent
+  };
+}
+
+export function formatRebalancePlan(plan: RebalancePlan): string {
+  const lines = [`⚖️  Rebalance plan for $${plan.totalValue.toFixed(2)} portfolio:`];
+
+  if (plan.trades.length === 0) {
+    lines.push("   No trades needed");
+  }
+  plan.trades.forEach((trade, index) => {
+    lines.push(
+      `   ${index + 1}. ${trade.side.toUpperCase()} ${trade.amount} ${trade.productId} ≈ $${trade.value.toFixed(2)}` +
+      ` (${trade.currentAllocation.toFixed(1)}% → ${trade.targetAllocation}%)`
+    );
+  });
+  for (const { asset, reason } of plan.skipped) {
+    lines.push(`   • ${asset}: ${reason}`);
+  }
+  lines.push(`   Cash after rebalance: ≈ $${plan.remainingCash.toFixed(2)}`);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,58 @@
+import { belongsToAccount } from "../accounts";
+import { TradingRepository } from "../database/trading-repository";
+import { PortfolioSnapshot } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stores periodic portfolio valuations so the 24h change can be measured
+ * against real history. Uses the trading repository when one is configured
+ * and otherwise keeps the last couple of days in memory. Each account has
+ * its own history.
+ */
+export class PortfolioSnapshots {
+  private memory: PortfolioSnapshot[] = [];
+  private lastRecordedAt = new Map<string, number>();
+
+  constructor(
+    private repository: TradingRepository | null = null,
+    private minIntervalMs: number = 15 * 60 * 1000
+  ) {}
+
+  // Records at most one snapshot per account and interval
+  async record(snapshot: PortfolioSnapshot): Promise<boolean> {
+    const takenAt = snapshot.timestamp.getTime();
+    const account = snapshot.account || "";
+    if (takenAt - (this.lastRecordedAt.get(account) ?? 0) < this.minIntervalMs) return false;
+    this.lastRecordedAt.set(account, takenAt);
+
+    if (this.repository) {
+      await this.repository.savePortfolioSnapshot(snapshot);
+    } else {
+      this.memory = this.memory.filter((entry) => takenAt - entry.timestamp.getTime() <= 2 * DAY_MS);
+      this.memory.push(snapshot);
+    }
+    return true;
+  }
+
+  // The account's newest snapshot that is at least 24 hours old
+  async dayAgo(now: Date, account: string): Promise<PortfolioSnapshot | null> {
+    const cutoff = new Date(now.getTime() - DAY_MS);
+    if (this.repository) {
+      return this.repository.loadPortfolioSnapshot(cutoff, account);
+    }
+
+    const older = this.memory.filter((entry) =>
+      belongsToAccount(entry, account) && entry.timestamp.getTime() <= cutoff.getTime());
+    return older.length > 0 ? older[older.length - 1] : null;
+  }
+
+  // Oldest first; without a repository only the last two days are available
+  async list(from: Date, to: Date, account: string): Promise<PortfolioSnapshot[]> {
+    if (this.repository) {
+      return this.repository.loadPortfolioSnapshots(from, to, account);
+    }
+    return this.memory.filter((entry) =>
+      belongsToAccount(entry, account) && entry.timestamp >= from && entry.timestamp <= to);
+  }
+}
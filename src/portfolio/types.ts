@@ -0,0 +1,47 @@
+import { NetworkId } from "../networks";
+
+export interface TokenBalance {
+  asset: string;
+  amount: number;
+}
+
+export interface NetworkBalances {
+  network: NetworkId;
+  balances: TokenBalance[];
+  // Set when the network couldn't be read
+  error?: string;
+}
+
+export interface Holding {
+  asset: string;
+  amount: number;
+  // USD price, or null when no market data exists for the asset
+  price: number | null;
+  value: number;
+  // Percent of the portfolio's total value
+  allocation: number;
+  // Average cost of the agent's own fills for this asset; null when it never bought any
+  costBasis: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+}
+
+export interface PortfolioAnalysis {
+  totalValue: number;
+  holdings: Holding[];
+  // Change in total value since the snapshot taken about 24 hours ago; null until one exists
+  change24h: number | null;
+  performance24h: number | null;
+  // Percent of the portfolio in its largest holding
+  riskScore: number;
+  unpricedAssets: string[];
+  valuedAt: Date;
+}
+
+export interface PortfolioSnapshot {
+  timestamp: Date;
+  // Name of the account that was valued
+  account?: string;
+  totalValue: number;
+  holdings: Array<{ asset: string; amount: number; value: number }>;
+}
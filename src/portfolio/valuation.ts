@@ -0,0 +1,117 @@
+import { Order } from "../orders";
+import { Holding, PortfolioAnalysis, PortfolioSnapshot, TokenBalance } from "./types";
+
+const USD_STABLECOINS = ["USD", "USDC", "USDT", "DAI", "USDBC"];
+
+// Wrapped and bridged tokens are priced through the asset they track
+const PRICE_ALIASES: Record<string, string> = { WETH: "ETH", WBTC: "BTC", CBBTC: "BTC" };
+
+export function isUsdStablecoin(asset: string): boolean {
+  return USD_STABLECOINS.includes(asset.toUpperCase());
+}
+
+export function pricingProductId(asset: string): string {
+  const symbol = asset.toUpperCase();
+  return `${PRICE_ALIASES[symbol] || symbol}-USD`;
+}
+
+// USD prices per asset; assets without market data map to null
+export async function priceAssets(
+  assets: string[],
+  getPrice: (productId: string) => Promise<number | null>
+): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>();
+
+  for (const asset of assets) {
+    if (isUsdStablecoin(asset)) {
+      prices.set(asset, 1);
+      continue;
+    }
+    try {
+      prices.set(asset, await getPrice(pricingProductId(asset)));
+    } catch (error) {
+      prices.set(asset, null);
+    }
+  }
+  return prices;
+}
+
+// Average cost per base asset, replaying fills in time order; fees are part of the cost
+export function costBasisFromOrders(orders: Order[]): Map<string, { amount: number; cost: number }> {
+  const basis = new Map<string, { amount: number; cost: number }>();
+  const fills = orders
+    .flatMap((order) => order.fills.map((fill) => ({ order, fill })))
+    .sort((a, b) => a.fill.timestamp.localeCompare(b.fill.timestamp));
+
+  for (const { order, fill } of fills) {
+    const asset = order.productId.split("-")[0];
+    const position = basis.get(asset) || { amount: 0, cost: 0 };
+
+    if (order.side === "buy") {
+      position.amount += fill.amount;
+      position.cost += fill.price * fill.amount + fill.fee;
+    } else if (position.amount > 0) {
+      const sold = Math.min(fill.amount, position.amount);
+      position.cost -= (position.cost / position.amount) * sold;
+      position.amount -= sold;
+    }
+    basis.set(asset, position);
+  }
+  return basis;
+}
+
+export function valuePortfolio(
+  balances: TokenBalance[],
+  prices: Map<string, number | null>,
+  costBasis: Map<string, { amount: number; cost: number }>,
+  baseline: PortfolioSnapshot | null,
+  now: Date
+): PortfolioAnalysis {
+  const holdings: Holding[] = balances.map(({ asset, amount }) => {
+    const price = prices.get(asset) ?? null;
+    const value = price !== null ? price * amount : 0;
+    const position = isUsdStablecoin(asset) ? null : costBasis.get(PRICE_ALIASES[asset] || asset);
+    const costBasisValue = position && position.amount > 0
+      ? (position.cost / position.amount) * amount
+      : null;
+    const unrealizedPnl = costBasisValue !== null && price !== null ? value - costBasisValue : null;
+
+    return {
+      asset,
+      amount,
+      price,
+      value,
+      allocation: 0,
+      costBasis: costBasisValue,
+      unrealizedPnl,
+      unrealizedPnlPercent: unrealizedPnl !== null && costBasisValue > 0 ? (unrealizedPnl / costBasisValue) * 100 : null
+    };
+  });
+
+  const totalValue = holdings.reduce((sum, holding) => sum + holding.value, 0);
+  for (const holding of holdings) {
+    holding.allocation = totalValue > 0 ? (holding.value / totalValue) * 100 : 0;
+  }
+  holdings.sort((a, b) => b.value - a.value);
+
+  const change24h = baseline ? totalValue - baseline.totalValue : null;
+
+  return {
+    totalValue,
+    holdings,
+    change24h,
+    performance24h: baseline && baseline.totalValue > 0 ? (change24h / baseline.totalValue) * 100 : null,
+    // Higher concentration = higher risk
+    riskScore: holdings.length > 0 ? Math.max(...holdings.map((holding) => holding.allocation)) : 0,
+    unpricedAssets: holdings.filter((holding) => holding.price === null).map((holding) => holding.asset),
+    valuedAt: now
+  };
+}
+
+export function snapshotOf(analysis: PortfolioAnalysis): PortfolioSnapshot {
+  return {
+    timestamp: analysis.valuedAt,
+    totalValue: analysis.totalValue,
+    holdings: analysis.holdings.map(({ asset, amount, value }) => ({ asset, amount, value }))
+  };
+}
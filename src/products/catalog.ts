@@ -0,0 +1,151 @@
+import { executionType, floorToIncrement, roundToIncrement, TradeConfig } from "../orders";
+import { Product, ProductCheck, ProductSource } from "./types";
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Accepts "btc-usd", "BTC/USD" or "btc_usd"
+export function normalizeProductId(productId: string): string {
+  return productId.trim().toUpperCase().replace(/[/_ ]/g, "-");
+}
+
+/**
+ * The exchange's products and their trading rules. Every order is checked
+ * against it before submission: unknown or halted products are rejected
+ * with close matches, sizes are floored to the base increment and prices
+ * rounded to the quote increment.
+ */
+export class ProductCatalog {
+  private products: Map<string, Product> = new Map();
+
+  constructor(products: Product[] = []) {
+    for (const product of products) {
+      this.products.set(product.productId, product);
+    }
+  }
+
+  static async load(source: ProductSource): Promise<ProductCatalog> {
+    return new ProductCatalog(await source.fetchProducts());
+  }
+
+  get size(): number {
+    return this.products.size;
+  }
+
+  get(productId: string): Product | null {
+    return this.products.get(normalizeProductId(productId)) || null;
+  }
+
+  list(): Product[] {
+    return Array.from(this.products.values()).sort((a, b) => a.productId.localeCompare(b.productId));
+  }
+
+  // Why the product can't take new orders, or null when it can
+  haltReason(product: Product): string | null {
+    if (product.status !== "online") {
+      return product.statusMessage ? `${product.status}: ${product.statusMessage}` : product.status;
+    }
+    if (product.tradingDisabled) return "trading is disabled";
+    if (product.cancelOnly) return "cancel-only";
+    return null;
+  }
+
+  /**
+   * Tradable products closest to the given id: those sharing its base
+   * asset or within two edits of it, nearest first.
+   */
+  suggest(productId: string, limit: number = 3): string[] {
+    const wanted = normalizeProductId(productId);
+    const [base, quote] = wanted.split("-");
+
+    return this.list()
+      .filter((product) => product.productId !== wanted && !this.haltReason(product))
+      .map((product) => {
+        const distance = editDistance(wanted, product.productId);
+        const sameBase = product.baseCurrency === base;
+        let score = distance;
+        if (sameBase) score -= 2;
+        if (product.quoteCurrency === quote) score -= 1;
+        return { productId: product.productId, score, close: sameBase || distance <= 2 };
+      })
+      .filter((candidate) => candidate.close)
+      .sort((a, b) => a.score - b.score || a.productId.localeCompare(b.productId))
+      .slice(0, limit)
+      .map((candidate) => candidate.productId);
+  }
+
+  // Checks that the product exists and takes this kind of order; null when it does
+  checkTradable(config: TradeConfig): string | null {
+    const product = this.get(config.productId);
+    if (!product) {
+      return `Unknown product ${config.productId}${this.suggestion(config.productId)}`;
+    }
+
+    const halted = this.haltReason(product);
+    if (halted) {
+      return `${product.productId} is not trading (${halted})${this.suggestion(config.productId)}`;
+    }
+    if (product.limitOnly && executionType(config) === "market") {
+      return `${product.productId} only accepts limit orders right now`;
+    }
+    return null;
+  }
+
+  /**
+   * Rounds the order's size and prices to the product's increments and
+   * checks its size limits. referencePrice, when known, is used for the
+   * minimum and maximum notional.
+   */
+  checkOrder(config: TradeConfig, referencePrice: number | null): ProductCheck {
+    const tradable = this.checkTradable(config);
+    if (tradable) return { valid: false, reason: tradable };
+
+    const product = this.get(config.productId);
+    const amount = floorToIncrement(parseFloat(config.amount), product.baseIncrement);
+    const size = parseFloat(amount);
+
+    if (!(size > 0)) {
+      return { valid: false, reason: `Amount ${config.amount} is below the ${product.productId} size increment of ${product.baseIncrement}` };
+    }
+    if (product.baseMinSize && size < parseFloat(product.baseMinSize)) {
+      return { valid: false, reason: `Amount ${amount} is below the ${product.productId} minimum of ${product.baseMinSize}` };
+    }
+    if (product.baseMaxSize && size > parseFloat(product.baseMaxSize)) {
+      return { valid: false, reason: `Amount ${amount} is above the ${product.productId} maximum of ${product.baseMaxSize}` };
+    }
+
+    const roundPrice = (price: string | undefined) =>
+      price === undefined ? undefined : roundToIncrement(parseFloat(price), product.quoteIncrement);
+    const limitPrice = roundPrice(config.limitPrice);
+    const stopPrice = roundPrice(config.stopPrice);
+
+    const price = limitPrice !== undefined ? parseFloat(limitPrice) : referencePrice;
+    if (price > 0) {
+      const notional = size * price;
+      if (product.minMarketFunds && notional < parseFloat(product.minMarketFunds)) {
+        return { valid: false, reason: `Order value $${notional.toFixed(2)} is below the ${product.productId} minimum of $${product.minMarketFunds}` };
+      }
+      if (product.maxMarketFunds && notional > parseFloat(product.maxMarketFunds)) {
+        return { valid: false, reason: `Order value $${notional.toFixed(2)} is above the ${product.productId} maximum of $${product.maxMarketFunds}` };
+      }
+    }
+
+    return { valid: true, amount, limitPrice, stopPrice };
+  }
+
+  private suggestion(productId: string): string {
+    const matches = this.suggest(productId);
+    return matches.length > 0 ? `. Did you mean ${matches.join(", ")}?` : "";
+  }
+}
@@ -0,0 +1,77 @@
+import fs from "fs";
+import { requestJson } from "../http";
+import { Product, ProductSource } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.exchange.coinbase.com";
+
+// One entry of Coinbase Exchange's GET /products
+export interface CoinbaseProduct {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  base_increment: string;
+  quote_increment: string;
+  base_min_size?: string;
+  base_max_size?: string;
+  min_market_funds?: string;
+  max_market_funds?: string;
+  status: string;
+  status_message?: string;
+  trading_disabled?: boolean;
+  cancel_only?: boolean;
+  limit_only?: boolean;
+}
+
+export function parseCoinbaseProduct(raw: CoinbaseProduct): Product {
+  if (!raw.id || !raw.base_increment || !raw.quote_increment) {
+    throw new Error(`Invalid product entry: ${JSON.stringify(raw)}`);
+  }
+
+  return {
+    productId: raw.id.toUpperCase(),
+    baseCurrency: raw.base_currency,
+    quoteCurrency: raw.quote_currency,
+    baseIncrement: raw.base_increment,
+    quoteIncrement: raw.quote_increment,
+    baseMinSize: raw.base_min_size || undefined,
+    baseMaxSize: raw.base_max_size || undefined,
+    minMarketFunds: raw.min_market_funds || undefined,
+    maxMarketFunds: raw.max_market_funds || undefined,
+    status: raw.status || "online",
+    statusMessage: raw.status_message || undefined,
+    tradingDisabled: raw.trading_disabled === true,
+    cancelOnly: raw.cancel_only === true,
+    limitOnly: raw.limit_only === true
+  };
+}
+
+export class CoinbaseProductSource implements ProductSource {
+  readonly name = "coinbase";
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.COINBASE_MARKET_DATA_URL || DEFAULT_BASE_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async fetchProducts(): Promise<Product[]> {
+    const products = await requestJson<CoinbaseProduct[]>(`${this.baseUrl}/products`);
+    return products.map(parseCoinbaseProduct);
+  }
+}
+
+// Reads a saved GET /products response, e.g. fixtures/products.json, so the catalog works offline
+export class JsonFileProductSource implements ProductSource {
+  readonly name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${filePath}`;
+  }
+
+  async fetchProducts(): Promise<Product[]> {
+    const products = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (!Array.isArray(products)) {
+      throw new Error(`${this.filePath} should contain an array of products`);
+    }
+    return products.map(parseCoinbaseProduct);
+  }
+}
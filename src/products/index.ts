@@ -0,0 +1,30 @@
+import { CoinbaseProductSource, JsonFileProductSource } from "./coinbase-source";
+import { ProductCatalog } from "./catalog";
+import { ProductSource } from "./types";
+
+export * from "./types";
+export { ProductCatalog, normalizeProductId } from "./catalog";
+export { CoinbaseProduct, CoinbaseProductSource, JsonFileProductSource, parseCoinbaseProduct } from "./coinbase-source";
+
+export function createProductSource(): ProductSource {
+  if (process.env.PRODUCT_CATALOG_FILE) {
+    return new JsonFileProductSource(process.env.PRODUCT_CATALOG_FILE);
+  }
+
+  return new CoinbaseProductSource();
+}
+
+// Refuses to start without a catalog rather than send orders nothing has checked
+export async function loadProductCatalog(source: ProductSource): Promise<ProductCatalog> {
+  let catalog: ProductCatalog;
+  try {
+    catalog = await ProductCatalog.load(source);
+  } catch (error) {
+    throw new Error(
+      `Could not load the product catalog from ${source.name}: ${error.message}. ` +
+      "Set PRODUCT_CATALOG_FILE to a saved copy (e.g. fixtures/products.json) to start without the exchange"
+    );
+  }
+  console.log(`🗂️  Loaded ${catalog.size} products from ${source.name}`);
+  return catalog;
+}
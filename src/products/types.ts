@@ -0,0 +1,31 @@
+// Trading rules for one product, e.g. BTC-USD. Sizes and increments are decimal strings, as the exchange sends them
+export interface Product {
+  productId: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  // Smallest step for order sizes, in the base asset
+  baseIncrement: string;
+  // Smallest step for prices, in the quote currency
+  quoteIncrement: string;
+  baseMinSize?: string;
+  baseMaxSize?: string;
+  // Bounds on an order's notional value, in the quote currency
+  minMarketFunds?: string;
+  maxMarketFunds?: string;
+  // "online" when trading normally; "offline", "delisted", etc. otherwise
+  status: string;
+  statusMessage?: string;
+  tradingDisabled: boolean;
+  cancelOnly: boolean;
+  limitOnly: boolean;
+}
+
+export interface ProductSource {
+  readonly name: string;
+  fetchProducts(): Promise<Product[]>;
+}
+
+// Result of checking an order against its product: rounded prices and size, or why it can't be placed
+export type ProductCheck =
+  | { valid: true; amount: string; limitPrice?: string; stopPrice?: string }
+  | { valid: false; reason: string };
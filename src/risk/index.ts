@@ -0,0 +1,41 @@
+import { RiskLimits } from "./types";
+
+export * from "./types";
+export { RiskEngine } from "./risk-engine";
+
+// RISK_MAX_POSITION uses the form "BTC:0.5,ETH:10"; RISK_ALLOWED_PRODUCTS "BTC-USD,ETH-USD"
+export function riskLimitsFromEnv(): RiskLimits {
+  const limits: RiskLimits = {};
+
+  if (process.env.RISK_MAX_POSITION) {
+    limits.maxPositionSize = {};
+    for (const entry of process.env.RISK_MAX_POSITION.split(",")) {
+      const [asset, amount] = entry.split(":").map((part) => part.trim());
+      if (asset && amount) {
+        limits.maxPositionSize[asset.toUpperCase()] = parseFloat(amount);
+      }
+    }
+  }
+  if (process.env.RISK_MAX_ORDER_NOTIONAL) {
+    limits.maxOrderNotional = parseFloat(process.env.RISK_MAX_ORDER_NOTIONAL);
+  }
+  if (process.env.RISK_MAX_DAILY_LOSS) {
+    limits.maxDailyLoss = parseFloat(process.env.RISK_MAX_DAILY_LOSS);
+  }
+  if (process.env.RISK_MAX_ORDERS_PER_MINUTE) {
+    limits.maxOrdersPerMinute = parseInt(process.env.RISK_MAX_ORDERS_PER_MINUTE, 10);
+  }
+  if (process.env.RISK_ALLOWED_PRODUCTS) {
+    limits.allowedProducts = process.env.RISK_ALLOWED_PRODUCTS.split(",")
+      .map((product) => product.trim().toUpperCase())
+      .filter(Boolean);
+  }
+  if (process.env.RISK_KILL_SWITCH) {
+    limits.killSwitch = process.env.RISK_KILL_SWITCH === "true";
+  }
+  if (process.env.RISK_RESIZE_ORDERS) {
+    limits.resizeOrders = process.env.RISK_RESIZE_ORDERS === "true";
+  }
+
+  return limits;
+}
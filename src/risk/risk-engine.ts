@@ -0,0 +1,165 @@
+import { Fill, Order, TradeConfig } from "../orders";
+import { RiskContext, RiskDecision, RiskLimits, RiskRule } from "./types";
+
+const ORDER_RATE_WINDOW_MS = 60_000;
+
+// Truncates rather than rounds so a resized order never exceeds its limit
+function floorAmount(amount: number): string {
+  return (Math.floor(amount * 1e8) / 1e8).toString();
+}
+
+/**
+ * Pre-trade checks applied to every order before it reaches a venue. Keeps
+ * just enough state of its own (recent submissions, average cost and the
+ * day's realized P&L) to enforce rate and loss limits.
+ */
+export class RiskEngine {
+  private limits: RiskLimits;
+  private recentOrders: number[] = [];
+  private costBasis: Map<string, { amount: number; cost: number }> = new Map();
+  private dailyPnl = { day: "", realized: 0 };
+
+  constructor(limits: RiskLimits = {}, private clock: () => Date = () => new Date()) {
+    this.limits = { ...limits };
+  }
+
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  updateLimits(limits: Partial<RiskLimits>) {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  setKillSwitch(engaged: boolean) {
+    this.limits.killSwitch = engaged;
+  }
+
+  isKillSwitchEngaged(): boolean {
+    return this.limits.killSwitch === true;
+  }
+
+  // Approved orders count towards the per-minute limit
+  check(config: TradeConfig, context: RiskContext): RiskDecision {
+    const { limits } = this;
+    const now = this.clock().getTime();
+    let amount = parseFloat(config.amount);
+    let resized: { rule: RiskRule; reason: string } | undefined;
+
+    if (limits.killSwitch) {
+      return { approved: false, rule: "killSwitch", reason: "Kill switch is engaged; all trading is halted" };
+    }
+
+    if (limits.allowedProducts?.length && !limits.allowedProducts.includes(config.productId)) {
+      return {
+        approved: false,
+        rule: "allowedProducts",
+        reason: `${config.productId} is not in the allowed products list (${limits.allowedProducts.join(", ")})`
+      };
+    }
+
+    this.recentOrders = this.recentOrders.filter((time) => now - time < ORDER_RATE_WINDOW_MS);
+    if (limits.maxOrdersPerMinute !== undefined && this.recentOrders.length >= limits.maxOrdersPerMinute) {
+      return {
+        approved: false,
+        rule: "maxOrdersPerMinute",
+        reason: `Order rate limit reached: ${this.recentOrders.length} orders in the last minute (limit ${limits.maxOrdersPerMinute})`
+      };
+    }
+
+    // Selling only reduces exposure, so it stays allowed after a losing day
+    if (limits.maxDailyLoss !== undefined && config.side === "buy" && -this.getDailyPnl() >= limits.maxDailyLoss) {
+      return {
+        approved: false,
+        rule: "maxDailyLoss",
+        reason: `Daily loss limit reached: lost $${(-this.getDailyPnl()).toFixed(2)} today (limit $${limits.maxDailyLoss.toFixed(2)})`
+      };
+    }
+
+    if (limits.maxOrderNotional !== undefined && context.price) {
+      const notional = amount * context.price;
+      if (notional > limits.maxOrderNotional) {
+        const reason = `Order notional $${notional.toFixed(2)} exceeds limit $${limits.maxOrderNotional.toFixed(2)}`;
+        if (!limits.resizeOrders) {
+          return { approved: false, rule: "maxOrderNotional", reason };
+        }
+        amount = limits.maxOrderNotional / context.price;
+        resized = { rule: "maxOrderNotional", reason };
+      }
+    }
+
+    const asset = config.productId.split("-")[0];
+    const maxPosition = limits.maxPositionSize?.[asset];
+    if (maxPosition !== undefined && config.side === "buy") {
+      const exposure = context.position + context.pendingBuys;
+      if (exposure + amount > maxPosition) {
+        const reason = `Position would reach ${(exposure + amount).toFixed(8)} ${asset}, above limit ${maxPosition} ${asset}`;
+        const room = maxPosition - exposure;
+        if (!limits.resizeOrders || room <= 0) {
+          return { approved: false, rule: "maxPositionSize", reason };
+        }
+        amount = room;
+        resized = { rule: "maxPositionSize", reason };
+      }
+    }
+
+    const finalAmount = resized ? floorAmount(amount) : config.amount;
+    if (!(parseFloat(finalAmount) > 0)) {
+      return { approved: false, rule: resized.rule, reason: `${resized.reason}; nothing left to trade after resizing` };
+    }
+
+    this.recentOrders.push(now);
+    return { approved: true, amount: finalAmount, resized };
+  }
+
+  // Tracks average cost per product so sells can book realized P&L for the day
+  recordFill(order: Order, fill: Fill) {
+    const basis = this.costBasis.get(order.productId) || { amount: 0, cost: 0 };
+
+    if (order.side === "buy") {
+      basis.amount += fill.amount;
+      basis.cost += fill.price * fill.amount + fill.fee;
+    } else {
+      const averageCost = basis.amount > 0 ? basis.cost / basis.amount : fill.price;
+      const closed = Math.min(fill.amount, basis.amount);
+      const pnl = (fill.price - averageCost) * closed - fill.fee;
+
+      basis.cost -= averageCost * closed;
+      basis.amount -= closed;
+
+      const day = fill.timestamp.slice(0, 10);
+      if (day === this.today()) {
+        this.rollDay();
+        this.dailyPnl.realized += pnl;
+      }
+    }
+
+    this.costBasis.set(order.productId, basis);
+  }
+
+  // Realized P&L (after fees) for the current UTC day
+  getDailyPnl(): number {
+    this.rollDay();
+    return this.dailyPnl.realized;
+  }
+
+  getStatus() {
+    const now = this.clock().getTime();
+    return {
+      limits: this.getLimits(),
+      dailyRealizedPnl: this.getDailyPnl(),
+      ordersLastMinute: this.recentOrders.filter((time) => now - time < ORDER_RATE_WINDOW_MS).length
+    };
+  }
+
+  private today(): string {
+    return this.clock().toISOString().slice(0, 10);
+  }
+
+  private rollDay() {
+    const today = this.today();
+    if (this.dailyPnl.day !== today) {
+      this.dailyPnl = { day: today, realized: 0 };
+    }
+  }
+}
@@ -0,0 +1,35 @@
+export type RiskRule =
+  | "killSwitch"
+  | "allowedProducts"
+  | "maxOrdersPerMinute"
+  | "maxOrderNotional"
+  | "maxPositionSize"
+  | "maxDailyLoss";
+
+export interface RiskLimits {
+  // Largest holding allowed per base asset, e.g. { BTC: 0.5 }
+  maxPositionSize?: Record<string, number>;
+  // Largest quote-currency value of a single order
+  maxOrderNotional?: number;
+  // Buying stops once realized losses (including fees) for the UTC day exceed this
+  maxDailyLoss?: number;
+  maxOrdersPerMinute?: number;
+  // Products that may be traded; empty or unset allows all
+  allowedProducts?: string[];
+  killSwitch?: boolean;
+  // Shrink orders that breach size limits instead of rejecting them
+  resizeOrders?: boolean;
+}
+
+export interface RiskContext {
+  // Reference price for the order: the limit price, or the market price
+  price: number | null;
+  // Current holding of the base asset
+  position: number;
+  // Amount still to fill on resting buys for the same product
+  pendingBuys: number;
+}
+
+export type RiskDecision =
+  | { approved: true; amount: string; resized?: { rule: RiskRule; reason: string } }
+  | { approved: false; rule: RiskRule; reason: string };
@@ -0,0 +1,134 @@
+import { isUsdStablecoin, pricingProductId, RebalanceOptions } from "../portfolio";
+import { gridLevelPrices } from "./grid";
+import { GridSpacing, StrategyDefinition, StrategyType, TradingStrategy } from "./types";
+
+// Runtime state each strategy type keeps in its parameters between executions
+export function initialStrategyState(type: StrategyType): Record<string, any> {
+  switch (type) {
+    case "dca":
+      return { lastExecution: null };
+    case "grid":
+      return { spacing: "arithmetic", activeLevels: [], initialized: false, levelProfits: {}, realizedProfit: 0 };
+    case "momentum":
+      return { lastPrice: null };
+    case "mean_reversion":
+      return { priceHistory: [] };
+    case "rebalance":
+      return { lastCheck: null };
+    default:
+      return {};
+  }
+}
+
+// Products a strategy needs prices for: its own, or every non-stablecoin target of a rebalance
+export function strategyProducts(strategy: TradingStrategy): string[] {
+  if (strategy.type !== "rebalance") {
+    return [strategy.productId];
+  }
+  return Object.keys(strategy.parameters.targets)
+    .filter((asset) => !isUsdStablecoin(asset))
+    .map((asset) => pricingProductId(asset));
+}
+
+// Dollar Cost Averaging: a base amount ("0.001") or a fixed notional ({ quoteAmount: "50" }) each period
+export function dcaStrategy(
+  productId: string,
+  amountPerTrade: string | { quoteAmount: string },
+  intervalMinutes: number
+): StrategyDefinition {
+  const sizing = typeof amountPerTrade === "string"
+    ? { amountPerTrade }
+    : { quoteAmountPerTrade: amountPerTrade.quoteAmount };
+
+  return {
+    name: `DCA - ${productId}`,
+    enabled: true,
+    productId,
+    type: "dca",
+    parameters: {
+      ...sizing,
+      intervalMinutes,
+      lastExecution: null
+    }
+  };
+}
+
+export function gridStrategy(
+  productId: string,
+  lowerPrice: number,
+  upperPrice: number,
+  gridLevels: number,
+  amountPerLevel: string,
+  spacing: GridSpacing = "arithmetic"
+): StrategyDefinition {
+  // Validate up front rather than failing on every monitoring cycle
+  gridLevelPrices({ lowerPrice, upperPrice, gridLevels, spacing });
+
+  return {
+    name: `Grid - ${productId}`,
+    enabled: true,
+    productId,
+    type: "grid",
+    parameters: {
+      lowerPrice,
+      upperPrice,
+      gridLevels,
+      amountPerLevel,
+      spacing
+    }
+  };
+}
+
+export function momentumStrategy(productId: string, threshold: number, tradeAmount: string): StrategyDefinition {
+  return {
+    name: `Momentum - ${productId}`,
+    enabled: true,
+    productId,
+    type: "momentum",
+    parameters: {
+      threshold,
+      tradeAmount,
+      lastPrice: null
+    }
+  };
+}
+
+export function meanReversionStrategy(
+  productId: string,
+  lookbackPeriod: number,
+  stdDevThreshold: number,
+  tradeAmount: string
+): StrategyDefinition {
+  return {
+    name: `Mean Reversion - ${productId}`,
+    enabled: true,
+    productId,
+    type: "mean_reversion",
+    parameters: {
+      lookbackPeriod,
+      stdDevThreshold,
+      tradeAmount,
+      priceHistory: []
+    }
+  };
+}
+
+// Target allocations are percent per asset; only assets outside the drift band are traded
+export function rebalanceStrategy(
+  targets: Record<string, number>,
+  options: RebalanceOptions & { intervalMinutes?: number } = {}
+): StrategyDefinition {
+  const { intervalMinutes = 60, ...rebalanceOptions } = options;
+
+  return {
+    name: `Rebalance - ${Object.entries(targets).map(([asset, target]) => `${asset} ${target}%`).join(", ")}`,
+    enabled: true,
+    productId: "PORTFOLIO",
+    type: "rebalance",
+    parameters: {
+      targets,
+      intervalMinutes,
+      ...rebalanceOptions
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { executeGridStrategy } from "./grid";
+import { StrategyContext, TradingStrategy } from "./types";
+
+// Runs one monitoring cycle of a strategy; its running state is updated in place
+export async function executeStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  switch (strategy.type) {
+    case "dca":
+      return executeDCAStrategy(strategy, context);
+    case "grid":
+      return executeGridStrategy(strategy, context);
+    case "momentum":
+      return executeMomentumStrategy(strategy, context);
+    case "mean_reversion":
+      return executeMeanReversionStrategy(strategy, context);
+    case "rebalance":
+      return executeRebalanceStrategy(strategy, context);
+  }
+}
+
+async function executeDCAStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  const { amountPerTrade, quoteAmountPerTrade, intervalMinutes, lastExecution } = strategy.parameters;
+  const now = context.now();
+
+  if (lastExecution && (now - lastExecution) < intervalMinutes * 60 * 1000) {
+    return;
+  }
+
+  if (quoteAmountPerTrade) {
+    console.log(`💰 Executing DCA: Buying $${quoteAmountPerTrade} of ${strategy.productId}`);
+    await context.marketBuyNotional(strategy.productId, quoteAmountPerTrade, strategy.id);
+  } else {
+    console.log(`💰 Executing DCA: Buying ${amountPerTrade} of ${strategy.productId}`);
+    await context.marketBuy(strategy.productId, amountPerTrade, strategy.id);
+  }
+
+  strategy.parameters.lastExecution = now;
+}
+
+async function executeMomentumStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  const { threshold, tradeAmount, lastPrice } = strategy.parameters;
+  const currentPrice = await context.getCurrentPrice(strategy.productId);
+
+  if (lastPrice) {
+    const priceChange = ((currentPrice - lastPrice) / lastPrice) * 100;
+
+    if (Math.abs(priceChange) >= threshold) {
+      if (priceChange > 0) {
+        console.log(`📈 Momentum BUY signal: +${priceChange.toFixed(2)}%`);
+        await context.marketBuy(strategy.productId, tradeAmount, strategy.id);
+      } else {
+        console.log(`📉 Momentum SELL signal: ${priceChange.toFixed(2)}%`);
+        await context.marketSell(strategy.productId, tradeAmount, strategy.id);
+      }
+    }
+  }
+
+  strategy.parameters.lastPrice = currentPrice;
+}
+
+async function executeMeanReversionStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  const { lookbackPeriod, stdDevThreshold, tradeAmount, priceHistory } = strategy.parameters;
+  const currentPrice = await context.getCurrentPrice(strategy.productId);
+
+  priceHistory.push(currentPrice);
+  if (priceHistory.length > lookbackPeriod) {
+    priceHistory.shift();
+  }
+
+  if (priceHistory.length === lookbackPeriod) {
+    const mean = priceHistory.reduce((a: number, b: number) => a + b, 0) / lookbackPeriod;
+    const variance = priceHistory.reduce((sum: number, price: number) =>
+      sum + Math.pow(price - mean, 2), 0) / lookbackPeriod;
+    const stdDev = Math.sqrt(variance);
+
+    const zScore = (currentPrice - mean) / stdDev;
+
+    if (zScore < -stdDevThreshold) {
+      console.log(`📊 Mean reversion BUY: Price ${Math.abs(zScore).toFixed(2)} std devs below mean`);
+      await context.marketBuy(strategy.productId, tradeAmount, strategy.id);
+    } else if (zScore > stdDevThreshold) {
+      console.log(`📊 Mean reversion SELL: Price ${zScore.toFixed(2)} std devs above mean`);
+      await context.marketSell(strategy.productId, tradeAmount, strategy.id);
+    }
+  }
+}
+
+async function executeRebalanceStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  const { targets, intervalMinutes, lastCheck, ...options } = strategy.parameters;
+  const now = context.now();
+
+  if (lastCheck && (now - lastCheck) < intervalMinutes * 60 * 1000) {
+    return;
+  }
+  strategy.parameters.lastCheck = now;
+
+  const plan = await context.previewRebalance(new Map(Object.entries(targets)), options);
+  if (plan.trades.length > 0) {
+    console.log(`⚖️  Executing rebalance strategy: ${strategy.name}`);
+    await context.executeRebalancePlan(plan, strategy.id);
+  }
+}
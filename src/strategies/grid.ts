@@ -0,0 +1,137 @@
+import { isOrderActive } from "../orders";
+import { GridSpacing, StrategyContext, TradingStrategy } from "./types";
+
+// A resting grid order and, for sells, the buy fill it is paired with
+export interface GridLevelOrder {
+  level: number;
+  side: "buy" | "sell";
+  orderId: string;
+  entryPrice?: number;
+  entryFees?: number;
+}
+
+// Prices of each grid line from lowerPrice to upperPrice inclusive
+export function gridLevelPrices(params: {
+  lowerPrice: number;
+  upperPrice: number;
+  gridLevels: number;
+  spacing?: GridSpacing;
+}): number[] {
+  const { lowerPrice, upperPrice, gridLevels, spacing = "arithmetic" } = params;
+
+  if (!(gridLevels >= 2) || !(lowerPrice > 0) || !(upperPrice > lowerPrice)) {
+    throw new Error("Grid needs at least 2 levels and 0 < lowerPrice < upperPrice");
+  }
+
+  const steps = gridLevels - 1;
+  const ratio = Math.pow(upperPrice / lowerPrice, 1 / steps);
+
+  return Array.from({ length: gridLevels }, (_, i) =>
+    spacing === "geometric"
+      ? lowerPrice * Math.pow(ratio, i)
+      : lowerPrice + (i * (upperPrice - lowerPrice)) / steps
+  );
+}
+
+export async function executeGridStrategy(strategy: TradingStrategy, context: StrategyContext) {
+  const params = strategy.parameters;
+  const levels = gridLevelPrices(params);
+
+  if (!params.initialized) {
+    const currentPrice = await context.getCurrentPrice(strategy.productId);
+
+    // Leave the level nearest the price empty so each order has a free level to flip into
+    const nearest = levels.reduce((best, price, i) =>
+      Math.abs(price - currentPrice) < Math.abs(levels[best] - currentPrice) ? i : best, 0);
+
+    params.initialized = true;
+    console.log(`📊 Starting grid on ${strategy.productId}: ${levels.length} ${params.spacing} levels around $${currentPrice.toFixed(2)}`);
+
+    for (let i = 0; i < levels.length; i++) {
+      if (i !== nearest && levels[i] < currentPrice) {
+        await placeGridOrder(strategy, context, levels, i, "buy");
+      }
+    }
+
+    // Sells need the base asset already held; nearest first, as those fill first. Levels left
+    // empty are sold into once the buys below them fill.
+    const baseAsset = strategy.productId.split("-")[0];
+    const holdings = await context.getAvailableBalance(baseAsset);
+    const sellLevels = levels.map((_, i) => i).filter((i) => i !== nearest && levels[i] >= currentPrice);
+    const covered = Math.min(sellLevels.length, Math.floor(holdings / parseFloat(params.amountPerLevel) + 1e-9));
+    for (const i of sellLevels.slice(0, covered)) {
+      await placeGridOrder(strategy, context, levels, i, "sell");
+    }
+    if (covered < sellLevels.length) {
+      console.log(`📊 ${baseAsset} holdings cover ${covered} of ${sellLevels.length} grid sells; the rest wait for buys to fill`);
+    }
+    return;
+  }
+
+  for (const entry of [...params.activeLevels] as GridLevelOrder[]) {
+    const order = context.getOrder(entry.orderId);
+    if (order && isOrderActive(order)) continue;
+
+    params.activeLevels = params.activeLevels.filter((e: GridLevelOrder) => e.orderId !== entry.orderId);
+    if (!order || order.status !== "filled") continue;
+
+    if (entry.side === "buy") {
+      console.log(`📊 Grid BUY filled at level ${entry.level} ($${order.executedPrice.toFixed(2)})`);
+      if (entry.level + 1 < levels.length) {
+        await placeGridOrder(strategy, context, levels, entry.level + 1, "sell", {
+          entryPrice: order.executedPrice,
+          entryFees: order.fees
+        });
+      }
+    } else {
+      // Sells seeded from existing holdings are measured against the level below
+      const entryPrice = entry.entryPrice ?? levels[entry.level - 1] ?? order.executedPrice;
+      const profit = (order.executedPrice - entryPrice) * order.filledAmount - order.fees - (entry.entryFees || 0);
+      const pairLevel = Math.max(entry.level - 1, 0);
+
+      params.levelProfits[pairLevel] = (params.levelProfits[pairLevel] || 0) + profit;
+      params.realizedProfit += profit;
+      console.log(`📊 Grid SELL filled at level ${entry.level} ($${order.executedPrice.toFixed(2)}), profit $${profit.toFixed(2)}`);
+
+      if (entry.level > 0) {
+        await placeGridOrder(strategy, context, levels, entry.level - 1, "buy");
+      }
+    }
+  }
+}
+
+async function placeGridOrder(
+  strategy: TradingStrategy,
+  context: StrategyContext,
+  levels: number[],
+  level: number,
+  side: "buy" | "sell",
+  entry: { entryPrice?: number; entryFees?: number } = {}
+) {
+  const params = strategy.parameters;
+  if (params.activeLevels.some((e: GridLevelOrder) => e.level === level)) return;
+
+  try {
+    const order = await context.executeTrade({
+      productId: strategy.productId,
+      orderType: "limit",
+      side,
+      amount: params.amountPerLevel,
+      limitPrice: levels[level].toString(),
+      strategyId: strategy.id
+    });
+    params.activeLevels.push({ level, side, orderId: order.id, ...entry });
+  } catch (error) {
+    console.error(`❌ Grid ${side} at level ${level} ($${levels[level].toFixed(2)}) not placed: ${error.message}`);
+  }
+}
+
+export async function cancelGridOrders(strategy: TradingStrategy, context: StrategyContext) {
+  for (const entry of strategy.parameters.activeLevels as GridLevelOrder[]) {
+    await context.cancelOrder(entry.orderId);
+  }
+
+  // Re-enabling re-seeds the grid around the price at that time
+  strategy.parameters.activeLevels = [];
+  strategy.parameters.initialized = false;
+}
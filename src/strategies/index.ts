@@ -0,0 +1,12 @@
+export * from "./types";
+export {
+  dcaStrategy,
+  gridStrategy,
+  initialStrategyState,
+  meanReversionStrategy,
+  momentumStrategy,
+  rebalanceStrategy,
+  strategyProducts
+} from "./definitions";
+export { executeStrategy } from "./executors";
+export { cancelGridOrders, gridLevelPrices, GridLevelOrder } from "./grid";
@@ -0,0 +1,42 @@
+import { Order, TradeConfig } from "../orders";
+import { RebalanceExecution, RebalanceOptions, RebalancePlan } from "../portfolio";
+
+export type StrategyType = "dca" | "grid" | "momentum" | "mean_reversion" | "rebalance";
+
+export interface TradingStrategy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  productId: string;
+  type: StrategyType;
+  // Settings plus the running state each type keeps between executions
+  parameters: any;
+  // Account the strategy trades for; it only runs while that account is in use
+  account?: string;
+}
+
+// What createStrategy() takes: the agent assigns the id and account
+export type StrategyDefinition = Omit<TradingStrategy, "id">;
+
+export type GridSpacing = "arithmetic" | "geometric";
+
+/**
+ * What strategies may do on each monitoring cycle. The agent provides it,
+ * so strategy orders go through the same risk checks and execution venue
+ * as any other order.
+ */
+export interface StrategyContext {
+  now(): number;
+  getCurrentPrice(productId: string): Promise<number>;
+  getOrder(orderId: string): Order | null;
+  // How much of an asset the account holds that isn't already committed to orders
+  getAvailableBalance(asset: string): Promise<number>;
+  executeTrade(config: TradeConfig): Promise<Order>;
+  // strategyId attributes the order, and so its fills, to the strategy that placed it
+  marketBuy(productId: string, amount: string, strategyId: string): Promise<Order>;
+  marketSell(productId: string, amount: string, strategyId: string): Promise<Order>;
+  marketBuyNotional(productId: string, quoteAmount: string, strategyId: string): Promise<Order>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  previewRebalance(targetAllocations: Map<string, number>, options?: RebalanceOptions): Promise<RebalancePlan>;
+  executeRebalancePlan(plan: RebalancePlan, strategyId?: string): Promise<RebalanceExecution>;
+}
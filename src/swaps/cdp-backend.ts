@@ -0,0 +1,85 @@
+import { CdpClient, EvmServerAccount } from "@coinbase/cdp-sdk";
+import { EvmTransaction, SwapBackend, SwapNetwork, SwapQuote, SwapRequest, TransactionReceiptSummary } from "./types";
+
+/**
+ * Swaps through the CDP swap API with the agent's server account. Quotes
+ * always come from CDP; transactions go to the network's CDP node unless
+ * rpcUrl points somewhere else, such as a local fork of the network.
+ */
+export class CdpSwapBackend implements SwapBackend {
+  constructor(
+    private cdp: CdpClient,
+    // Read on every call so switching accounts takes effect immediately
+    private getAccount: () => EvmServerAccount,
+    readonly network: SwapNetwork,
+    private rpcUrl: string | null = null
+  ) {}
+
+  get address(): string {
+    return this.getAccount().address;
+  }
+
+  async quote(request: SwapRequest): Promise<SwapQuote | null> {
+    const account = this.getAccount();
+    const quote = await this.cdp.evm.createSwapQuote({
+      network: this.network,
+      fromToken: request.from.address,
+      toToken: request.to.address,
+      fromAmount: request.fromAmount,
+      taker: account.address,
+      slippageBps: request.slippageBps
+    });
+
+    if (!quote.liquidityAvailable || !("transaction" in quote) || !quote.transaction) {
+      return null;
+    }
+
+    let data = quote.transaction.data;
+    if (quote.permit2?.eip712) {
+      // Permit2 routes carry the signature after the calldata, prefixed by its length
+      const signature = await account.signTypedData(quote.permit2.eip712 as any);
+      const length = ((signature.length - 2) / 2).toString(16).padStart(64, "0");
+      data = `${data}${length}${signature.slice(2)}` as `0x${string}`;
+    }
+
+    return {
+      fromAmount: quote.fromAmount,
+      toAmount: quote.toAmount,
+      minToAmount: quote.minToAmount,
+      allowance: quote.issues.allowance,
+      balance: quote.issues.balance
+        ? { currentBalance: quote.issues.balance.currentBalance, requiredBalance: quote.issues.balance.requiredBalance }
+        : undefined,
+      transaction: {
+        to: quote.transaction.to,
+        data,
+        value: quote.transaction.value,
+        gas: quote.transaction.gas
+      }
+    };
+  }
+
+  async sendTransaction(transaction: EvmTransaction): Promise<string> {
+    const scoped = await this.scopedAccount();
+    const { transactionHash } = await scoped.sendTransaction({ transaction });
+    return transactionHash;
+  }
+
+  async waitForReceipt(transactionHash: string): Promise<TransactionReceiptSummary> {
+    const scoped = await this.scopedAccount();
+    const receipt = await scoped.waitForTransactionReceipt({ hash: transactionHash as `0x${string}` });
+    return {
+      transactionHash: receipt.transactionHash,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      // viem types topics per event ABI; untyped receipts still carry them
+      logs: receipt.logs.map((log: any) => ({ address: log.address, topics: [...(log.topics || [])], data: log.data }))
+    };
+  }
+
+  private scopedAccount() {
+    return this.getAccount().useNetwork(this.rpcUrl || this.network);
+  }
+}
@@ -0,0 +1,29 @@
+import { EvmTransaction, TransactionLog } from "./types";
+
+// keccak256("approve(address,uint256)") selector and keccak256("Transfer(address,address,uint256)")
+const APPROVE_SELECTOR = "0x095ea7b3";
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+function word(value: bigint | string): string {
+  const hex = typeof value === "bigint" ? value.toString(16) : value.toLowerCase().replace(/^0x/, "");
+  return hex.padStart(64, "0");
+}
+
+export function approveTransaction(token: `0x${string}`, spender: string, amount: bigint): EvmTransaction {
+  return {
+    to: token,
+    data: `${APPROVE_SELECTOR}${word(spender)}${word(amount)}` as `0x${string}`,
+    value: 0n
+  };
+}
+
+// Sum of token transferred to recipient in a transaction's logs
+export function transferredTo(logs: TransactionLog[], token: string, recipient: string): bigint {
+  return logs
+    .filter((log) =>
+      log.address.toLowerCase() === token.toLowerCase() &&
+      log.topics[0]?.toLowerCase() === TRANSFER_TOPIC &&
+      log.topics[2]?.toLowerCase() === `0x${word(recipient)}`
+    )
+    .reduce((sum, log) => sum + BigInt(log.data === "0x" ? 0 : log.data), 0n);
+}
@@ -0,0 +1,36 @@
+import { CdpClient, EvmServerAccount } from "@coinbase/cdp-sdk";
+import { NetworkConfig, NETWORKS } from "../networks";
+import { CdpSwapBackend } from "./cdp-backend";
+import { SwapExecutionVenue } from "./swap-venue";
+import { isSwapNetwork } from "./tokens";
+
+export * from "./types";
+export { CdpSwapBackend } from "./cdp-backend";
+export { SwapExecutionVenue, SwapVenueOptions } from "./swap-venue";
+export { approveTransaction, transferredTo } from "./erc20";
+export { isSwapNetwork, NATIVE_TOKEN_ADDRESS, resolveSwapToken, swapPairFor } from "./tokens";
+export { fromUnits, toUnits } from "./units";
+
+/**
+ * Swap venue for the account's primary network. SWAP_SLIPPAGE_BPS sets the
+ * tolerance and SWAP_RPC_URL sends transactions to another node, e.g. a
+ * local fork, while quotes still come from CDP.
+ */
+export function createSwapVenue(
+  cdp: CdpClient,
+  getAccount: () => EvmServerAccount,
+  config: NetworkConfig,
+  nativeAssetPrice: () => Promise<number | null>
+): SwapExecutionVenue {
+  const network = config.networks[0];
+  if (!isSwapNetwork(network)) {
+    throw new Error(`Swaps aren't available on ${NETWORKS[network].name}; use base or ethereum (ALLOW_MAINNET=true)`);
+  }
+
+  const backend = new CdpSwapBackend(cdp, getAccount, network, process.env.SWAP_RPC_URL || null);
+  return new SwapExecutionVenue(backend, {
+    slippageBps: process.env.SWAP_SLIPPAGE_BPS ? parseInt(process.env.SWAP_SLIPPAGE_BPS, 10) : undefined,
+    nativeAsset: NETWORKS[network].nativeAsset,
+    nativeAssetPrice
+  });
+}
@@ -0,0 +1,333 @@
+import { ExecutionReport, ExecutionVenue, FillInstruction } from "../execution";
+import { MarketData } from "../market-data";
+import { executionType, isLimitCrossed, OnChainSettlement, Order, PendingSwap, remainingAmount } from "../orders";
+import { approveTransaction, transferredTo } from "./erc20";
+import { NATIVE_TOKEN_ADDRESS, swapPairFor } from "./tokens";
+import { SwapBackend, SwapQuote, SwapToken, TransactionReceiptSummary } from "./types";
+import { fromUnits, toUnits } from "./units";
+
+export interface SwapVenueOptions {
+  // Tolerance passed to the swap API; the least accepted output is quoted with it
+  slippageBps?: number;
+  nativeAsset?: string;
+  // USD price of the native asset, used to charge gas as the fill's fee; null leaves fees at 0
+  nativeAssetPrice?: () => Promise<number | null>;
+}
+
+// Approving can be repeated once if the requote after it needs a larger allowance
+const MAX_APPROVALS = 2;
+
+interface SwapPlan {
+  from: SwapToken;
+  to: SwapToken;
+  quote: SwapQuote;
+  // What the fill will record: base amount and the worst-case price per unit
+  amount: number;
+  worstPrice: number;
+}
+
+// Gas spent raising the allowance before a swap
+interface ApprovalGas {
+  gasUsed: bigint;
+  gasCost: bigint;
+  transactionHash?: string;
+}
+
+// What a swap's fill is built from once its receipt is read
+interface SentSwap {
+  from: SwapToken;
+  to: SwapToken;
+  amount: number;
+  fromAmount: bigint;
+  toAmount: bigint;
+  minToAmount: bigint;
+  approvals: ApprovalGas;
+}
+
+/**
+ * Executes orders as DEX swaps from the agent's own account. Sells swap
+ * exactly the order amount of the base token; buys spend enough of the
+ * quote token that even the slippage-adjusted minimum output covers the
+ * order, and whatever arrives beyond it stays in the account. Limit orders
+ * rest until the market crosses them and only swap if the quote's worst
+ * case still honours the limit price. A swap whose receipt can't be read
+ * keeps its order open, with the hash in pendingTransaction and the quote in
+ * pendingSwap, until it is; both are saved with the order, so this survives
+ * a restart.
+ */
+export class SwapExecutionVenue implements ExecutionVenue {
+  readonly name = "swap";
+  private slippageBps: number;
+  private nativeAsset: string;
+  private nativeAssetPrice: () => Promise<number | null>;
+  // Orders with a swap in flight, so the next tick doesn't swap them again
+  private swapping: Set<string> = new Set();
+
+  constructor(private backend: SwapBackend, options: SwapVenueOptions = {}) {
+    this.slippageBps = options.slippageBps ?? 100;
+    this.nativeAsset = options.nativeAsset || "ETH";
+    this.nativeAssetPrice = options.nativeAssetPrice || (async () => null);
+  }
+
+  async submitOrder(order: Order, market: MarketData | null): Promise<ExecutionReport> {
+    try {
+      swapPairFor(this.backend.network, order.productId);
+    } catch (error) {
+      return { accepted: false, reason: error.message, fills: [] };
+    }
+
+    if (executionType(order) === "market") {
+      // No fill means the swap was sent but not confirmed; the order stays pending until it is
+      const fill = await this.swap(order, market.price, null);
+      return { accepted: true, fills: fill ? [fill] : [] };
+    }
+
+    const fills = market ? await this.matchOrder(order, market) : [];
+    return { accepted: true, fills };
+  }
+
+  async matchOrder(order: Order, market: MarketData): Promise<FillInstruction[]> {
+    if (this.swapping.has(order.id)) return [];
+    if (order.pendingTransaction) {
+      return this.reconcile(order);
+    }
+
+    // Market orders only rest here after a sent swap reverted, so they retry at the current price
+    const isMarket = executionType(order) === "market";
+    if (!isMarket && !isLimitCrossed(order, market.price)) return [];
+
+    try {
+      const fill = await this.swap(order, market.price, isMarket ? null : parseFloat(order.limitPrice));
+      return fill ? [fill] : [];
+    } catch (error) {
+      // The order keeps resting and is retried on the next crossing tick
+      console.error(`❌ Swap for order ${order.id} failed:`, error.message);
+      return [];
+    }
+  }
+
+  async cancelOrder(order: Order): Promise<void> {
+    // Nothing is reserved: funds stay in the account until the swap is sent
+  }
+
+  // Returns null when the quote can't honour limitPrice, or when the swap was sent but its receipt couldn't be read
+  private async swap(order: Order, marketPrice: number, limitPrice: number | null): Promise<FillInstruction | null> {
+    this.swapping.add(order.id);
+    try {
+      let plan = await this.plan(order, marketPrice);
+      const approvals: TransactionReceiptSummary[] = [];
+
+      // Re-checked after every approval: the requote can spend more if the price moved
+      while (true) {
+        if (limitPrice !== null && (order.side === "buy" ? plan.worstPrice > limitPrice : plan.worstPrice < limitPrice)) {
+          console.log(`⏸️  Swap quote for ${order.id} at $${plan.worstPrice.toFixed(2)} doesn't meet the $${limitPrice} limit`);
+          return null;
+        }
+
+        const { balance } = plan.quote;
+        if (balance) {
+          throw new Error(
+            `Not enough ${plan.from.symbol}: have ${fromUnits(balance.currentBalance, plan.from.decimals)}, ` +
+            `need ${fromUnits(balance.requiredBalance, plan.from.decimals)}`
+          );
+        }
+
+        if (!plan.quote.allowance || plan.from.address === NATIVE_TOKEN_ADDRESS) break;
+        if (approvals.length >= MAX_APPROVALS) {
+          throw new Error(`${plan.from.symbol} allowance is still short after ${approvals.length} approvals; swap not sent`);
+        }
+        approvals.push(await this.approve(plan.from, plan.quote.allowance.spender, plan.quote.fromAmount));
+        // The quoted transaction was built against the old allowance
+        plan = await this.plan(order, marketPrice);
+      }
+
+      const hash = await this.backend.sendTransaction(plan.quote.transaction);
+      console.log(`⛓️  Swap ${plan.from.symbol} → ${plan.to.symbol} sent for order ${order.id}: ${hash}`);
+      const sent = sentSwap(plan, approvals);
+
+      let receipt: TransactionReceiptSummary;
+      try {
+        receipt = await this.backend.waitForReceipt(hash);
+      } catch (error) {
+        // Funds may already have moved, so the order must not be rejected or swapped again
+        order.pendingTransaction = hash;
+        order.pendingSwap = pendingSwapOf(sent);
+        console.error(`⏳ No receipt yet for swap ${hash} (order ${order.id}): ${error.message}. Keeping the order open to reconcile`);
+        return null;
+      }
+      if (receipt.status !== "success") {
+        throw new Error(`Swap transaction ${hash} reverted`);
+      }
+      return this.fill(order, sent, receipt);
+    } finally {
+      this.swapping.delete(order.id);
+    }
+  }
+
+  // Reads the receipt of a swap sent earlier; a revert leaves the order to be swapped again
+  private async reconcile(order: Order): Promise<FillInstruction[]> {
+    const hash = order.pendingTransaction;
+    // Sent before the quote was saved with the order: the transaction has to be checked by hand
+    if (!order.pendingSwap) return [];
+    const sent = this.restoreSentSwap(order, order.pendingSwap);
+
+    this.swapping.add(order.id);
+    try {
+      const receipt = await this.backend.waitForReceipt(hash);
+      delete order.pendingTransaction;
+      delete order.pendingSwap;
+
+      if (receipt.status !== "success") {
+        console.error(`❌ Swap transaction ${hash} for order ${order.id} reverted; the order stays open`);
+        return [];
+      }
+      return [await this.fill(order, sent, receipt)];
+    } catch (error) {
+      console.error(`⏳ Still no receipt for swap ${hash} (order ${order.id}): ${error.message}`);
+      return [];
+    } finally {
+      this.swapping.delete(order.id);
+    }
+  }
+
+  private async fill(order: Order, sent: SentSwap, receipt: TransactionReceiptSummary): Promise<FillInstruction> {
+    const received = sent.to.address === NATIVE_TOKEN_ADDRESS
+      ? sent.toAmount
+      : transferredTo(receipt.logs, sent.to.address, this.backend.address) || sent.toAmount;
+    const settlement = this.settlement(sent, receipt, received);
+    const price = order.side === "sell" ? settlement.toAmount / sent.amount : settlement.fromAmount / sent.amount;
+    const nativePrice = await this.nativeAssetPrice().catch((): number | null => null);
+
+    console.log(
+      `✅ Swapped ${settlement.fromAmount} ${settlement.fromToken} for ${settlement.toAmount} ${settlement.toToken} ` +
+      `in block ${settlement.blockNumber} (gas ${settlement.gasCost} ${settlement.nativeAsset})`
+    );
+    return { price, amount: sent.amount, fee: nativePrice ? settlement.gasCost * nativePrice : 0, settlement };
+  }
+
+  // The tokens follow from the order's pair and side; the amounts were saved when the swap was sent
+  private restoreSentSwap(order: Order, pending: PendingSwap): SentSwap {
+    const pair = swapPairFor(this.backend.network, order.productId);
+    return {
+      from: order.side === "sell" ? pair.base : pair.quote,
+      to: order.side === "sell" ? pair.quote : pair.base,
+      amount: pending.amount,
+      fromAmount: BigInt(pending.fromAmount),
+      toAmount: BigInt(pending.toAmount),
+      minToAmount: BigInt(pending.minToAmount),
+      approvals: {
+        gasUsed: BigInt(pending.approvalGasUsed),
+        gasCost: BigInt(pending.approvalGasCost),
+        ...(pending.approvalTransactionHash ? { transactionHash: pending.approvalTransactionHash } : {})
+      }
+    };
+  }
+
+  private async plan(order: Order, marketPrice: number): Promise<SwapPlan> {
+    const pair = swapPairFor(this.backend.network, order.productId);
+    const amount = remainingAmount(order);
+
+    if (order.side === "sell") {
+      const quote = await this.requireQuote(pair.base, pair.quote, toUnits(amount, pair.base.decimals));
+      return {
+        from: pair.base,
+        to: pair.quote,
+        quote,
+        amount,
+        worstPrice: fromUnits(quote.minToAmount, pair.quote.decimals) / amount
+      };
+    }
+
+    // Swaps are exact-input, so size the spend from a probe quote at the market price
+    const probe = await this.requireQuote(pair.quote, pair.base, toUnits(amount * marketPrice, pair.quote.decimals));
+    const wanted = toUnits(amount, pair.base.decimals);
+    if (probe.toAmount === 0n) {
+      throw new Error(`No liquidity to swap ${pair.quote.symbol} for ${pair.base.symbol} on ${this.backend.network}`);
+    }
+    // Rounded up, so the minimum output at the probed rate is at least the order amount
+    const divisor = probe.toAmount * BigInt(10000 - this.slippageBps);
+    const spend = (wanted * probe.fromAmount * 10000n + divisor - 1n) / divisor;
+    const quote = await this.requireQuote(pair.quote, pair.base, spend);
+
+    if (quote.minToAmount < wanted) {
+      throw new Error(`Price moved while quoting; ${pair.base.symbol} is no longer available at the probed rate`);
+    }
+    return {
+      from: pair.quote,
+      to: pair.base,
+      quote,
+      amount,
+      worstPrice: fromUnits(quote.fromAmount, pair.quote.decimals) / amount
+    };
+  }
+
+  private async requireQuote(from: SwapToken, to: SwapToken, fromAmount: bigint): Promise<SwapQuote> {
+    const quote = await this.backend.quote({ from, to, fromAmount, slippageBps: this.slippageBps });
+    if (!quote) {
+      throw new Error(`No liquidity to swap ${from.symbol} for ${to.symbol} on ${this.backend.network}`);
+    }
+    return quote;
+  }
+
+  private async approve(token: SwapToken, spender: string, amount: bigint): Promise<TransactionReceiptSummary> {
+    const hash = await this.backend.sendTransaction(approveTransaction(token.address, spender, amount));
+    console.log(`🔓 Approving ${fromUnits(amount, token.decimals)} ${token.symbol} for ${spender}: ${hash}`);
+    const receipt = await this.backend.waitForReceipt(hash);
+    if (receipt.status !== "success") {
+      throw new Error(`Approval transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  private settlement(sent: SentSwap, receipt: TransactionReceiptSummary, received: bigint): OnChainSettlement {
+    const { approvals } = sent;
+    const gasUsed = approvals.gasUsed + receipt.gasUsed;
+    const gasCost = approvals.gasCost + receipt.gasUsed * receipt.effectiveGasPrice;
+
+    return {
+      network: this.backend.network,
+      transactionHash: receipt.transactionHash,
+      ...(approvals.transactionHash ? { approvalTransactionHash: approvals.transactionHash } : {}),
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: gasUsed.toString(),
+      gasCost: fromUnits(gasCost, 18),
+      nativeAsset: this.nativeAsset,
+      fromToken: sent.from.symbol,
+      toToken: sent.to.symbol,
+      fromAmount: fromUnits(sent.fromAmount, sent.from.decimals),
+      toAmount: fromUnits(received, sent.to.decimals),
+      minToAmount: fromUnits(sent.minToAmount, sent.to.decimals),
+      slippageBps: this.slippageBps
+    };
+  }
+}
+
+function sentSwap(plan: SwapPlan, approvals: TransactionReceiptSummary[]): SentSwap {
+  const approval = approvals[approvals.length - 1];
+  return {
+    from: plan.from,
+    to: plan.to,
+    amount: plan.amount,
+    fromAmount: plan.quote.fromAmount,
+    toAmount: plan.quote.toAmount,
+    minToAmount: plan.quote.minToAmount,
+    approvals: {
+      gasUsed: approvals.reduce((sum, r) => sum + r.gasUsed, 0n),
+      gasCost: approvals.reduce((sum, r) => sum + r.gasUsed * r.effectiveGasPrice, 0n),
+      ...(approval ? { transactionHash: approval.transactionHash } : {})
+    }
+  };
+}
+
+// Bigints as strings, so the order can be saved as JSON
+function pendingSwapOf(sent: SentSwap): PendingSwap {
+  return {
+    amount: sent.amount,
+    fromAmount: sent.fromAmount.toString(),
+    toAmount: sent.toAmount.toString(),
+    minToAmount: sent.minToAmount.toString(),
+    approvalGasUsed: sent.approvals.gasUsed.toString(),
+    approvalGasCost: sent.approvals.gasCost.toString(),
+    ...(sent.approvals.transactionHash ? { approvalTransactionHash: sent.approvals.transactionHash } : {})
+  };
+}
@@ -0,0 +1,49 @@
+import { SwapNetwork, SwapToken } from "./types";
+
+// EIP-7528 placeholder the swap API uses for the chain's native asset
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const SWAP_TOKENS: Record<SwapNetwork, SwapToken[]> = {
+  base: [
+    { symbol: "ETH", address: NATIVE_TOKEN_ADDRESS, decimals: 18 },
+    { symbol: "WETH", address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+    { symbol: "USDC", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 },
+    { symbol: "CBBTC", address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf", decimals: 8 },
+    { symbol: "CBETH", address: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22", decimals: 18 },
+    { symbol: "DAI", address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", decimals: 18 }
+  ],
+  ethereum: [
+    { symbol: "ETH", address: NATIVE_TOKEN_ADDRESS, decimals: 18 },
+    { symbol: "WETH", address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", decimals: 18 },
+    { symbol: "USDC", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6 },
+    { symbol: "USDT", address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 },
+    { symbol: "CBBTC", address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf", decimals: 8 },
+    { symbol: "DAI", address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", decimals: 18 }
+  ]
+};
+
+// Exchange assets that trade on chain as a different token
+const ON_CHAIN_ASSETS: Record<string, string> = {
+  USD: "USDC",
+  BTC: "CBBTC"
+};
+
+export function isSwapNetwork(network: string): network is SwapNetwork {
+  return network in SWAP_TOKENS;
+}
+
+export function resolveSwapToken(network: SwapNetwork, asset: string): SwapToken {
+  const symbol = asset.toUpperCase();
+  const token = SWAP_TOKENS[network].find((candidate) => candidate.symbol === (ON_CHAIN_ASSETS[symbol] || symbol));
+  if (!token) {
+    const supported = SWAP_TOKENS[network].map((candidate) => candidate.symbol).join(", ");
+    throw new Error(`${asset} can't be swapped on ${network}. Supported tokens: ${supported}`);
+  }
+  return token;
+}
+
+// "BTC-USD" on Base is cbBTC against USDC
+export function swapPairFor(network: SwapNetwork, productId: string): { base: SwapToken; quote: SwapToken } {
+  const [base, quote] = productId.split("-");
+  return { base: resolveSwapToken(network, base), quote: resolveSwapToken(network, quote || "USD") };
+}
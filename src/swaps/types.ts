@@ -0,0 +1,64 @@
+// Networks the CDP swap API quotes on that the agent can also read balances from
+export type SwapNetwork = "base" | "ethereum";
+
+export interface SwapToken {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+}
+
+export interface EvmTransaction {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value: bigint;
+  gas?: bigint;
+}
+
+export interface SwapRequest {
+  from: SwapToken;
+  to: SwapToken;
+  // Exact input, in the from token's smallest unit
+  fromAmount: bigint;
+  slippageBps: number;
+}
+
+export interface SwapQuote {
+  fromAmount: bigint;
+  toAmount: bigint;
+  minToAmount: bigint;
+  // Set when the taker must approve spender for the from token before swapping
+  allowance?: { spender: `0x${string}`; currentAllowance: bigint };
+  // Set when the taker holds less of the from token than the swap needs
+  balance?: { currentBalance: bigint; requiredBalance: bigint };
+  // Ready to send, including any permit signature the route needs
+  transaction: EvmTransaction;
+}
+
+export interface TransactionLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface TransactionReceiptSummary {
+  transactionHash: string;
+  status: "success" | "reverted";
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  logs: TransactionLog[];
+}
+
+/**
+ * Quotes, signs and sends swaps for one account on one network. The CDP
+ * implementation talks to the CDP swap API; anything else that can quote
+ * and send transactions (e.g. a local node stand-in) can take its place.
+ */
+export interface SwapBackend {
+  readonly network: SwapNetwork;
+  readonly address: string;
+  // null when there is no liquidity for the pair
+  quote(request: SwapRequest): Promise<SwapQuote | null>;
+  sendTransaction(transaction: EvmTransaction): Promise<string>;
+  waitForReceipt(transactionHash: string): Promise<TransactionReceiptSummary>;
+}
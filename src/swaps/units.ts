@@ -0,0 +1,16 @@
+// Token amounts travel on chain as integers in the token's smallest unit
+
+export function toUnits(amount: number, decimals: number): bigint {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+  // The shortest decimal form avoids binary noise such as 0.1 becoming 0.1000000000000000055
+  const text = /e/i.test(String(amount)) ? amount.toFixed(Math.min(decimals, 100)) : String(amount);
+  const [whole, fraction = ""] = text.split(".");
+  return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, "0"));
+}
+
+export function fromUnits(units: bigint, decimals: number): number {
+  const digits = units.toString().padStart(decimals + 1, "0");
+  return parseFloat(`${digits.slice(0, digits.length - decimals)}.${digits.slice(digits.length - decimals) || "0"}`);
+}
@@ -0,0 +1,394 @@
+import express, { NextFunction, Request, Response, Router } from "express";
+import { CoinbaseTradingAgent } from "../agent";
+import { ApiKeyStore, AuditLog, can, Permission, Principal, ROLE_PERMISSIONS } from "../auth";
+import { isOrderActive, OrderType, TradeConfig } from "../orders";
+import { totalBalances } from "../portfolio";
+import { RiskLimits } from "../risk";
+import { TradingStrategy } from "../strategies";
+
+const ORDER_TYPES: OrderType[] = ["market", "limit", "stop_market", "stop_limit", "take_profit", "trailing_stop"];
+const STRATEGY_TYPES: Array<TradingStrategy["type"]> = ["dca", "grid", "momentum", "mean_reversion", "rebalance"];
+
+// Carries the HTTP status for problems with the request itself
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Called after a request changes alerts or strategies, so the server can push the new lists
+export type ApiChangeListener = (resource: "alerts" | "strategies") => void;
+
+export interface ApiOptions {
+  // null turns authentication off and treats every caller as an admin; only for local development
+  auth: ApiKeyStore | null;
+  audit?: AuditLog;
+  onChange?: ApiChangeListener;
+}
+
+// Stands in for the caller when authentication is off
+export const UNAUTHENTICATED_PRINCIPAL: Principal = { id: "anonymous", role: "admin" };
+
+const RISK_LIMIT_FIELDS = ["maxPositionSize", "maxOrderNotional", "maxDailyLoss", "maxOrdersPerMinute", "allowedProducts", "resizeOrders"];
+
+type Handler = (req: Request, res: Response) => Promise<void> | void;
+
+// Express 4 doesn't catch rejected promises, so every handler goes through here
+function route(handler: Handler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    Promise.resolve(handler(req, res)).catch(next);
+  };
+}
+
+// "Authorization: Bearer <key>", or the key alone in X-API-Key
+export function requestToken(authorization: string | undefined, apiKey?: string | string[]): string | undefined {
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return bearer[1].trim();
+  return typeof apiKey === "string" ? apiKey : undefined;
+}
+
+function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (can(res.locals.principal, permission)) {
+      next();
+      return;
+    }
+    res.locals.auditDetail = `needs ${permission} permission`;
+    res.status(403).json({ error: `Your role (${res.locals.principal.role}) can't do this: it needs ${permission} permission` });
+  };
+}
+
+function requireString(body: any, field: string): string {
+  const value = body?.[field];
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ApiError(400, `"${field}" is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: any, field: string): string | undefined {
+  return body?.[field] === undefined || body[field] === null ? undefined : requireString(body, field);
+}
+
+function tradeConfigFromBody(body: any): TradeConfig {
+  const side = requireString(body, "side");
+  if (side !== "buy" && side !== "sell") {
+    throw new ApiError(400, `"side" must be buy or sell`);
+  }
+  const orderType = (optionalString(body, "orderType") || "market") as OrderType;
+  if (!ORDER_TYPES.includes(orderType)) {
+    throw new ApiError(400, `"orderType" must be one of ${ORDER_TYPES.join(", ")}`);
+  }
+  const amount = optionalString(body, "amount");
+  const quoteAmount = optionalString(body, "quoteAmount");
+  if (amount === undefined && quoteAmount === undefined) {
+    throw new ApiError(400, `"amount" or "quoteAmount" is required`);
+  }
+  if (body.lotIds !== undefined && !Array.isArray(body.lotIds)) {
+    throw new ApiError(400, `"lotIds" must be an array of lot ids`);
+  }
+
+  return {
+    productId: requireString(body, "productId").toUpperCase(),
+    orderType,
+    side,
+    amount,
+    quoteAmount,
+    limitPrice: optionalString(body, "limitPrice"),
+    stopPrice: optionalString(body, "stopPrice"),
+    trailingPercent: optionalString(body, "trailingPercent"),
+    trailingAmount: optionalString(body, "trailingAmount"),
+    expiresAt: optionalString(body, "expiresAt"),
+    lotIds: body.lotIds
+  };
+}
+
+// Orders of other accounts are looked up as if they didn't exist, as GET /orders leaves them out
+function accountOrder(agent: CoinbaseTradingAgent, orderId: string) {
+  const order = agent.getOrderHistory().find((entry) => entry.id === orderId);
+  if (!order) throw new ApiError(404, `Unknown order ${orderId}`);
+  return order;
+}
+
+// Validates a partial RiskLimits body field by field; null clears a limit
+function riskLimitsFromBody(body: any): Partial<RiskLimits> {
+  const fields = body && typeof body === "object" && !Array.isArray(body) ? body : {};
+  const unknown = Object.keys(fields).filter((field) => !RISK_LIMIT_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    throw new ApiError(400, `Unknown risk limit(s): ${unknown.join(", ")}. Allowed: ${RISK_LIMIT_FIELDS.join(", ")}`);
+  }
+  const isAmount = (value: unknown) => typeof value === "number" && isFinite(value) && value >= 0;
+  const limits: Partial<RiskLimits> & Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === null) {
+      limits[field] = undefined;
+    } else if (field === "resizeOrders") {
+      if (typeof value !== "boolean") throw new ApiError(400, `"resizeOrders" must be true or false`);
+      limits.resizeOrders = value;
+    } else if (field === "allowedProducts") {
+      if (!Array.isArray(value) || !value.every((productId) => typeof productId === "string")) {
+        throw new ApiError(400, `"allowedProducts" must be an array of product ids`);
+      }
+      limits.allowedProducts = value.map((productId: string) => productId.toUpperCase());
+    } else if (field === "maxPositionSize") {
+      if (typeof value !== "object" || Array.isArray(value) || !Object.values(value).every(isAmount)) {
+        throw new ApiError(400, `"maxPositionSize" must map assets to non-negative numbers, e.g. { "BTC": 0.5 }`);
+      }
+      limits.maxPositionSize = value as Record<string, number>;
+    } else {
+      if (!isAmount(value)) throw new ApiError(400, `"${field}" must be a non-negative number`);
+      limits[field] = value;
+    }
+  }
+  return limits;
+}
+
+/**
+ * REST routes over a running agent. Every request needs an API key; its
+ * role decides what the caller may do. Every request is written to the
+ * audit log with the caller's identity and outcome. Orders go through
+ * executeTrade, so the same product, risk and venue checks apply as in
+ * the chat; a rejected order answers 400 with the rejection reason.
+ */
+export function createApiRouter(agent: CoinbaseTradingAgent, options: ApiOptions): Router {
+  const { auth, audit = new AuditLog(), onChange = () => {} } = options;
+  const router = express.Router();
+  router.use(express.json());
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const action = `${req.method} ${req.path}`;
+    const token = requestToken(req.headers.authorization, req.headers["x-api-key"]);
+    const principal = auth ? auth.authenticate(token) : UNAUTHENTICATED_PRINCIPAL;
+
+    if (!principal) {
+      audit.record({ actor: "anonymous", role: null, action, outcome: "denied", detail: token ? "invalid API key" : "missing API key" });
+      res.status(401).json({ error: "A valid API key is required (Authorization: Bearer <key>)" });
+      return;
+    }
+
+    res.locals.principal = principal;
+    // Every authenticated request is recorded with its outcome, reads included
+    res.on("finish", () => {
+      audit.record({
+        actor: principal.id,
+        role: principal.role,
+        action,
+        outcome: res.statusCode === 403 ? "denied" : res.statusCode >= 400 ? "failed" : "allowed",
+        detail: res.locals.auditDetail || (req.body && Object.keys(req.body).length ? JSON.stringify(req.body).slice(0, 500) : undefined)
+      });
+    });
+    next();
+  });
+
+  router.get("/me", requirePermission("read"), route((req, res) => {
+    const principal: Principal = res.locals.principal;
+    res.json({ ...principal, permissions: ROLE_PERMISSIONS[principal.role] });
+  }));
+
+  router.get("/portfolio", requirePermission("read"), route(async (req, res) => {
+    res.json(await agent.analyzePortfolio());
+  }));
+
+  // On-chain balances per configured network plus per-asset totals; paper trading has none
+  router.get("/balances", requirePermission("read"), route(async (req, res) => {
+    const networks = await agent.getNetworkBalances();
+    res.json({ mainnet: !!agent.getNetworkConfig()?.mainnet, networks, totals: totalBalances(networks) });
+  }));
+
+  // Latest ticker for every product the agent is tracking; products without data yet carry only their id
+  router.get("/market", requirePermission("read"), route(async (req, res) => {
+    res.json(await Promise.all(
+      agent.getTrackedProducts().map(async (productId) => (await agent.getMarketData(productId)) || { productId })
+    ));
+  }));
+
+  // Start or stop tracking a product's price without an alert or strategy on it
+  router.post("/subscriptions", requirePermission("trade"), route(async (req, res) => {
+    const productId = requireString(req.body, "productId").toUpperCase();
+    const catalog = agent.listProducts();
+    if (catalog.length > 0 && !catalog.some((product) => product.productId === productId)) {
+      throw new ApiError(400, `Unknown product ${productId}`);
+    }
+    agent.subscribe(productId);
+    res.status(201).json((await agent.getMarketData(productId)) || { productId });
+  }));
+
+  router.delete("/subscriptions/:productId", requirePermission("trade"), route((req, res) => {
+    if (!agent.unsubscribe(req.params.productId)) {
+      throw new ApiError(404, `Not subscribed to ${req.params.productId.toUpperCase()}`);
+    }
+    res.status(204).end();
+  }));
+
+  // ?q= filters by part of the product id
+  router.get("/products", requirePermission("read"), route((req, res) => {
+    res.json(agent.listProducts(typeof req.query.q === "string" ? req.query.q : undefined));
+  }));
+
+  // ?status=open for active orders only; ?productId= to filter
+  router.get("/orders", requirePermission("read"), route((req, res) => {
+    const productId = typeof req.query.productId === "string" ? req.query.productId.toUpperCase() : undefined;
+    const orders = agent.getOrderHistory()
+      .filter((order) => !productId || order.productId === productId)
+      .filter((order) => req.query.status !== "open" || isOrderActive(order));
+    res.json(orders);
+  }));
+
+  router.get("/orders/:id", requirePermission("read"), route((req, res) => {
+    res.json(accountOrder(agent, req.params.id));
+  }));
+
+  router.post("/orders", requirePermission("trade"), route(async (req, res) => {
+    const config: TradeConfig = { ...tradeConfigFromBody(req.body), placedBy: res.locals.principal.id };
+    try {
+      const order = await agent.executeTrade(config);
+      res.locals.auditDetail = `${order.id}: ${order.side} ${order.amount} ${order.productId} (${order.status})`;
+      res.status(201).json(order);
+    } catch (error) {
+      throw new ApiError(400, error.message);
+    }
+  }));
+
+  router.delete("/orders/:id", requirePermission("trade"), route(async (req, res) => {
+    accountOrder(agent, req.params.id);
+    if (!(await agent.cancelOrder(req.params.id))) {
+      throw new ApiError(409, `Order ${req.params.id} is no longer open`);
+    }
+    res.json(agent.getOrder(req.params.id));
+  }));
+
+  router.get("/alerts", requirePermission("read"), route((req, res) => {
+    res.json(agent.listPriceAlerts());
+  }));
+
+  router.post("/alerts", requirePermission("alerts"), route((req, res) => {
+    const productId = requireString(req.body, "productId").toUpperCase();
+    const targetPrice = parseFloat(requireString(req.body, "targetPrice"));
+    const condition = requireString(req.body, "condition");
+    if (!(targetPrice > 0)) throw new ApiError(400, `"targetPrice" must be a positive number`);
+    if (condition !== "above" && condition !== "below") {
+      throw new ApiError(400, `"condition" must be above or below`);
+    }
+
+    const alertId = agent.createPriceAlert(productId, targetPrice, condition);
+    onChange("alerts");
+    res.status(201).json(agent.listPriceAlerts().find((alert) => alert.id === alertId));
+  }));
+
+  router.delete("/alerts/:id", requirePermission("alerts"), route((req, res) => {
+    if (!agent.removePriceAlert(req.params.id)) {
+      throw new ApiError(404, `Unknown alert ${req.params.id}`);
+    }
+    onChange("alerts");
+    res.status(204).end();
+  }));
+
+  router.get("/strategies", requirePermission("read"), route((req, res) => {
+    res.json(agent.listStrategies());
+  }));
+
+  // { type, productId, parameters, name?, enabled? }; parameters are those of the matching create*Strategy helper
+  router.post("/strategies", requirePermission("strategies"), route((req, res) => {
+    const type = requireString(req.body, "type") as TradingStrategy["type"];
+    if (!STRATEGY_TYPES.includes(type)) {
+      throw new ApiError(400, `"type" must be one of ${STRATEGY_TYPES.join(", ")}`);
+    }
+    const productId = type === "rebalance"
+      ? optionalString(req.body, "productId") || "PORTFOLIO"
+      : requireString(req.body, "productId").toUpperCase();
+    const parameters = req.body.parameters;
+    if (!parameters || typeof parameters !== "object" || Array.isArray(parameters)) {
+      throw new ApiError(400, `"parameters" must be an object`);
+    }
+
+    const strategyId = agent.createStrategy({
+      name: optionalString(req.body, "name") || `${type} - ${productId}`,
+      enabled: req.body.enabled !== false,
+      productId,
+      type,
+      parameters
+    });
+    onChange("strategies");
+    res.status(201).json(agent.listStrategies().find((strategy) => strategy.id === strategyId));
+  }));
+
+  // { enabled?, parameters? }: toggles the strategy and/or merges new parameters
+  router.patch("/strategies/:id", requirePermission("strategies"), route(async (req, res) => {
+    const strategyId = req.params.id;
+    if (!agent.listStrategies().some((strategy) => strategy.id === strategyId)) {
+      throw new ApiError(404, `Unknown strategy ${strategyId}`);
+    }
+    if (req.body.enabled !== undefined && typeof req.body.enabled !== "boolean") {
+      throw new ApiError(400, `"enabled" must be true or false`);
+    }
+
+    if (req.body.parameters !== undefined) {
+      agent.updateStrategyParameters(strategyId, req.body.parameters);
+    }
+    if (req.body.enabled === true) {
+      agent.enableStrategy(strategyId);
+    } else if (req.body.enabled === false) {
+      await agent.disableStrategy(strategyId);
+    }
+    onChange("strategies");
+    res.json(agent.listStrategies().find((strategy) => strategy.id === strategyId));
+  }));
+
+  router.get("/risk", requirePermission("read"), route((req, res) => {
+    res.json(agent.getRiskStatus());
+  }));
+
+  // Partial RiskLimits; the kill switch has its own route since engaging it cancels orders
+  router.patch("/risk", requirePermission("risk"), route((req, res) => {
+    agent.updateRiskLimits(riskLimitsFromBody(req.body));
+    res.json(agent.getRiskStatus());
+  }));
+
+  router.post("/risk/kill-switch", requirePermission("risk"), route(async (req, res) => {
+    if (typeof req.body.engaged !== "boolean") {
+      throw new ApiError(400, `"engaged" must be true or false`);
+    }
+    if (req.body.engaged) {
+      res.locals.auditDetail = `engaged, ${await agent.engageKillSwitch()} open orders cancelled`;
+    } else {
+      agent.releaseKillSwitch();
+      res.locals.auditDetail = "released";
+    }
+    res.json(agent.getRiskStatus());
+  }));
+
+  // ?actor=&from=&to= (ISO dates) &limit=; newest first
+  router.get("/audit", requirePermission("audit"), route(async (req, res) => {
+    const date = (value: unknown) => {
+      if (typeof value !== "string") return undefined;
+      const parsed = new Date(value);
+      if (isNaN(parsed.getTime())) throw new ApiError(400, `Invalid date: ${value}`);
+      return parsed;
+    };
+    res.json(await audit.list({
+      actor: typeof req.query.actor === "string" ? req.query.actor : undefined,
+      from: date(req.query.from),
+      to: date(req.query.to),
+      limit: req.query.limit ? Math.min(parseInt(String(req.query.limit), 10) || 100, 1000) : undefined
+    }));
+  }));
+
+  router.use((req: Request, res: Response) => {
+    res.status(404).json({ error: `No route for ${req.method} ${req.path}` });
+  });
+
+  // Malformed JSON bodies come through here too, with status 400 set by express.json()
+  router.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    const status = error instanceof ApiError ? error.status : error.status || 500;
+    res.locals.auditDetail = error.message;
+    if (status >= 500) {
+      console.error(`❌ ${req.method} ${req.path} failed:`, error);
+    }
+    res.status(status).json({ error: status >= 500 ? "Internal server error" : error.message });
+  });
+
+  return router;
+}
@@ -0,0 +1,39 @@
+import { Server } from "socket.io";
+import { CoinbaseTradingAgent } from "../agent";
+import { EXECUTION_EVENTS } from "../execution";
+
+// Agent events relayed to every connected client under the same name
+export const STREAMED_EVENTS = ["priceAlert", "marketDataUpdated", "accountChanged", "accountFunded", "tokensSent", ...EXECUTION_EVENTS];
+
+/**
+ * Relays the agent's events to Socket.IO clients. A client gets a
+ * "snapshot" of market data, alerts, strategies and open orders when it
+ * connects, then live events. Returns a function that detaches the relay.
+ */
+export function streamAgentEvents(agent: CoinbaseTradingAgent, io: Server): () => void {
+  const relays = STREAMED_EVENTS.map((event) => {
+    const relay = (payload: unknown) => io.emit(event, payload);
+    agent.on(event, relay);
+    return { event, relay };
+  });
+
+  io.on("connection", async (socket) => {
+    socket.emit("snapshot", await agentSnapshot(agent));
+  });
+
+  return () => {
+    for (const { event, relay } of relays) {
+      agent.off(event, relay);
+    }
+  };
+}
+
+export async function agentSnapshot(agent: CoinbaseTradingAgent) {
+  const market = await Promise.all(agent.getTrackedProducts().map((productId) => agent.getMarketData(productId)));
+  return {
+    market: market.filter((data) => data !== null),
+    alerts: agent.listPriceAlerts(),
+    strategies: agent.listStrategies(),
+    openOrders: agent.listOpenOrders()
+  };
+}
@@ -0,0 +1,10 @@
+export {
+  ApiChangeListener,
+  ApiError,
+  ApiOptions,
+  createApiRouter,
+  requestToken,
+  UNAUTHENTICATED_PRINCIPAL
+} from "./api";
+export { agentSnapshot, STREAMED_EVENTS, streamAgentEvents } from "./events";
+export { createWebServer, DASHBOARD_DIR, WebServer, WebServerOptions } from "./server";
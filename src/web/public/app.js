@@ -0,0 +1,377 @@
+/* Dashboard client: signs in with an API key, loads state once, then stays current from the Socket.IO event stream */
+(function () {
+  "use strict";
+
+  const ACTIVE_STATUSES = ["pending", "open", "partially_filled"];
+  const ORDER_EVENTS = [
+    "orderCreated",
+    "orderOpened",
+    "orderPartiallyFilled",
+    "orderFilled",
+    "orderCancelled",
+    "orderRejected",
+    "orderExpired",
+    "orderTriggered",
+    "orderTrailed",
+    "orderPendingChanged"
+  ];
+
+  const TOKEN_KEY = "tradingAgentApiKey";
+
+  const state = {
+    token: localStorage.getItem(TOKEN_KEY),
+    // The signed-in principal from GET /me, with its permissions
+    me: null,
+    socket: null,
+    market: new Map(),
+    orders: new Map(),
+    strategies: [],
+    alerts: [],
+    portfolio: null
+  };
+
+  const $ = (id) => document.getElementById(id);
+
+  // Builds an element; strings become text nodes so nothing from the API is parsed as HTML
+  function el(tag, props, ...children) {
+    const node = document.createElement(tag);
+    Object.assign(node, props || {});
+    for (const child of children) {
+      if (child !== null && child !== undefined) {
+        node.append(child instanceof Node ? child : String(child));
+      }
+    }
+    return node;
+  }
+
+  function usd(value) {
+    if (value === null || value === undefined || !isFinite(value)) return "—";
+    const digits = Math.abs(value) < 1 ? 4 : 2;
+    return "$" + Number(value).toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  }
+
+  async function api(method, path, body) {
+    const headers = body ? { "Content-Type": "application/json" } : {};
+    if (state.token) headers.Authorization = "Bearer " + state.token;
+
+    const response = await fetch(path, { method, headers, body: body ? JSON.stringify(body) : undefined });
+    if (response.status === 401) {
+      signOut("Your API key was not accepted");
+      throw new Error("Not signed in");
+    }
+    if (response.status === 204) return null;
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "HTTP " + response.status);
+    return data;
+  }
+
+  function allowed(permission) {
+    return !!state.me && state.me.permissions.includes(permission);
+  }
+
+  function log(message, isError) {
+    const list = $("activity");
+    list.prepend(el("li", { className: isError ? "error" : "" }, new Date().toLocaleTimeString() + "  " + message));
+    while (list.children.length > 100) list.lastChild.remove();
+  }
+
+  // Runs a user action, reporting failures in the activity feed instead of throwing
+  async function attempt(action) {
+    try {
+      await action();
+    } catch (error) {
+      log(error.message, true);
+    }
+  }
+
+  // ==================== RENDERING ====================
+
+  function renderPrices(flashed) {
+    const rows = Array.from(state.market.values())
+      .sort((a, b) => a.productId.localeCompare(b.productId))
+      .map((data) => {
+        const change = data.priceChange24h;
+        const row = el("tr", {},
+          el("td", {}, data.productId),
+          el("td", {}, usd(data.price)),
+          el("td", { className: change > 0 ? "up" : change < 0 ? "down" : "" },
+            change === undefined || change === null ? "—" : change.toFixed(2) + "%"),
+          el("td", { className: "muted" }, data.timestamp ? new Date(data.timestamp).toLocaleTimeString() : "—")
+        );
+        if (flashed && flashed.has(data.productId)) row.className = "flash";
+        return row;
+      });
+    $("prices").replaceChildren(...rows);
+  }
+
+  // Values holdings at the latest streamed prices, falling back to the portfolio's own valuation
+  function renderPortfolio() {
+    const portfolio = state.portfolio;
+    if (!portfolio) return;
+
+    const holdings = portfolio.holdings.map((holding) => {
+      const live = state.market.get(holding.asset + "-USD");
+      return { ...holding, value: live ? holding.amount * live.price : holding.value };
+    });
+    const total = holdings.reduce((sum, holding) => sum + holding.value, 0);
+    $("portfolio-total").textContent = usd(total);
+
+    const bars = holdings
+      .sort((a, b) => b.value - a.value)
+      .map((holding) => {
+        const share = total > 0 ? (holding.value / total) * 100 : 0;
+        const fill = el("div", { className: "fill" });
+        fill.style.width = share.toFixed(1) + "%";
+        return el("div", { className: "bar" },
+          el("span", {}, holding.asset),
+          el("div", { className: "track" }, fill),
+          el("span", { className: "muted" }, share.toFixed(1) + "% · " + usd(holding.value))
+        );
+      });
+    $("allocation").replaceChildren(...(bars.length ? bars : [el("p", { className: "muted" }, "No holdings")]));
+  }
+
+  function renderOrders() {
+    const rows = Array.from(state.orders.values())
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .map((order) => {
+        const price = order.limitPrice || order.stopPrice;
+        const cancel = el("button", { className: "secondary", textContent: "Cancel", disabled: !allowed("trade") });
+        cancel.onclick = () => attempt(() => api("DELETE", "/orders/" + encodeURIComponent(order.id)));
+        return el("tr", {},
+          el("td", { title: order.id }, order.orderType + " " + order.productId),
+          el("td", { className: order.side }, order.side),
+          el("td", {}, order.amount),
+          el("td", {}, price ? usd(parseFloat(price)) : "—"),
+          el("td", { className: "muted" }, order.triggeredAt || order.orderType === "limit" ? order.status : "armed"),
+          el("td", {}, cancel)
+        );
+      });
+    $("orders").replaceChildren(...(rows.length ? rows : [el("tr", {}, el("td", { className: "muted", colSpan: 6 }, "No open orders"))]));
+  }
+
+  function renderStrategies() {
+    const rows = state.strategies.map((strategy) => {
+      const toggle = el("input", {
+        type: "checkbox",
+        checked: strategy.enabled,
+        disabled: !allowed("strategies"),
+        title: allowed("strategies") ? "" : "Only admins can enable or disable strategies"
+      });
+      toggle.onchange = () => attempt(async () => {
+        toggle.disabled = true;
+        try {
+          await api("PATCH", "/strategies/" + encodeURIComponent(strategy.id), { enabled: toggle.checked });
+        } finally {
+          toggle.disabled = false;
+        }
+      });
+      return el("tr", {},
+        el("td", {}, strategy.name),
+        el("td", { className: "muted" }, strategy.type),
+        el("td", {}, strategy.productId),
+        el("td", {}, toggle)
+      );
+    });
+    $("strategies").replaceChildren(...(rows.length ? rows : [el("tr", {}, el("td", { className: "muted", colSpan: 4 }, "No strategies"))]));
+  }
+
+  function renderAlerts() {
+    const rows = state.alerts.map((alert) => {
+      const remove = el("button", { className: "secondary", textContent: "Remove", disabled: !allowed("alerts") });
+      remove.onclick = () => attempt(() => api("DELETE", "/alerts/" + encodeURIComponent(alert.id)));
+      return el("tr", {},
+        el("td", {}, alert.productId),
+        el("td", {}, alert.condition + " " + usd(alert.targetPrice)),
+        el("td", { className: "muted" }, alert.active ? "active" : "triggered"),
+        el("td", {}, remove)
+      );
+    });
+    $("alerts").replaceChildren(...(rows.length ? rows : [el("tr", {}, el("td", { className: "muted", colSpan: 4 }, "No alerts"))]));
+  }
+
+  // ==================== DATA ====================
+
+  async function loadPortfolio() {
+    state.portfolio = await api("GET", "/portfolio");
+    renderPortfolio();
+  }
+
+  async function loadProducts() {
+    const products = await api("GET", "/products");
+    $("product-list").replaceChildren(...products.map((product) => el("option", { value: product.productId })));
+  }
+
+  function applySnapshot(snapshot) {
+    state.market = new Map(snapshot.market.map((data) => [data.productId, data]));
+    state.orders = new Map(snapshot.openOrders.map((order) => [order.id, order]));
+    state.strategies = snapshot.strategies;
+    state.alerts = snapshot.alerts;
+    renderPrices();
+    renderOrders();
+    renderStrategies();
+    renderAlerts();
+    renderPortfolio();
+  }
+
+  function applyOrder(order) {
+    if (ACTIVE_STATUSES.includes(order.status)) {
+      state.orders.set(order.id, order);
+    } else {
+      state.orders.delete(order.id);
+    }
+    renderOrders();
+  }
+
+  function connect() {
+    const socket = io({ auth: { token: state.token } });
+    state.socket = socket;
+
+    socket.on("connect", () => {
+      $("connection").textContent = "Live";
+      $("connection").className = "badge online";
+    });
+    socket.on("disconnect", () => {
+      $("connection").textContent = "Disconnected";
+      $("connection").className = "badge offline";
+    });
+    socket.on("connect_error", (error) => {
+      if (/API key/.test(error.message)) signOut("Your API key was not accepted");
+    });
+
+    socket.on("snapshot", applySnapshot);
+
+    socket.on("marketDataUpdated", (tickers) => {
+      for (const ticker of tickers) state.market.set(ticker.productId, ticker);
+      renderPrices(new Set(tickers.map((ticker) => ticker.productId)));
+      renderPortfolio();
+    });
+
+    for (const event of ORDER_EVENTS) {
+      socket.on(event, applyOrder);
+    }
+    socket.on("orderRejected", (order) => log("Order rejected: " + (order.statusReason || order.id), true));
+
+    socket.on("tradeExecuted", (order) => {
+      log(order.side.toUpperCase() + " " + order.filledAmount + " " + order.productId + " at " + usd(order.executedPrice));
+      attempt(loadPortfolio);
+    });
+
+    socket.on("priceAlert", (alert) => {
+      log("🚨 " + alert.productId + " hit " + usd(alert.targetPrice) + " (now " + usd(alert.currentPrice) + ")");
+      const known = state.alerts.find((entry) => entry.id === alert.alertId);
+      if (known) known.active = false;
+      renderAlerts();
+    });
+
+    socket.on("riskRejected", ({ order, reason }) => log("Risk check blocked " + order.productId + ": " + reason, true));
+
+    socket.on("alerts", (alerts) => {
+      state.alerts = alerts;
+      renderAlerts();
+    });
+    socket.on("strategies", (strategies) => {
+      state.strategies = strategies;
+      renderStrategies();
+    });
+  }
+
+  // ==================== SESSION ====================
+
+  // Enables only the controls the signed-in role may use; the server enforces the same rules
+  function applyPermissions() {
+    const me = state.me;
+    $("identity").textContent = me.id + " (" + me.role + ")";
+    $("sign-out").hidden = false;
+    for (const field of $("ticket-form").elements) field.disabled = !allowed("trade");
+    for (const field of $("watch-form").elements) field.disabled = !allowed("trade");
+    for (const field of $("alert-form").elements) field.disabled = !allowed("alerts");
+  }
+
+  function signOut(reason) {
+    if (state.socket) {
+      state.socket.disconnect();
+      state.socket = null;
+    }
+    state.token = null;
+    state.me = null;
+    localStorage.removeItem(TOKEN_KEY);
+    $("identity").textContent = "";
+    $("sign-out").hidden = true;
+    $("login-error").textContent = reason || "";
+    if (!$("login").open) $("login").showModal();
+  }
+
+  async function start() {
+    try {
+      state.me = await api("GET", "/me");
+    } catch (error) {
+      if (!$("login").open) signOut(error.message === "Not signed in" ? "" : error.message);
+      return;
+    }
+    applyPermissions();
+    connect();
+    attempt(loadPortfolio);
+    attempt(loadProducts);
+  }
+
+  $("login-form").onsubmit = (event) => {
+    event.preventDefault();
+    state.token = event.target.apiKey.value.trim();
+    localStorage.setItem(TOKEN_KEY, state.token);
+    event.target.reset();
+    $("login").close();
+    start();
+  };
+
+  $("sign-out").onclick = () => signOut();
+
+  // ==================== FORMS ====================
+
+  function formValues(form) {
+    return Object.fromEntries(new FormData(form).entries());
+  }
+
+  $("watch-form").onsubmit = (event) => {
+    event.preventDefault();
+    const form = event.target;
+    attempt(async () => {
+      const data = await api("POST", "/subscriptions", { productId: formValues(form).productId });
+      state.market.set(data.productId, { ...state.market.get(data.productId), ...data });
+      renderPrices();
+      form.reset();
+    });
+  };
+
+  const ticket = $("ticket-form");
+  ticket.orderType.onchange = () => ticket.classList.toggle("limit", ticket.orderType.value === "limit");
+
+  ticket.onsubmit = (event) => {
+    event.preventDefault();
+    const values = formValues(ticket);
+    const order = {
+      productId: values.productId,
+      side: values.side,
+      orderType: values.orderType
+    };
+    order[values.sizeIn === "quote" ? "quoteAmount" : "amount"] = values.amount;
+    if (values.orderType === "limit") order.limitPrice = values.limitPrice;
+
+    attempt(async () => {
+      const placed = await api("POST", "/orders", order);
+      log("Placed " + placed.orderType + " " + placed.side + " " + placed.amount + " " + placed.productId + " (" + placed.status + ")");
+      ticket.amount.value = "";
+    });
+  };
+
+  $("alert-form").onsubmit = (event) => {
+    event.preventDefault();
+    const form = event.target;
+    attempt(async () => {
+      await api("POST", "/alerts", formValues(form));
+      form.reset();
+    });
+  };
+
+  start();
+})();
@@ -0,0 +1,87 @@
+import cors from "cors";
+import express from "express";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { Server } from "socket.io";
+import { CoinbaseTradingAgent } from "../agent";
+import { ApiKeyStore, AuditLog, can } from "../auth";
+import { createApiRouter, requestToken, UNAUTHENTICATED_PRINCIPAL } from "./api";
+import { streamAgentEvents } from "./events";
+
+export interface WebServerOptions {
+  // API keys and their roles; null turns authentication off (local development only)
+  auth: ApiKeyStore | null;
+  // Where authenticated actions are recorded; defaults to an in-memory log
+  audit?: AuditLog;
+  // Allowed CORS origin(s); defaults to any origin
+  corsOrigin?: string | string[];
+  // Directory of the browser dashboard served at "/"; null serves the API only
+  staticDir?: string | null;
+}
+
+export const DASHBOARD_DIR = path.join(__dirname, "public");
+
+export interface WebServer {
+  app: express.Express;
+  server: http.Server;
+  io: Server;
+  // Resolves with the bound port, which matters when listening on port 0
+  listen(port: number, host?: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * HTTP API, Socket.IO stream and dashboard over one agent. The REST routes
+ * are mounted at the root next to the dashboard's files; the agent is
+ * shared, so orders placed here and in other front ends see the same state.
+ */
+export function createWebServer(agent: CoinbaseTradingAgent, options: WebServerOptions): WebServer {
+  const corsOptions = { origin: options.corsOrigin || "*" };
+  const app = express();
+  const server = http.createServer(app);
+  const io = new Server(server, { cors: corsOptions });
+  const audit = options.audit || new AuditLog();
+
+  // Streaming needs the same key as the API, passed as { auth: { token } } or an Authorization header
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token || requestToken(socket.handshake.headers.authorization);
+    const principal = options.auth ? options.auth.authenticate(token) : UNAUTHENTICATED_PRINCIPAL;
+    if (!can(principal, "read")) {
+      audit.record({ actor: "anonymous", role: null, action: "socket connect", outcome: "denied", detail: token ? "invalid API key" : "missing API key" });
+      next(new Error("A valid API key is required"));
+      return;
+    }
+    socket.data.principal = principal;
+    next();
+  });
+
+  const stopStreaming = streamAgentEvents(agent, io);
+  const broadcastChange = (resource: "alerts" | "strategies") => {
+    io.emit(resource, resource === "alerts" ? agent.listPriceAlerts() : agent.listStrategies());
+  };
+
+  app.use(cors(corsOptions));
+  const staticDir = options.staticDir === undefined ? DASHBOARD_DIR : options.staticDir;
+  if (staticDir) {
+    app.use(express.static(staticDir));
+  }
+  app.use(createApiRouter(agent, { auth: options.auth, audit, onChange: broadcastChange }));
+
+  return {
+    app,
+    server,
+    io,
+    listen(port, host) {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => resolve((server.address() as AddressInfo).port));
+      });
+    },
+    async close() {
+      stopStreaming();
+      // Closes the Socket.IO clients and the HTTP server together
+      await new Promise<void>((resolve) => io.close(() => resolve()));
+    }
+  };
+}
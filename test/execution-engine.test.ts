@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ExecutionEngine, PaperExchange } from "../src/execution";
+import { MarketData } from "../src/market-data";
+import { ProductCatalog } from "../src/products";
+import { RiskEngine, RiskLimits } from "../src/risk";
+
+const BTC_USD = {
+  productId: "BTC-USD",
+  baseCurrency: "BTC",
+  quoteCurrency: "USD",
+  baseIncrement: "0.00000001",
+  quoteIncrement: "0.01",
+  baseMinSize: "0.001",
+  status: "online",
+  tradingDisabled: false,
+  cancelOnly: false,
+  limitOnly: false
+};
+
+function market(price: number): MarketData {
+  return { productId: "BTC-USD", price, volume24h: 0, priceChange24h: 0, timestamp: new Date() };
+}
+
+// An engine over a paper exchange holding USD and BTC, with BTC at $50,000
+function engineWith(limits: RiskLimits) {
+  const risk = new RiskEngine(limits);
+  const engine = new ExecutionEngine(
+    new PaperExchange({ startingBalances: { USD: 10000, BTC: 1 } }),
+    async () => market(50000),
+    () => new Date(),
+    risk,
+    new ProductCatalog([BTC_USD])
+  );
+  return { engine, risk };
+}
+
+test("an order the risk engine resizes below the product minimum is rejected", async () => {
+  const { engine } = engineWith({ maxOrderNotional: 10, resizeOrders: true });
+
+  await assert.rejects(
+    engine.submit({ productId: "BTC-USD", orderType: "market", side: "buy", amount: "0.01" }),
+    /Resized order no longer fits BTC-USD: Amount 0.0002 is below the BTC-USD minimum of 0.001/
+  );
+  assert.equal(engine.list()[0].status, "rejected");
+});
+
+test("a resized order that still fits is sent at its new size", async () => {
+  const { engine } = engineWith({ maxOrderNotional: 100, resizeOrders: true });
+
+  const order = await engine.submit({ productId: "BTC-USD", orderType: "market", side: "buy", amount: "0.01" });
+
+  assert.equal(order.status, "filled");
+  assert.equal(order.amount, "0.002");
+});
+
+test("a triggered stop is refused once the kill switch is engaged", async () => {
+  const { engine, risk } = engineWith({});
+  const rejected: string[] = [];
+  engine.on("riskRejected", ({ rule }) => rejected.push(rule));
+
+  const stop = await engine.submit({ productId: "BTC-USD", orderType: "stop_market", side: "sell", amount: "0.1", stopPrice: "45000" });
+  assert.equal(stop.status, "open");
+
+  risk.setKillSwitch(true);
+  await engine.matchOpenOrders(new Map([["BTC-USD", market(44000)]]));
+
+  assert.equal(stop.status, "rejected");
+  assert.equal(stop.fills.length, 0);
+  assert.deepEqual(rejected, ["killSwitch"]);
+});
+
+test("a triggered stop counts against the order rate limit", async () => {
+  const { engine } = engineWith({ maxOrdersPerMinute: 1 });
+
+  const stop = await engine.submit({ productId: "BTC-USD", orderType: "stop_market", side: "sell", amount: "0.1", stopPrice: "45000" });
+  await engine.matchOpenOrders(new Map([["BTC-USD", market(44000)]]));
+
+  assert.equal(stop.status, "rejected");
+  assert.match(stop.statusReason, /Order rate limit reached/);
+});
+
+test("product ids are normalised before the order is created", async () => {
+  const { engine } = engineWith({ allowedProducts: ["BTC-USD"] });
+
+  const order = await engine.submit({ productId: "btc/usd", orderType: "market", side: "buy", amount: "0.01" });
+
+  assert.equal(order.productId, "BTC-USD");
+  assert.equal(order.status, "filled");
+});
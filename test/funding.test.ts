@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  FundingAsset,
+  parseFundingAsset,
+  recipientProblem,
+  requestTestnetFunds,
+  TransactionConfirmation,
+  transferTokens,
+  WalletBackend
+} from "../src/funding";
+import { NetworkId } from "../src/networks";
+
+const ACCOUNT = "0x1111111111111111111111111111111111111111";
+const FRIEND = "0x2222222222222222222222222222222222222222";
+
+// Records every call and confirms each transaction with the status it is told to
+class FakeWallet implements WalletBackend {
+  calls: string[] = [];
+  status: TransactionConfirmation["status"] = "success";
+
+  async requestFaucet(network: NetworkId, asset: FundingAsset): Promise<string> {
+    this.calls.push(`faucet ${network} ${asset}`);
+    return `0xfaucet${asset}`;
+  }
+
+  async transfer(network: NetworkId, to: string, asset: FundingAsset, amount: bigint): Promise<string> {
+    this.calls.push(`transfer ${network} ${to} ${asset} ${amount}`);
+    return "0xtransfer";
+  }
+
+  async waitForTransaction(network: NetworkId, transactionHash: string): Promise<TransactionConfirmation> {
+    this.calls.push(`wait ${transactionHash}`);
+    return { transactionHash, status: this.status, blockNumber: 42 };
+  }
+}
+
+test("the faucet drips each asset and waits for it to confirm", async () => {
+  const wallet = new FakeWallet();
+
+  const funded = await requestTestnetFunds(wallet, "base-sepolia");
+
+  assert.deepEqual(wallet.calls, [
+    "faucet base-sepolia ETH",
+    "wait 0xfaucetETH",
+    "faucet base-sepolia USDC",
+    "wait 0xfaucetUSDC"
+  ]);
+  assert.deepEqual(funded.map((entry) => [entry.asset, entry.amount, entry.blockNumber]), [["ETH", 0.0001, 42], ["USDC", 1, 42]]);
+});
+
+test("the faucet refuses mainnets before requesting anything", async () => {
+  const wallet = new FakeWallet();
+
+  await assert.rejects(requestTestnetFunds(wallet, "base", ["ETH"]), /only funds Base Sepolia/);
+  assert.deepEqual(wallet.calls, []);
+});
+
+test("transfers are sent in the asset's smallest unit", async () => {
+  const wallet = new FakeWallet();
+
+  const transfer = await transferTokens(wallet, "base-sepolia", ACCOUNT, FRIEND, "USDC", 12.5);
+
+  assert.equal(wallet.calls[0], `transfer base-sepolia ${FRIEND} USDC 12500000`);
+  assert.equal(transfer.to, FRIEND);
+  assert.equal(transfer.blockNumber, 42);
+});
+
+test("bad recipients and amounts are refused without sending", async () => {
+  const wallet = new FakeWallet();
+
+  await assert.rejects(transferTokens(wallet, "base-sepolia", ACCOUNT, "0x123", "ETH", 1), /not an EVM address/);
+  await assert.rejects(
+    transferTokens(wallet, "base-sepolia", ACCOUNT, `0x${"0".repeat(40)}`, "ETH", 1),
+    /zero address/
+  );
+  await assert.rejects(transferTokens(wallet, "base-sepolia", ACCOUNT, ACCOUNT.toUpperCase().replace("0X", "0x"), "ETH", 1), /own address/);
+  await assert.rejects(transferTokens(wallet, "base-sepolia", ACCOUNT, FRIEND, "ETH", 0), /Invalid amount/);
+  assert.deepEqual(wallet.calls, []);
+});
+
+test("a reverted transfer throws", async () => {
+  const wallet = new FakeWallet();
+  wallet.status = "reverted";
+
+  await assert.rejects(transferTokens(wallet, "base-sepolia", ACCOUNT, FRIEND, "ETH", 0.1), /reverted/);
+});
+
+test("funding assets and recipients are validated", () => {
+  assert.equal(parseFundingAsset(" usdc "), "USDC");
+  assert.throws(() => parseFundingAsset("doge"), /Unsupported asset/);
+  assert.equal(recipientProblem(FRIEND, ACCOUNT), null);
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  CompletionRequest,
+  CompletionResult,
+  INTENT_TOOL,
+  LlmClient,
+  parseIntent,
+  parseIntentWithLlm,
+  parseIntentWithRules
+} from "../src/ai";
+
+// Answers every request with the given tool arguments, or throws the given error
+class StubLlm implements LlmClient {
+  readonly model = "stub";
+  requests: CompletionRequest[] = [];
+
+  constructor(private answer: object | string | Error) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request);
+    if (this.answer instanceof Error) throw this.answer;
+    const toolArguments = typeof this.answer === "string" ? this.answer : JSON.stringify(this.answer);
+    return { content: null, toolArguments, model: this.model };
+  }
+}
+
+test("the model's tool call becomes a typed intent", async () => {
+  const llm = new StubLlm({ intent: "trade", side: "buy", asset: "bitcoin", quoteAmount: 100 });
+
+  const parsed = await parseIntent("grab me a hundred bucks of the orange coin", llm);
+
+  assert.deepEqual(parsed, { intent: { type: "trade", side: "buy", productId: "BTC-USD", quoteAmount: "100" }, source: "llm" });
+  assert.equal(llm.requests[0].tool, INTENT_TOOL);
+  assert.equal(llm.requests[0].messages[1].content, "grab me a hundred bucks of the orange coin");
+});
+
+test("fields the intent needs are still checked after the model answers", async () => {
+  const llm = new StubLlm({ intent: "alert", asset: "ETH", condition: "above" });
+
+  assert.deepEqual(await parseIntentWithLlm(llm, "ping me about eth"), {
+    type: "unknown",
+    reason: "At what price should I alert you?"
+  });
+});
+
+test("out-of-schema or unparseable answers are discarded", async () => {
+  assert.equal(await parseIntentWithLlm(new StubLlm({ intent: "trade", side: "hold" }), "hold btc"), null);
+  assert.equal(await parseIntentWithLlm(new StubLlm({ intent: "trade", amount: -1 }), "sell btc"), null);
+  assert.equal(await parseIntentWithLlm(new StubLlm({ intent: "help", mood: "happy" }), "help"), null);
+  assert.equal(await parseIntentWithLlm(new StubLlm("not json"), "help"), null);
+});
+
+test("a failing or confused model falls back to the rules", async () => {
+  const failing = await parseIntent("sell 0.5 eth", new StubLlm(new Error("503 Service Unavailable")));
+  assert.deepEqual(failing, { intent: { type: "trade", side: "sell", productId: "ETH-USD", amount: "0.5" }, source: "rules" });
+
+  const confused = await parseIntent("sell 0.5 eth", new StubLlm({ intent: "unknown", reason: "No idea" }));
+  assert.equal(confused.source, "rules");
+  assert.equal(confused.intent.type, "trade");
+
+  // When neither understands the message, the model's reason is the more useful one
+  const neither = await parseIntent("what's up", new StubLlm({ intent: "unknown", reason: "Say what to trade" }));
+  assert.deepEqual(neither, { intent: { type: "unknown", reason: "Say what to trade" }, source: "llm" });
+});
+
+test("the rules cover the common phrasings without a model", async () => {
+  assert.deepEqual(parseIntentWithRules("alert me when btc drops below 60,000"), {
+    type: "alert",
+    productId: "BTC-USD",
+    condition: "below",
+    targetPrice: 60000
+  });
+  assert.deepEqual(parseIntentWithRules("dca $25 of sol every day"), {
+    type: "strategy",
+    strategy: "dca",
+    productId: "SOL-USD",
+    quoteAmount: "25",
+    intervalMinutes: 1440
+  });
+  assert.deepEqual(await parseIntent("show my last 5 trades"), { intent: { type: "history", productId: undefined, limit: 5 }, source: "rules" });
+});
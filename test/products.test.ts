@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { loadProductCatalog, Product, ProductSource } from "../src/products";
+
+// Answers like an exchange that can't be reached
+class UnreachableSource implements ProductSource {
+  readonly name = "unreachable";
+
+  async fetchProducts(): Promise<Product[]> {
+    throw new Error("getaddrinfo ENOTFOUND api.exchange.coinbase.com");
+  }
+}
+
+test("a catalog that can't be loaded stops startup instead of leaving orders unchecked", async () => {
+  await assert.rejects(
+    loadProductCatalog(new UnreachableSource()),
+    /Could not load the product catalog from unreachable: getaddrinfo ENOTFOUND.*PRODUCT_CATALOG_FILE/
+  );
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import { ReplayMarketDataProvider } from "../src/market-data";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "replay-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function recording(): string {
+  const file = path.join(directory, "ticks.csv");
+  fs.writeFileSync(file, [
+    "timestamp,productId,price",
+    "2024-01-01T00:00:00Z,BTC-USD,100",
+    "2024-01-01T00:00:00Z,ETH-USD,10",
+    "2024-01-01T00:01:00Z,BTC-USD,101",
+    "2024-01-01T00:01:00Z,ETH-USD,11"
+  ].join("\n"));
+  return file;
+}
+
+const prices = async (provider: ReplayMarketDataProvider, productIds: string[] = []) =>
+  (await provider.fetchTickers(productIds)).map((tick) => tick.price);
+
+test("every fetch serves the current frame until it is advanced", async () => {
+  const provider = new ReplayMarketDataProvider(recording());
+
+  // Lookups before the first cycle, and per product within a cycle, don't skip ahead
+  assert.deepEqual(await prices(provider, ["BTC-USD"]), [100]);
+  provider.advance();
+  assert.deepEqual(await prices(provider, ["BTC-USD"]), [100]);
+  assert.deepEqual(await prices(provider, ["ETH-USD"]), [10]);
+
+  provider.advance();
+  assert.deepEqual(await prices(provider), [101, 11]);
+  assert.deepEqual(await prices(provider), [101, 11]);
+});
+
+test("the recording ends, or starts over when looping", async () => {
+  const once = new ReplayMarketDataProvider(recording());
+  once.advance();
+  once.advance();
+  once.advance();
+  assert.equal(once.exhausted, true);
+  assert.deepEqual(await prices(once), []);
+
+  const looping = new ReplayMarketDataProvider(recording(), { loop: true });
+  looping.advance();
+  looping.advance();
+  looping.advance();
+  assert.equal(looping.exhausted, false);
+  assert.deepEqual(await prices(looping), [100, 10]);
+});
@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import { AccountManager, DEFAULT_ACCOUNT_NAME } from "../src/accounts";
+import { CoinbaseTradingAgent } from "../src/agent";
+import { initializeTradingRepository } from "../src/database/trading-repository";
+import { PaperExchange } from "../src/execution";
+import { MarketData, MarketDataProvider } from "../src/market-data";
+import { agentSnapshot } from "../src/web/events";
+
+const directories: string[] = [];
+after(() => directories.forEach((directory) => fs.rmSync(directory, { recursive: true, force: true })));
+
+function dataDirectory(): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "restore-"));
+  directories.push(directory);
+  return directory;
+}
+
+async function startAgent(directory: string, ticker: MarketDataProvider): Promise<CoinbaseTradingAgent> {
+  const agent = new CoinbaseTradingAgent();
+  await agent.initialize({
+    marketDataProvider: ticker,
+    executionVenue: new PaperExchange({ startingBalances: { USD: 10000 } }),
+    repository: initializeTradingRepository(directory),
+    startMonitoring: false,
+    riskLimits: {},
+    productSource: null
+  });
+  return agent;
+}
+
+// Quotes BTC-USD at price, or nothing while price is null (the provider is unreachable)
+class Ticker implements MarketDataProvider {
+  readonly name = "ticker";
+  price: number | null = null;
+
+  async fetchTickers(productIds: string[]): Promise<MarketData[]> {
+    if (this.price === null || !productIds.includes("BTC-USD")) return [];
+    return [{ productId: "BTC-USD", price: this.price, volume24h: 0, priceChange24h: 0, timestamp: new Date() }];
+  }
+}
+
+test("prices restored from the last run don't price orders until they are refreshed", async () => {
+  const directory = dataDirectory();
+  const previous = initializeTradingRepository(directory);
+  await previous.migrate();
+  await previous.saveMarketData({
+    productId: "BTC-USD",
+    price: 20000,
+    volume24h: 0,
+    priceChange24h: 0,
+    timestamp: new Date("2024-01-01T00:00:00Z")
+  });
+  await previous.close();
+
+  const ticker = new Ticker();
+  const agent = await startAgent(directory, ticker);
+
+  try {
+    await assert.rejects(agent.marketBuy("BTC-USD", "0.01"), /No market data available for BTC-USD/);
+
+    ticker.price = 50000;
+    const order = await agent.marketBuy("BTC-USD", "0.01");
+    assert.equal(order.status, "filled");
+    assert.ok(order.executedPrice > 49000);
+  } finally {
+    await agent.close();
+  }
+});
+
+test("open orders of other accounts aren't tracked", async () => {
+  const directory = dataDirectory();
+  const previous = initializeTradingRepository(directory);
+  await previous.migrate();
+  for (const [id, productId, account] of [["order_mine", "BTC-USD", "paper"], ["order_theirs", "ETH-USD", "alice"]]) {
+    await previous.saveOrder({
+      id,
+      productId,
+      account,
+      orderType: "limit",
+      side: "buy",
+      amount: "1",
+      limitPrice: "100",
+      status: "open",
+      filledAmount: 0,
+      fees: 0,
+      fills: [],
+      timestamp: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z"
+    });
+  }
+  await previous.close();
+
+  const agent = await startAgent(directory, new Ticker());
+  try {
+    assert.deepEqual(agent.getTrackedProducts(), ["BTC-USD"]);
+  } finally {
+    await agent.close();
+  }
+});
+
+test("open orders restored for another account are not matched", async () => {
+  const directory = dataDirectory();
+  const previous = initializeTradingRepository(directory);
+  await previous.migrate();
+  await previous.saveOrder({
+    id: "order_alice",
+    productId: "BTC-USD",
+    account: "alice",
+    orderType: "limit",
+    side: "buy",
+    amount: "1",
+    limitPrice: "100",
+    status: "open",
+    filledAmount: 0,
+    fees: 0,
+    fills: [],
+    timestamp: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z"
+  });
+  await previous.close();
+
+  const ticker = new Ticker();
+  ticker.price = 90;
+  const agent = await startAgent(directory, ticker);
+  try {
+    agent.subscribe("BTC-USD");
+    await agent.runMonitoringCycle();
+
+    assert.equal(agent.getOrder("order_alice").status, "open");
+    assert.deepEqual(
+      agent.getExecutionBalances().map((balance) => [balance.asset, balance.total]),
+      [["USD", 10000]]
+    );
+  } finally {
+    await agent.close();
+  }
+});
+
+test("a paper run isn't remembered as the account to use next", async () => {
+  const directory = dataDirectory();
+  await (await startAgent(directory, new Ticker())).close();
+
+  const repository = initializeTradingRepository(directory);
+  await repository.migrate();
+  try {
+    const accounts = new AccountManager(null, repository);
+    assert.equal(await accounts.lastSelection(), null);
+    assert.equal(await accounts.resolveName(), DEFAULT_ACCOUNT_NAME);
+  } finally {
+    await repository.close();
+  }
+});
+
+test("portfolio history only counts the active account's snapshots", async () => {
+  const directory = dataDirectory();
+  const previous = initializeTradingRepository(directory);
+  await previous.migrate();
+  const takenAt = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+  await previous.savePortfolioSnapshot({ timestamp: takenAt, account: "alice", totalValue: 50000, holdings: [] });
+  await previous.savePortfolioSnapshot({ timestamp: takenAt, account: "paper", totalValue: 9000, holdings: [] });
+  await previous.close();
+
+  const agent = await startAgent(directory, new Ticker());
+  try {
+    assert.equal((await agent.analyzePortfolio()).change24h, 1000);
+    const { timeWeightedReturn } = await agent.generatePerformanceReport();
+    assert.equal(timeWeightedReturn.toFixed(2), "11.11");
+  } finally {
+    await agent.close();
+  }
+});
+
+test("the event stream's snapshot only shows the active account's open orders", async () => {
+  const directory = dataDirectory();
+  const previous = initializeTradingRepository(directory);
+  await previous.migrate();
+  for (const [id, account] of [["order_mine", "paper"], ["order_alice", "alice"]]) {
+    await previous.saveOrder({
+      id,
+      productId: "BTC-USD",
+      account,
+      orderType: "limit",
+      side: "buy",
+      amount: "1",
+      limitPrice: "100",
+      status: "open",
+      filledAmount: 0,
+      fees: 0,
+      fills: [],
+      timestamp: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z"
+    });
+  }
+  await previous.close();
+
+  const agent = await startAgent(directory, new Ticker());
+  try {
+    const { openOrders } = await agentSnapshot(agent);
+    assert.deepEqual(openOrders.map((order) => order.id), ["order_mine"]);
+  } finally {
+    await agent.close();
+  }
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CoinbaseTradingAgent } from "../src/agent";
+import { PaperExchange } from "../src/execution";
+import { MarketData, MarketDataProvider } from "../src/market-data";
+
+// Quotes every product it is asked about at a fixed price
+class FixedPrices implements MarketDataProvider {
+  readonly name = "fixed";
+
+  constructor(private price: number) {}
+
+  async fetchTickers(productIds: string[]): Promise<MarketData[]> {
+    return productIds.map((productId) => ({
+      productId,
+      price: this.price,
+      volume24h: 0,
+      priceChange24h: 0,
+      timestamp: new Date()
+    }));
+  }
+}
+
+test("orders placed by a DCA strategy are attributed to it", async () => {
+  const agent = new CoinbaseTradingAgent();
+  await agent.initialize({
+    marketDataProvider: new FixedPrices(50000),
+    executionVenue: new PaperExchange({ startingBalances: { USD: 10000 } }),
+    startMonitoring: false,
+    riskLimits: {},
+    productSource: null
+  });
+
+  try {
+    const strategyId = agent.createDCAStrategy("BTC-USD", { quoteAmount: "100" }, 60);
+    await agent.runMonitoringCycle();
+
+    const [order] = agent.getOrderHistory();
+    assert.equal(order.status, "filled");
+    assert.equal(order.strategyId, strategyId);
+  } finally {
+    await agent.close();
+  }
+});
+
+test("a grid only seeds the sells its holdings cover", async () => {
+  const agent = new CoinbaseTradingAgent();
+  await agent.initialize({
+    marketDataProvider: new FixedPrices(50000),
+    executionVenue: new PaperExchange({ startingBalances: { USD: 10000, BTC: 0.01 } }),
+    startMonitoring: false,
+    riskLimits: {},
+    productSource: null
+  });
+
+  try {
+    agent.createGridStrategy("BTC-USD", 40000, 60000, 5, "0.01");
+    await agent.runMonitoringCycle();
+
+    const orders = agent.getOrderHistory().map((order) => [order.side, order.limitPrice, order.status]).sort();
+    assert.deepEqual(orders, [["buy", "40000", "open"], ["buy", "45000", "open"], ["sell", "55000", "open"]]);
+  } finally {
+    await agent.close();
+  }
+});
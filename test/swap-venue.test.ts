@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MarketData } from "../src/market-data";
+import { Order } from "../src/orders";
+import {
+  EvmTransaction,
+  SwapBackend,
+  SwapExecutionVenue,
+  SwapQuote,
+  SwapRequest,
+  TransactionReceiptSummary
+} from "../src/swaps";
+
+const SPENDER = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+/**
+ * Stand-in for a local EVM node and the swap API: quotes ETH/USDC at a set
+ * price, tracks the USDC allowance granted by approve transactions and
+ * mines every transaction it is sent.
+ */
+class FakeChain implements SwapBackend {
+  readonly network = "base";
+  readonly address = "0x1111111111111111111111111111111111111111";
+  price = 2000;
+  allowance = 0n;
+  sent: Array<{ kind: "approve" | "swap"; hash: string }> = [];
+  // Makes the next receipt lookups throw, as a dropped RPC connection would
+  receiptFailures = 0;
+  // Called after each approval, e.g. to move the price before the requote
+  onApprove: () => void = () => {};
+
+  async quote(request: SwapRequest): Promise<SwapQuote> {
+    const buyingEth = request.from.symbol === "USDC";
+    const toAmount = buyingEth
+      ? (request.fromAmount * 10n ** 12n) / BigInt(this.price)
+      : (request.fromAmount * BigInt(this.price)) / 10n ** 12n;
+
+    return {
+      fromAmount: request.fromAmount,
+      toAmount,
+      minToAmount: (toAmount * BigInt(10000 - request.slippageBps)) / 10000n,
+      ...(buyingEth && this.allowance < request.fromAmount
+        ? { allowance: { spender: SPENDER, currentAllowance: this.allowance } }
+        : {}),
+      transaction: { to: SPENDER, data: "0x", value: 0n }
+    };
+  }
+
+  async sendTransaction(transaction: EvmTransaction): Promise<string> {
+    const hash = `0x${(this.sent.length + 1).toString(16).padStart(64, "0")}`;
+    if (transaction.data.startsWith("0x095ea7b3")) {
+      this.allowance = BigInt(`0x${transaction.data.slice(-64)}`);
+      this.sent.push({ kind: "approve", hash });
+      this.onApprove();
+    } else {
+      this.sent.push({ kind: "swap", hash });
+    }
+    return hash;
+  }
+
+  async waitForReceipt(transactionHash: string): Promise<TransactionReceiptSummary> {
+    if (this.receiptFailures > 0) {
+      this.receiptFailures--;
+      throw new Error("connection reset");
+    }
+    return {
+      transactionHash,
+      status: "success",
+      blockNumber: 100n,
+      gasUsed: 50000n,
+      effectiveGasPrice: 1000000000n,
+      logs: []
+    };
+  }
+}
+
+function order(overrides: Partial<Order>): Order {
+  return {
+    id: `order_${Math.random().toString(36).slice(2)}`,
+    productId: "ETH-USD",
+    orderType: "market",
+    side: "buy",
+    amount: "0.5",
+    status: "pending",
+    filledAmount: 0,
+    fees: 0,
+    fills: [],
+    timestamp: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+function market(price: number): MarketData {
+  return { productId: "ETH-USD", price, volume24h: 0, priceChange24h: 0, timestamp: new Date() };
+}
+
+test("a buy approves the quote token before swapping", async () => {
+  const chain = new FakeChain();
+  const venue = new SwapExecutionVenue(chain);
+
+  const report = await venue.submitOrder(order({}), market(2000));
+
+  assert.equal(report.accepted, true);
+  assert.deepEqual(chain.sent.map((tx) => tx.kind), ["approve", "swap"]);
+  assert.equal(report.fills[0].amount, 0.5);
+  assert.equal(report.fills[0].settlement.approvalTransactionHash, chain.sent[0].hash);
+  // The approval's gas is charged alongside the swap's
+  assert.equal(report.fills[0].settlement.gasUsed, "100000");
+});
+
+test("a requote that needs more than was approved approves again instead of reverting", async () => {
+  const chain = new FakeChain();
+  chain.onApprove = () => {
+    // The price moves once, after the first approval, so the requote spends more
+    if (chain.sent.length === 1) chain.price += 20;
+  };
+  const venue = new SwapExecutionVenue(chain);
+
+  const report = await venue.submitOrder(order({}), market(2020));
+
+  assert.deepEqual(chain.sent.map((tx) => tx.kind), ["approve", "approve", "swap"]);
+  assert.equal(report.fills.length, 1);
+});
+
+test("the swap is not sent while the allowance stays short", async () => {
+  const chain = new FakeChain();
+  chain.onApprove = () => { chain.price += 20; };
+  const venue = new SwapExecutionVenue(chain);
+
+  await assert.rejects(venue.submitOrder(order({}), market(2000)), /allowance is still short/);
+  assert.equal(chain.sent.filter((tx) => tx.kind === "swap").length, 0);
+});
+
+test("a sell of the native asset swaps exact input without approval", async () => {
+  const chain = new FakeChain();
+  const venue = new SwapExecutionVenue(chain, { slippageBps: 50 });
+
+  const report = await venue.submitOrder(order({ side: "sell", amount: "1" }), market(2000));
+
+  assert.deepEqual(chain.sent.map((tx) => tx.kind), ["swap"]);
+  assert.equal(report.fills[0].price, 2000);
+  assert.equal(report.fills[0].settlement.minToAmount, 1990);
+});
+
+test("a limit the quote can't honour keeps resting without sending anything", async () => {
+  const chain = new FakeChain();
+  chain.allowance = 10n ** 18n;
+  const venue = new SwapExecutionVenue(chain);
+  const limit = order({ orderType: "limit", limitPrice: "2000" });
+
+  // Crossed at the market price, but the slippage-adjusted spend is above the limit
+  const fills = await venue.matchOrder(limit, market(2000));
+
+  assert.deepEqual(fills, []);
+  assert.equal(chain.sent.length, 0);
+});
+
+test("a swap whose receipt can't be read stays pending and is reconciled later", async () => {
+  const chain = new FakeChain();
+  chain.allowance = 10n ** 18n;
+  chain.receiptFailures = 1;
+  const venue = new SwapExecutionVenue(chain);
+  const pending = order({});
+
+  const report = await venue.submitOrder(pending, market(2000));
+  assert.equal(report.accepted, true);
+  assert.deepEqual(report.fills, []);
+  assert.equal(pending.pendingTransaction, chain.sent[0].hash);
+
+  // Still unconfirmed: nothing is swapped a second time
+  chain.receiptFailures = 1;
+  assert.deepEqual(await venue.matchOrder(pending, market(2000)), []);
+  assert.equal(chain.sent.length, 1);
+
+  const fills = await venue.matchOrder(pending, market(2000));
+  assert.equal(fills.length, 1);
+  assert.equal(fills[0].settlement.transactionHash, chain.sent[0].hash);
+  assert.equal(pending.pendingTransaction, undefined);
+});
+
+test("a pending swap is still filled by a venue that restarted since it was sent", async () => {
+  const chain = new FakeChain();
+  const receipt = chain.waitForReceipt.bind(chain);
+  let restarted = false;
+  // The approval confirms, but the swap's receipt is lost until after the restart
+  chain.waitForReceipt = async (hash) => {
+    if (!restarted && chain.sent.find((tx) => tx.hash === hash).kind === "swap") throw new Error("connection reset");
+    return receipt(hash);
+  };
+  const pending = order({});
+  await new SwapExecutionVenue(chain).submitOrder(pending, market(2000));
+  restarted = true;
+
+  // Saved and loaded again, as the order repository does across a restart
+  const restored: Order = JSON.parse(JSON.stringify(pending));
+  const fills = await new SwapExecutionVenue(chain).matchOrder(restored, market(2000));
+
+  assert.equal(fills.length, 1);
+  assert.equal(fills[0].amount, 0.5);
+  assert.equal(fills[0].settlement.transactionHash, chain.sent[1].hash);
+  // The approval sent before the restart is still charged
+  assert.equal(fills[0].settlement.approvalTransactionHash, chain.sent[0].hash);
+  assert.equal(fills[0].settlement.gasUsed, "100000");
+  assert.equal(restored.pendingSwap, undefined);
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { transactionsToCsv } from "../src/accounting";
+import { Fill, Order } from "../src/orders";
+
+function filledOrder(id: string, fill: Partial<Fill>): Order {
+  return {
+    id,
+    productId: "ETH-USD",
+    orderType: "market",
+    side: "buy",
+    amount: "1",
+    status: "filled",
+    filledAmount: 1,
+    executedPrice: 2000,
+    fees: 0,
+    fills: [{ id: `${id}_fill`, orderId: id, price: 2000, amount: 1, fee: 0, timestamp: "2024-03-01T12:00:00.000Z", ...fill }],
+    timestamp: "2024-03-01T12:00:00.000Z",
+    updatedAt: "2024-03-01T12:00:00.000Z"
+  };
+}
+
+test("TxHash is the swap transaction for on-chain fills and the fill id otherwise", () => {
+  const swap = filledOrder("order_swap", {
+    settlement: {
+      network: "base",
+      transactionHash: "0xabc",
+      blockNumber: 1,
+      gasUsed: "50000",
+      gasCost: 0.00005,
+      nativeAsset: "ETH",
+      fromToken: "USDC",
+      toToken: "ETH",
+      fromAmount: 2000,
+      toAmount: 1,
+      minToAmount: 0.99,
+      slippageBps: 100
+    }
+  });
+  const paper = filledOrder("order_paper", {});
+
+  const rows = transactionsToCsv([swap, paper]).trim().split("\n").slice(1);
+
+  assert.deepEqual(rows.map((row) => row.split(",").pop()), ["0xabc", "order_paper_fill"]);
+});
@@ -0,0 +1,52 @@
+import dotenv from "dotenv";
+import { CoinbaseTradingAgent } from "./src/agent";
+import { accountNameFromArgs } from "./src/accounts";
+import { apiKeysFromEnv, AuditLog } from "./src/auth";
+import { initializeTradingRepository } from "./src/database/trading-repository";
+import { createWebServer } from "./src/web";
+
+dotenv.config();
+
+async function main() {
+  console.log("🚀 Starting Coinbase Trading Agent web server...\n");
+
+  // Anyone who can reach the server could trade, so refuse to start without keys unless told otherwise
+  const auth = process.env.WEB_AUTH === "off" ? null : apiKeysFromEnv();
+  if (auth && auth.size === 0) {
+    throw new Error("No API keys configured: set API_KEYS=<name>:<viewer|trader|admin>:<key>,... (or WEB_AUTH=off for local development)");
+  }
+  if (!auth) {
+    console.log("⚠️  WEB_AUTH=off: every caller is treated as an admin");
+  }
+
+  const agent = new CoinbaseTradingAgent();
+  // Alerts, strategies, orders and the audit log are kept in DATA_DIR, shared with the other entry points
+  const repository = initializeTradingRepository(process.env.DATA_DIR || "./data");
+  await agent.initialize({
+    aiEnabled: true,
+    repository,
+    account: accountNameFromArgs(process.argv.slice(2))
+  });
+
+  const web = createWebServer(agent, {
+    auth,
+    audit: new AuditLog(repository),
+    corsOrigin: process.env.WEB_CORS_ORIGIN ? process.env.WEB_CORS_ORIGIN.split(",") : undefined
+  });
+  const port = await web.listen(parseInt(process.env.WEB_PORT || "3001", 10), process.env.WEB_HOST);
+  console.log(`🌐 Dashboard and API on http://${process.env.WEB_HOST || "localhost"}:${port}`);
+
+  const shutdown = async () => {
+    console.log("\n👋 Shutting down...");
+    await web.close();
+    await agent.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to start web server:", error);
+  process.exit(1);
+});